@@ -1,15 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  queryCharacters,
-  queryIndexEntries,
+  queryCharacterPage,
+  queryIndexPage,
   loadCharacterByChar,
   loadSummary,
   getAllRadicals,
   getAllStrokeCounts,
   getWordsByStage,
   loadLexicalListsHKIndex,
+  loadDecompositionIndex,
+  getHomophones,
+  getSimilarCharacters,
+  loadPhoneticIndex,
+  getPhoneticSeriesByChar,
+  getRadicalSummaries,
+  getRadicalCharacters,
+  getCharacterCacheStats,
+  pickCharacterFields,
+  shuffleArray,
+  CHARACTER_FIELDS,
+  type CharacterField,
   type CharacterFilter,
 } from "@/lib/data/indexLoader";
+import { decodeCursor } from "@/lib/data/cursor";
+import { parseIntegerParam } from "@/lib/data/params";
+import {
+  CHARACTER_SORT_KEYS,
+  SORT_DIRECTIONS,
+  isCharacterSortKey,
+  isSortDirection,
+  type CharacterSort,
+} from "@/lib/data/ranking";
+import { JYUTPING_MATCH_MODES, isJyutpingMatchMode, parseJyutpingQuery } from "@/lib/jyutping";
+import { parseStrokeSequence } from "@/lib/strokes";
+import { STRUCTURE_TYPES, isStructureType } from "@/lib/decomposition/structure";
 import type { WordStage } from "@/types/fullCharacter";
 
 /**
@@ -18,34 +42,88 @@ import type { WordStage } from "@/types/fullCharacter";
  * Query characters with filtering, sorting, and pagination.
  * Uses index-based lookups for fast performance.
  * 
- * IMPORTANT: Stage (學習階段) applies to WORDS, not characters.
- * Characters are filtered by stroke count, radical, lexical list membership, etc.
+ * Learning stages (學習階段) are defined by the word lists; a character's stage is the
+ * stage of the first words that use it (see the stage filter).
  * 
  * Query parameters:
  * - char: Single character to look up (returns full data for that character)
  * - minStrokes: Minimum stroke count (inclusive)
  * - maxStrokes: Maximum stroke count (inclusive)
  * - radical: Filter by radical character
- * - jyutping: Search by jyutping (partial match)
+ * - jyutping: Search by jyutping, matched syllable by syllable against any reading
+ * - jyutpingMode: How jyutping is matched ("exact", "toneless", "initial" or "final";
+ *   default "exact", where a query without a tone matches any tone)
+ * - strokeSeq: Stroke sequence the stroke order starts with, as stroke classes or names
+ *   (e.g. "h-s-p", "hsp" or "橫豎撇"); results are ranked by how common the character is
+ * - structure: Filter by structure type (獨體, 左右, 上下, 包圍, 半包圍 or 品字); taken from the
+ *   decomposition where there is one, otherwise inferred from the strokes
+ * - minStructureConfidence: Only match inferred structure types at least this confident (0-1)
  * - inLexicalListsHK: Filter by lexical list inclusion ("true" or "false")
- * - shuffle: Randomize order ("true")
- * - limit: Max results (default: no limit)
- * - offset: Skip first N results (default: 0)
+ * - stage: Learning stage that first introduces the character ("1" or "2"): stage 1 when any
+ *   stage 1 word uses it, otherwise stage 2
+ * - minDifficulty, maxDifficulty: Difficulty score range (0-100, inclusive), from frequency,
+ *   stroke count, stage words and structure
+ * - sort: Sort by "strokes", "radical" (Kangxi order), "jyutping", "frequency" (most common
+ *   first), "difficulty" (easiest first) or "id" (default: index order)
+ * - order: Sort direction, "asc" or "desc" (default: "asc")
+ * - shuffle: Randomize order ("true"; cannot be combined with sort)
+ * - limit: Max results, a positive integer (default: no limit)
+ * - offset: Skip first N results, a non-negative integer (default: 0)
+ * - cursor: Continue from the nextCursor of a previous response (instead of offset), with
+ *   the same filters and sort
  * - indexOnly: Return index entries only, not full data ("true")
+ * - fields: Comma-separated fields of full data to return (e.g. "character,jyutping,stage1Words");
+ *   "id" and "character" are always included. Stroke vectors are only loaded when requested
+ *   (see /api/characters/strokes for fetching them separately). Not allowed with meta
+ *
+ * Responses carry count (results on this page), total (matches across all pages) and, when
+ * there are more results, nextCursor.
  * 
  * Special queries:
  * - ?meta=summary: Return summary statistics
  * - ?meta=radicals: Return all unique radicals
  * - ?meta=strokeCounts: Return all stroke count values
  * - ?meta=words&stage=1: Return words by learning stage (1 or 2)
+ * - ?meta=decomposition: Return character decompositions (optional char, structure filters)
+ * - ?meta=homophones&char=X: Return characters sharing a reading with X (同音字), per reading;
+ *   with jyutpingMode=toneless, also characters with the same syllable grouped by tone
+ * - ?meta=similar&char=X: Return characters that look like X (形近字), most similar first
+ * - ?meta=phonetic: Return phonetic series (聲旁家族) with their Jyutping pattern; with char,
+ *   only the series the character belongs to (as the phonetic or a member)
+ * - ?meta=radicalInfo: Return the 214 Kangxi radicals (部首) in Kangxi order, with variant forms,
+ *   meanings and character counts; with radical=X (or a form such as 氵), that radical and its
+ *   characters grouped by residual strokes
+ * - ?meta=cacheStats: Return character cache size and hit/miss statistics (outside production,
+ *   or with CACHE_STATS=true)
  */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     
-    // Handle meta queries
+    // Parse field selection
+    let fields: CharacterField[] | undefined;
+    const fieldsParam = searchParams.get("fields");
+    if (fieldsParam) {
+      const requested = fieldsParam.split(",").map(f => f.trim()).filter(Boolean);
+      const unknown = requested.filter(f => !(CHARACTER_FIELDS as string[]).includes(f));
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown fields: ${unknown.join(", ")}. Valid fields: ${CHARACTER_FIELDS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      fields = Array.from(new Set<CharacterField>(["id", "character", ...requested as CharacterField[]]));
+    }
+    
+    // Handle meta queries (these return index entries and summaries, which fields does not apply to)
     const meta = searchParams.get("meta");
     if (meta) {
+      if (fields) {
+        return NextResponse.json(
+          { error: "fields cannot be combined with meta" },
+          { status: 400 }
+        );
+      }
       return handleMetaQuery(meta, searchParams);
     }
     
@@ -59,33 +137,31 @@ export async function GET(request: NextRequest) {
           { status: 404 }
         );
       }
-      return NextResponse.json({ character: data });
+      return NextResponse.json({ character: fields ? pickCharacterFields(data, fields) : data });
     }
     
     // Build filter from query params
     const filter: CharacterFilter = {};
     
-    const minStrokesParam = searchParams.get("minStrokes");
-    if (minStrokesParam) {
-      const minStrokes = parseInt(minStrokesParam, 10);
-      if (isNaN(minStrokes) || minStrokes < 1) {
-        return NextResponse.json(
-          { error: "minStrokes must be a positive integer" },
-          { status: 400 }
-        );
-      }
+    const minStrokes = parseIntegerParam(searchParams.get("minStrokes"), 1);
+    if (minStrokes === null) {
+      return NextResponse.json(
+        { error: "minStrokes must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (minStrokes !== undefined) {
       filter.minStrokes = minStrokes;
     }
     
-    const maxStrokesParam = searchParams.get("maxStrokes");
-    if (maxStrokesParam) {
-      const maxStrokes = parseInt(maxStrokesParam, 10);
-      if (isNaN(maxStrokes) || maxStrokes < 1) {
-        return NextResponse.json(
-          { error: "maxStrokes must be a positive integer" },
-          { status: 400 }
-        );
-      }
+    const maxStrokes = parseIntegerParam(searchParams.get("maxStrokes"), 1);
+    if (maxStrokes === null) {
+      return NextResponse.json(
+        { error: "maxStrokes must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (maxStrokes !== undefined) {
       filter.maxStrokes = maxStrokes;
     }
     
@@ -94,11 +170,87 @@ export async function GET(request: NextRequest) {
       filter.radical = radicalParam;
     }
     
+    const jyutpingModeParam = searchParams.get("jyutpingMode");
+    if (jyutpingModeParam) {
+      if (!isJyutpingMatchMode(jyutpingModeParam)) {
+        return NextResponse.json(
+          { error: `Invalid jyutpingMode. Must be one of: ${JYUTPING_MATCH_MODES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      filter.jyutpingMode = jyutpingModeParam;
+    }
+    
     const jyutpingParam = searchParams.get("jyutping");
     if (jyutpingParam) {
+      if (!parseJyutpingQuery(jyutpingParam, filter.jyutpingMode)) {
+        return NextResponse.json(
+          { error: `Invalid jyutping "${jyutpingParam}"` },
+          { status: 400 }
+        );
+      }
       filter.jyutping = jyutpingParam;
     }
     
+    const strokeSeqParam = searchParams.get("strokeSeq");
+    if (strokeSeqParam) {
+      const strokeSequence = parseStrokeSequence(strokeSeqParam);
+      if (!strokeSequence) {
+        return NextResponse.json(
+          { error: `Invalid strokeSeq "${strokeSeqParam}". Use strokes h, s, p, d, z (橫豎撇點折)` },
+          { status: 400 }
+        );
+      }
+      filter.strokeSequence = strokeSequence;
+    }
+    
+    const structureParam = searchParams.get("structure");
+    if (structureParam) {
+      if (!isStructureType(structureParam)) {
+        return NextResponse.json(
+          { error: `Invalid structure. Must be one of: ${STRUCTURE_TYPES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      filter.structure = structureParam;
+    }
+    
+    const minConfidenceParam = searchParams.get("minStructureConfidence");
+    if (minConfidenceParam) {
+      const minConfidence = Number(minConfidenceParam);
+      if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        return NextResponse.json(
+          { error: "minStructureConfidence must be a number between 0 and 1" },
+          { status: 400 }
+        );
+      }
+      filter.minStructureConfidence = minConfidence;
+    }
+    
+    const minDifficultyParam = searchParams.get("minDifficulty");
+    if (minDifficultyParam) {
+      const minDifficulty = Number(minDifficultyParam);
+      if (isNaN(minDifficulty) || minDifficulty < 0 || minDifficulty > 100) {
+        return NextResponse.json(
+          { error: "minDifficulty must be a number between 0 and 100" },
+          { status: 400 }
+        );
+      }
+      filter.minDifficulty = minDifficulty;
+    }
+    
+    const maxDifficultyParam = searchParams.get("maxDifficulty");
+    if (maxDifficultyParam) {
+      const maxDifficulty = Number(maxDifficultyParam);
+      if (isNaN(maxDifficulty) || maxDifficulty < 0 || maxDifficulty > 100) {
+        return NextResponse.json(
+          { error: "maxDifficulty must be a number between 0 and 100" },
+          { status: 400 }
+        );
+      }
+      filter.maxDifficulty = maxDifficulty;
+    }
+    
     const lexicalParam = searchParams.get("inLexicalListsHK");
     if (lexicalParam === "true") {
       filter.inLexicalListsHK = true;
@@ -106,42 +258,116 @@ export async function GET(request: NextRequest) {
       filter.inLexicalListsHK = false;
     }
     
+    const stageParam = searchParams.get("stage");
+    if (stageParam) {
+      if (stageParam !== "1" && stageParam !== "2") {
+        return NextResponse.json(
+          { error: "Invalid stage. Must be '1' or '2'." },
+          { status: 400 }
+        );
+      }
+      filter.stage = stageParam;
+    }
+    
     // Query options
     const shuffle = searchParams.get("shuffle") === "true";
-    const limitParam = searchParams.get("limit");
-    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    const limit = parseIntegerParam(searchParams.get("limit"), 1);
+    if (limit === null) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
     const offsetParam = searchParams.get("offset");
-    const offset = offsetParam ? parseInt(offsetParam, 10) : undefined;
+    let offset = parseIntegerParam(offsetParam, 0);
+    if (offset === null) {
+      return NextResponse.json(
+        { error: "offset must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    
+    let sort: CharacterSort | undefined;
+    const sortParam = searchParams.get("sort");
+    const orderParam = searchParams.get("order");
+    if (sortParam) {
+      if (!isCharacterSortKey(sortParam)) {
+        return NextResponse.json(
+          { error: `Invalid sort. Must be one of: ${CHARACTER_SORT_KEYS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      if (shuffle) {
+        return NextResponse.json(
+          { error: "sort cannot be combined with shuffle" },
+          { status: 400 }
+        );
+      }
+      sort = { key: sortParam };
+    }
+    if (orderParam) {
+      if (!isSortDirection(orderParam)) {
+        return NextResponse.json(
+          { error: `Invalid order. Must be one of: ${SORT_DIRECTIONS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      if (!sort) {
+        return NextResponse.json(
+          { error: "order requires sort" },
+          { status: 400 }
+        );
+      }
+      sort.direction = orderParam;
+    }
+    
+    const cursorParam = searchParams.get("cursor");
+    if (cursorParam) {
+      if (offsetParam) {
+        return NextResponse.json(
+          { error: "Use either cursor or offset, not both" },
+          { status: 400 }
+        );
+      }
+      const cursorOffset = decodeCursor(cursorParam, { filter, sort });
+      if (cursorOffset === null) {
+        return NextResponse.json(
+          { error: "Invalid cursor, or a cursor from a different query" },
+          { status: 400 }
+        );
+      }
+      offset = cursorOffset;
+    }
     
     // Check if index-only response is requested
     const indexOnly = searchParams.get("indexOnly") === "true";
     
     if (indexOnly) {
       // Return lightweight index entries
-      let entries = queryIndexEntries(filter);
-      
-      if (shuffle) {
-        entries = shuffleArray(entries);
-      }
-      if (offset !== undefined) {
-        entries = entries.slice(offset);
-      }
-      if (limit !== undefined) {
-        entries = entries.slice(0, limit);
-      }
+      const page = queryIndexPage(filter, { sort, shuffle, offset, limit });
       
       return NextResponse.json({
-        count: entries.length,
-        entries,
+        count: page.results.length,
+        total: page.total,
+        nextCursor: page.nextCursor,
+        entries: page.results,
       });
     }
     
     // Return full character data
-    const characters = queryCharacters(filter, { limit, offset, shuffle });
+    const page = queryCharacterPage(filter, {
+      sort,
+      shuffle,
+      offset,
+      limit,
+      withStrokes: !fields || fields.includes("strokeVectors"),
+    });
     
     return NextResponse.json({
-      count: characters.length,
-      characters,
+      count: page.results.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      characters: fields ? page.results.map(c => pickCharacterFields(c, fields)) : page.results,
     });
   } catch (error) {
     console.error("Error in /api/characters:", error);
@@ -153,7 +379,7 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Handle meta queries (summary, radicals, strokeCounts, words)
+ * Handle meta queries (summary, radicals, strokeCounts, words, decomposition, cacheStats)
  */
 function handleMetaQuery(meta: string, searchParams: URLSearchParams): NextResponse {
   switch (meta) {
@@ -205,17 +431,23 @@ function handleMetaQuery(meta: string, searchParams: URLSearchParams): NextRespo
       const words = getWordsByStage(stageParam as WordStage);
       
       // Support pagination for words
-      const limitParam = searchParams.get("limit");
-      const offsetParam = searchParams.get("offset");
+      const limit = parseIntegerParam(searchParams.get("limit"), 1);
+      const offset = parseIntegerParam(searchParams.get("offset"), 0);
+      if (limit === null || offset === null) {
+        return NextResponse.json(
+          { error: "limit must be a positive integer and offset a non-negative integer" },
+          { status: 400 }
+        );
+      }
       const shuffle = searchParams.get("shuffle") === "true";
       
       let result = shuffle ? shuffleArray(words) : words;
       
-      if (offsetParam) {
-        result = result.slice(parseInt(offsetParam, 10));
+      if (offset !== undefined) {
+        result = result.slice(offset);
       }
-      if (limitParam) {
-        result = result.slice(0, parseInt(limitParam, 10));
+      if (limit !== undefined) {
+        result = result.slice(0, limit);
       }
       
       return NextResponse.json({
@@ -226,22 +458,134 @@ function handleMetaQuery(meta: string, searchParams: URLSearchParams): NextRespo
       });
     }
     
+    case "decomposition": {
+      const index = loadDecompositionIndex();
+      if (!index) {
+        return NextResponse.json(
+          { error: "Decomposition index not available" },
+          { status: 500 }
+        );
+      }
+      
+      let entries = index.entries;
+      
+      const charParam = searchParams.get("char");
+      if (charParam) {
+        entries = entries.filter(e => e.character === charParam);
+        if (entries.length === 0) {
+          return NextResponse.json(
+            { error: `No decomposition for "${charParam}"` },
+            { status: 404 }
+          );
+        }
+      }
+      
+      const structureParam = searchParams.get("structure");
+      if (structureParam) {
+        entries = entries.filter(e => e.structureType === structureParam);
+      }
+      
+      return NextResponse.json({ count: entries.length, entries });
+    }
+    
+    case "homophones": {
+      const charParam = searchParams.get("char");
+      if (!charParam) {
+        return NextResponse.json(
+          { error: "char parameter required for homophones query" },
+          { status: 400 }
+        );
+      }
+      
+      const modeParam = searchParams.get("jyutpingMode") || "exact";
+      if (modeParam !== "exact" && modeParam !== "toneless") {
+        return NextResponse.json(
+          { error: "Invalid jyutpingMode for homophones. Must be 'exact' or 'toneless'." },
+          { status: 400 }
+        );
+      }
+      
+      const readings = getHomophones(charParam, { tones: modeParam === "toneless" });
+      if (!readings) {
+        return NextResponse.json(
+          { error: `Character "${charParam}" not found` },
+          { status: 404 }
+        );
+      }
+      
+      return NextResponse.json({ character: charParam, jyutpingMode: modeParam, readings });
+    }
+    
+    case "similar": {
+      const charParam = searchParams.get("char");
+      if (!charParam) {
+        return NextResponse.json(
+          { error: "char parameter required for similar query" },
+          { status: 400 }
+        );
+      }
+      
+      const similar = getSimilarCharacters(charParam);
+      if (!similar) {
+        return NextResponse.json(
+          { error: `Character "${charParam}" not found` },
+          { status: 404 }
+        );
+      }
+      
+      return NextResponse.json({ character: charParam, similar });
+    }
+    
+    case "phonetic": {
+      const index = loadPhoneticIndex();
+      if (!index) {
+        return NextResponse.json(
+          { error: "Phonetic series index not available" },
+          { status: 500 }
+        );
+      }
+      
+      const charParam = searchParams.get("char");
+      if (!charParam) {
+        return NextResponse.json({ groups: index.groups, count: index.groups.length });
+      }
+      
+      const groups = getPhoneticSeriesByChar(charParam);
+      return NextResponse.json({ character: charParam, groups, count: groups.length });
+    }
+    
+    case "radicalInfo": {
+      const radicalParam = searchParams.get("radical");
+      if (!radicalParam) {
+        const radicals = getRadicalSummaries();
+        return NextResponse.json({ radicals, count: radicals.length });
+      }
+      
+      const result = getRadicalCharacters(radicalParam);
+      if (!result) {
+        return NextResponse.json(
+          { error: `Radical "${radicalParam}" not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(result);
+    }
+    
+    case "cacheStats": {
+      // Server internals: only exposed in production when CACHE_STATS=true
+      if (process.env.NODE_ENV === "production" && process.env.CACHE_STATS !== "true") {
+        return NextResponse.json(
+          { error: "Cache statistics are disabled" },
+          { status: 403 }
+        );
+      }
+      return NextResponse.json(getCharacterCacheStats());
+    }
+    
     default:
       return NextResponse.json(
-        { error: `Unknown meta query: ${meta}. Use 'summary', 'radicals', 'strokeCounts', 'lexicalListsHK', or 'words'.` },
+        { error: `Unknown meta query: ${meta}. Use 'summary', 'radicals', 'strokeCounts', 'lexicalListsHK', 'words', 'decomposition', 'homophones', 'similar', 'phonetic', 'radicalInfo', or 'cacheStats'.` },
         { status: 400 }
       );
   }
 }
-
-/**
- * Fisher-Yates shuffle
- */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findIndexEntry, loadCharacterMetadataById, loadStrokeVectorsById } from "@/lib/data/indexLoader";
+import { toSvgPath } from "@/lib/strokes";
+
+/**
+ * GET /api/characters/strokes
+ *
+ * Returns the stroke vectors of a single character, so clients can list
+ * characters without stroke data and fetch strokes only when animating.
+ * Each vector also carries its decoded SVG path (svgPath), so clients need
+ * no EaselJS runtime. strokeTypes gives the stroke type of each stroke;
+ * strokeComponents and radicalComponent map strokes to the components of
+ * the decomposition (when the character has one).
+ *
+ * Query parameters:
+ * - char: Character to look up (required)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const charParam = request.nextUrl.searchParams.get("char");
+    if (!charParam) {
+      return NextResponse.json(
+        { error: "char parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const entry = findIndexEntry(charParam);
+    const strokeVectors = entry ? loadStrokeVectorsById(entry.id) : null;
+    if (!entry || !strokeVectors) {
+      return NextResponse.json(
+        { error: `Character "${charParam}" not found` },
+        { status: 404 }
+      );
+    }
+
+    const metadata = loadCharacterMetadataById(entry.id);
+    return NextResponse.json({
+      id: entry.id,
+      character: entry.character,
+      strokeCount: entry.strokeCount,
+      strokeTypes: metadata?.strokeTypes || [],
+      strokeComponents: metadata?.decomposition?.strokeComponents || [],
+      radicalComponent: metadata?.decomposition?.radicalComponent,
+      strokeVectors: strokeVectors.map(sv => ({
+        ...sv,
+        svgPath: toSvgPath(sv.pathData, sv.transform),
+      })),
+    });
+  } catch (error) {
+    console.error("Error in /api/characters/strokes:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
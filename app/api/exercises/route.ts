@@ -1,24 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAllCharactersWithData } from "@/lib/data/loader";
-import type { LearningStage } from "@/types/character";
+import {
+  queryIndexEntries,
+  getWordsByStage,
+  loadDecompositionIndex,
+  shuffleArray,
+  type CharacterFilter,
+} from "@/lib/data/indexLoader";
+import type { IndexEntry, WordStage } from "@/types/fullCharacter";
+import { STRUCTURE_TYPES, isStructureType } from "@/lib/decomposition/structure";
+import { GRADE_TO_STAGE } from "@/lib/data/stage";
+import { parseIntegerParam } from "@/lib/data/params";
 
 /**
  * Exercise types
  */
-type ExerciseType = "dictation" | "decomposition";
+type ExerciseType = "dictation" | "decomposition" | "strokeOrder";
+
+const EXERCISE_TYPES: ExerciseType[] = ["dictation", "decomposition", "strokeOrder"];
 
 /**
- * Dictation exercise task
+ * Dictation exercise task (one per stage word)
  */
 interface DictationTask {
   type: "dictation";
   id: string;
+  /** The word to write */
+  word: string;
+  /** Character the word is listed under */
   character: string;
+  characterId: string;
   jyutping: string;
-  audioUrl?: string;
-  imageUrl?: string;
+  /** Learning stage the word belongs to */
+  stage: WordStage;
   correctAnswer: string;
-  category: "audio" | "image";
+  category: "audio";
 }
 
 /**
@@ -33,76 +48,212 @@ interface DecompositionTask {
   correctAnswer: string[];
 }
 
-type ExerciseTask = DictationTask | DecompositionTask;
+/**
+ * Stroke-order exercise task: which stroke comes after the first
+ * drawnStrokes strokes? Candidates are stroke numbers of not-yet-drawn
+ * strokes; clients render them from /api/characters/strokes.
+ */
+interface StrokeOrderTask {
+  type: "strokeOrder";
+  id: string;
+  character: string;
+  characterId: string;
+  /** Number of strokes in the stroke data, which can differ from the dictionary stroke count */
+  strokeCount: number;
+  /** Number of strokes already drawn */
+  drawnStrokes: number;
+  /** Candidate stroke numbers in display order */
+  candidates: number[];
+  correctAnswer: number;
+}
+
+type ExerciseTask = DictationTask | DecompositionTask | StrokeOrderTask;
+
+/** Maximum number of candidate strokes per stroke-order task */
+const STROKE_ORDER_CANDIDATES = 4;
+
+/** Minimum candidates for a stroke-order task (the answer and two distractors) */
+const MIN_STROKE_ORDER_CANDIDATES = 3;
+
+/** Distractors are picked from this many strokes after the correct one */
+const STROKE_ORDER_DISTRACTOR_WINDOW = 6;
 
 /**
  * GET /api/exercises
- * 
+ *
+ * Builds exercise sets from the index data. Characters are selected with the
+ * same filters as /api/characters; dictation tasks are built from the
+ * stage 1 / stage 2 words of the selected characters.
+ *
  * Query parameters:
- * - type: Exercise type ("dictation" or "decomposition")
- * - grade: Learning stage (KS1 or KS2) - optional, defaults to all stages
+ * - type: Exercise type ("dictation", "decomposition" or "strokeOrder") - required
+ * - stage: Learning stage ("1" or "2") - optional, defaults to both stages. Dictation uses
+ *   the words of this stage; other exercises use the characters it first introduces
+ * - grade: Legacy alias for stage ("KS1" or "KS2")
+ * - minStrokes: Minimum stroke count (inclusive)
+ * - maxStrokes: Maximum stroke count (inclusive)
+ * - radical: Filter by radical character
+ * - structure: Filter by structure type (獨體, 左右, 上下, 包圍, 半包圍 or 品字)
+ * - inLexicalListsHK: Filter by lexical list inclusion ("true" or "false")
+ * - minDifficulty, maxDifficulty: Difficulty score range (0-100, inclusive)
+ * - shuffle: Randomize order ("true")
  * - limit: Maximum number of exercises to return (optional)
  */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const typeParam = searchParams.get("type");
-    const gradeParam = searchParams.get("grade");
-    const limitParam = searchParams.get("limit");
 
     // Validate type parameter
     if (!typeParam) {
       return NextResponse.json(
-        { error: "Type parameter is required. Use 'dictation' or 'decomposition'." },
+        { error: `Type parameter is required. Use one of: ${EXERCISE_TYPES.join(", ")}` },
         { status: 400 }
       );
     }
 
-    const exerciseType = typeParam.toLowerCase() as ExerciseType;
-    if (exerciseType !== "dictation" && exerciseType !== "decomposition") {
+    const exerciseType = EXERCISE_TYPES.find(type => type.toLowerCase() === typeParam.toLowerCase());
+    if (!exerciseType) {
       return NextResponse.json(
-        { error: `Invalid type. Must be 'dictation' or 'decomposition'.` },
+        { error: `Invalid type. Must be one of: ${EXERCISE_TYPES.join(", ")}` },
         { status: 400 }
       );
     }
 
-    // Validate grade parameter (learning stage)
-    let grade: LearningStage | undefined;
-    if (gradeParam) {
-      const gradeUpper = gradeParam.toUpperCase() as LearningStage;
-      if (gradeUpper !== "KS1" && gradeUpper !== "KS2") {
+    // Validate stage parameter (falls back to legacy grade parameter)
+    let stage: WordStage | undefined;
+    const stageParam = searchParams.get("stage");
+    const gradeParam = searchParams.get("grade");
+    if (stageParam) {
+      if (stageParam !== "1" && stageParam !== "2") {
+        return NextResponse.json(
+          { error: "Invalid stage. Must be '1' or '2'." },
+          { status: 400 }
+        );
+      }
+      stage = stageParam;
+    } else if (gradeParam) {
+      stage = GRADE_TO_STAGE[gradeParam.toUpperCase()];
+      if (!stage) {
         return NextResponse.json(
           { error: `Invalid grade. Must be one of: KS1, KS2` },
           { status: 400 }
         );
       }
-      grade = gradeUpper;
     }
 
-    // Get character data
-    const characters = getAllCharactersWithData(grade);
+    // Build character filter from query params
+    const filter: CharacterFilter = {};
+
+    // Dictation picks words by stage; other exercises pick characters by stage
+    if (stage && exerciseType !== "dictation") {
+      filter.stage = stage;
+    }
+
+    const minStrokes = parseIntegerParam(searchParams.get("minStrokes"), 1);
+    if (minStrokes === null) {
+      return NextResponse.json(
+        { error: "minStrokes must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (minStrokes !== undefined) {
+      filter.minStrokes = minStrokes;
+    }
+
+    const maxStrokes = parseIntegerParam(searchParams.get("maxStrokes"), 1);
+    if (maxStrokes === null) {
+      return NextResponse.json(
+        { error: "maxStrokes must be a positive integer" },
+        { status: 400 }
+      );
+    }
+    if (maxStrokes !== undefined) {
+      filter.maxStrokes = maxStrokes;
+    }
+
+    const radicalParam = searchParams.get("radical");
+    if (radicalParam) {
+      filter.radical = radicalParam;
+    }
+
+    const structureParam = searchParams.get("structure");
+    if (structureParam) {
+      if (!isStructureType(structureParam)) {
+        return NextResponse.json(
+          { error: `Invalid structure. Must be one of: ${STRUCTURE_TYPES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      filter.structure = structureParam;
+    }
+
+    const minDifficultyParam = searchParams.get("minDifficulty");
+    if (minDifficultyParam) {
+      const minDifficulty = Number(minDifficultyParam);
+      if (isNaN(minDifficulty) || minDifficulty < 0 || minDifficulty > 100) {
+        return NextResponse.json(
+          { error: "minDifficulty must be a number between 0 and 100" },
+          { status: 400 }
+        );
+      }
+      filter.minDifficulty = minDifficulty;
+    }
+
+    const maxDifficultyParam = searchParams.get("maxDifficulty");
+    if (maxDifficultyParam) {
+      const maxDifficulty = Number(maxDifficultyParam);
+      if (isNaN(maxDifficulty) || maxDifficulty < 0 || maxDifficulty > 100) {
+        return NextResponse.json(
+          { error: "maxDifficulty must be a number between 0 and 100" },
+          { status: 400 }
+        );
+      }
+      filter.maxDifficulty = maxDifficulty;
+    }
+
+    const lexicalParam = searchParams.get("inLexicalListsHK");
+    if (lexicalParam === "true") {
+      filter.inLexicalListsHK = true;
+    } else if (lexicalParam === "false") {
+      filter.inLexicalListsHK = false;
+    }
 
     // Parse limit
-    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
-    if (limitParam && (isNaN(limit!) || limit! < 1)) {
+    const limit = parseIntegerParam(searchParams.get("limit"), 1);
+    if (limit === null) {
       return NextResponse.json(
         { error: "Limit must be a positive integer." },
         { status: 400 }
       );
     }
 
+    const shuffle = searchParams.get("shuffle") === "true";
+
+    // Select characters via the index
+    const entries = queryIndexEntries(filter);
+
     // Generate exercises based on type
     let exercises: ExerciseTask[] = [];
 
     if (exerciseType === "dictation") {
-      exercises = generateDictationExercises(characters, limit);
+      exercises = generateDictationExercises(entries, stage);
     } else if (exerciseType === "decomposition") {
-      exercises = generateDecompositionExercises(characters, limit);
+      exercises = generateDecompositionExercises(entries);
+    } else if (exerciseType === "strokeOrder") {
+      exercises = generateStrokeOrderExercises(entries);
+    }
+
+    if (shuffle) {
+      exercises = shuffleArray(exercises);
+    }
+    if (limit !== undefined) {
+      exercises = exercises.slice(0, limit);
     }
 
     return NextResponse.json({
       type: exerciseType,
-      grade: grade || "all",
+      stage: stage || "all",
       count: exercises.length,
       exercises,
     });
@@ -116,86 +267,109 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Generate dictation exercises from characters
+ * Generate dictation exercises from the stage words of the given characters
  */
 function generateDictationExercises(
-  characters: Array<{
-    character: { character: string; jyutping: string };
-    examples: Array<{ audioRef?: string; imageRef?: string }>;
-  }>,
-  limit?: number
+  entries: IndexEntry[],
+  stage?: WordStage
 ): DictationTask[] {
+  const characterIds = new Set(entries.map(e => e.id));
+  const stages: WordStage[] = stage ? [stage] : ["1", "2"];
   const tasks: DictationTask[] = [];
 
-  for (const item of characters) {
-    const { character, examples } = item;
+  for (const wordStage of stages) {
+    for (const word of getWordsByStage(wordStage)) {
+      if (!characterIds.has(word.characterId)) {
+        continue;
+      }
 
-    // Create audio dictation task
-    if (character.jyutping) {
       tasks.push({
         type: "dictation",
-        id: `dictation-audio-${character.character}-${tasks.length}`,
-        character: character.character,
-        jyutping: character.jyutping,
-        audioUrl: examples[0]?.audioRef, // Use first example's audio if available
-        correctAnswer: character.character,
+        id: `dictation-${wordStage}-${word.characterId}-${word.word}`,
+        word: word.word,
+        character: word.character,
+        characterId: word.characterId,
+        jyutping: word.jyutping,
+        stage: wordStage,
+        correctAnswer: word.word,
         category: "audio",
       });
     }
-
-    // Create image dictation task if image available
-    const exampleWithImage = examples.find((e) => e.imageRef);
-    if (exampleWithImage?.imageRef) {
-      tasks.push({
-        type: "dictation",
-        id: `dictation-image-${character.character}-${tasks.length}`,
-        character: character.character,
-        jyutping: character.jyutping,
-        imageUrl: exampleWithImage.imageRef,
-        audioUrl: exampleWithImage.audioRef,
-        correctAnswer: character.character,
-        category: "image",
-      });
-    }
-
-    if (limit && tasks.length >= limit) {
-      break;
-    }
   }
 
-  return limit ? tasks.slice(0, limit) : tasks;
+  return tasks;
 }
 
 /**
- * Generate decomposition exercises from characters
+ * Generate decomposition exercises from the given characters
+ * (only characters with more than one component make a puzzle)
  */
-function generateDecompositionExercises(
-  characters: Array<{
-    character: { character: string };
-    decomposition?: { components: string[]; structureType: string };
-  }>,
-  limit?: number
-): DecompositionTask[] {
+function generateDecompositionExercises(entries: IndexEntry[]): DecompositionTask[] {
+  const decompositionIndex = loadDecompositionIndex();
+  if (!decompositionIndex) return [];
+
+  const characterIds = new Set(entries.map(e => e.id));
   const tasks: DecompositionTask[] = [];
 
-  for (const item of characters) {
-    if (!item.decomposition || item.decomposition.components.length === 0) {
+  for (const item of decompositionIndex.entries) {
+    if (!characterIds.has(item.id) || item.components.length < 2) {
       continue;
     }
 
     tasks.push({
       type: "decomposition",
-      id: `decomposition-${item.character.character}-${tasks.length}`,
-      character: item.character.character,
-      components: item.decomposition.components,
-      structureType: item.decomposition.structureType,
-      correctAnswer: item.decomposition.components,
+      id: `decomposition-${item.id}-${item.character}`,
+      character: item.character,
+      components: item.components,
+      structureType: item.structureType,
+      correctAnswer: item.components,
     });
+  }
+
+  return tasks;
+}
 
-    if (limit && tasks.length >= limit) {
-      break;
+/**
+ * Generate stroke-order exercises ("which stroke comes next?"), one per
+ * character with enough strokes for at least three candidates.
+ * The position in the stroke order is picked at random; distractors are
+ * strokes shortly after the correct one, since already drawn strokes are
+ * visible and strokes written soon after are the likeliest confusion.
+ *
+ * Strokes are counted from the stroke sequence, which is classified from the
+ * decoded stroke groups the quiz draws: the dictionary stroke count differs
+ * for some characters (個 10 vs 11 groups).
+ */
+function generateStrokeOrderExercises(entries: IndexEntry[]): StrokeOrderTask[] {
+  const tasks: StrokeOrderTask[] = [];
+
+  for (const entry of entries) {
+    const strokeCount = entry.strokeSequence.length;
+    const maxDrawn = strokeCount - MIN_STROKE_ORDER_CANDIDATES;
+    if (maxDrawn < 0) {
+      continue;
     }
+
+    const drawnStrokes = Math.floor(Math.random() * (maxDrawn + 1));
+    const correctAnswer = drawnStrokes + 1;
+    const laterStrokes: number[] = [];
+    const lastCandidate = Math.min(strokeCount, correctAnswer + STROKE_ORDER_DISTRACTOR_WINDOW);
+    for (let n = correctAnswer + 1; n <= lastCandidate; n++) {
+      laterStrokes.push(n);
+    }
+    const distractors = shuffleArray(laterStrokes).slice(0, STROKE_ORDER_CANDIDATES - 1);
+
+    tasks.push({
+      type: "strokeOrder",
+      id: `strokeOrder-${entry.id}-${correctAnswer}`,
+      character: entry.character,
+      characterId: entry.id,
+      strokeCount,
+      drawnStrokes,
+      candidates: shuffleArray([correctAnswer, ...distractors]),
+      correctAnswer,
+    });
   }
 
-  return limit ? tasks.slice(0, limit) : tasks;
+  return tasks;
 }
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { findIndexEntry, loadStrokeVectorsById } from "@/lib/data/indexLoader";
+import { parseIntegerParam } from "@/lib/data/params";
+import { ANIMATION_SPEEDS, GRID_STYLES, renderAnimatedSvg, renderCharacterSvg, type GridStyle } from "@/lib/strokes";
+import type { Theme } from "@/lib/theme";
+
+const DEFAULT_SIZE = 512;
+const MAX_SIZE = 2048;
+
+/**
+ * Rasterize an SVG document with the built-in OG image renderer
+ *
+ * The document is drawn whole as a background image, so strokes, highlight
+ * and grid come out as in the SVG format.
+ */
+function renderPng(svg: string, size: number, headers: Record<string, string>): ImageResponse {
+  const dataUri = `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+  return new ImageResponse(
+    <div
+      style={{
+        display: "flex",
+        width: size,
+        height: size,
+        backgroundImage: `url(${dataUri})`,
+        backgroundSize: `${size}px ${size}px`,
+      }}
+    />,
+    { width: size, height: size, headers }
+  );
+}
+
+/**
+ * GET /api/render
+ *
+ * Renders a character from its stroke vectors as an SVG or PNG image,
+ * using the StrokeAnimation colors, or its stroke animation as an
+ * animated SVG.
+ *
+ * Query parameters:
+ * - char: Character to render (required)
+ * - format: "svg" (default) or "png"
+ * - grid: "tian" (田字格, default), "mi" (米字格), "jiu" (九宮格) or "none"
+ * - upToStroke: Only draw strokes 1..N (partial stroke sequence)
+ * - highlight: Stroke number to draw in the highlight color
+ * - numbers: "true" to number each stroke at its start point (svg only)
+ * - animate: "true" for an animated SVG of the stroke order (svg only)
+ * - speed: Animation speed, one of 0.5, 1 (default), 1.5, 2
+ * - loop: "false" to play the animation once instead of repeating
+ * - theme: "light" (default) or "dark"
+ * - size: Image width/height in pixels (default 512, max 2048)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const charParam = searchParams.get("char");
+    if (!charParam) {
+      return NextResponse.json(
+        { error: "char parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const format = searchParams.get("format") || "svg";
+    if (format !== "svg" && format !== "png") {
+      return NextResponse.json(
+        { error: "Invalid format. Must be 'svg' or 'png'." },
+        { status: 400 }
+      );
+    }
+
+    const grid = (searchParams.get("grid") || "tian") as GridStyle;
+    if (!GRID_STYLES.includes(grid)) {
+      return NextResponse.json(
+        { error: `Invalid grid. Must be one of: ${GRID_STYLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const theme = (searchParams.get("theme") || "light") as Theme;
+    if (theme !== "light" && theme !== "dark") {
+      return NextResponse.json(
+        { error: "Invalid theme. Must be 'light' or 'dark'." },
+        { status: 400 }
+      );
+    }
+
+    // The PNG renderer has no fonts for stroke numbers and no animation
+    const animate = searchParams.get("animate") === "true";
+    const strokeNumbers = searchParams.get("numbers") === "true";
+    if ((animate || strokeNumbers) && format !== "svg") {
+      return NextResponse.json(
+        { error: "animate and numbers are only supported for format 'svg'" },
+        { status: 400 }
+      );
+    }
+
+    const speed = searchParams.has("speed") ? Number(searchParams.get("speed")) : 1;
+    if (!ANIMATION_SPEEDS.includes(speed)) {
+      return NextResponse.json(
+        { error: `Invalid speed. Must be one of: ${ANIMATION_SPEEDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const loop = searchParams.get("loop") !== "false";
+
+    const upToStroke = parseIntegerParam(searchParams.get("upToStroke"), 1);
+    const highlight = parseIntegerParam(searchParams.get("highlight"), 1);
+    const size = parseIntegerParam(searchParams.get("size"), 1);
+    if (upToStroke === null || highlight === null) {
+      return NextResponse.json(
+        { error: "upToStroke and highlight must be positive integers" },
+        { status: 400 }
+      );
+    }
+    if (size === null || (size !== undefined && size > MAX_SIZE)) {
+      return NextResponse.json(
+        { error: `size must be an integer between 1 and ${MAX_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const entry = findIndexEntry(charParam);
+    const strokeVectors = entry ? loadStrokeVectorsById(entry.id) : null;
+    if (!entry || !strokeVectors) {
+      return NextResponse.json(
+        { error: `Character "${charParam}" not found` },
+        { status: 404 }
+      );
+    }
+    if (strokeVectors.length === 0) {
+      return NextResponse.json(
+        { error: `No stroke data for "${charParam}"` },
+        { status: 404 }
+      );
+    }
+
+    const pixels = size ?? DEFAULT_SIZE;
+    const svg = animate
+      ? renderAnimatedSvg(strokeVectors, { grid, strokeNumbers, speed, loop, theme, size: pixels })
+      : renderCharacterSvg(strokeVectors, { grid, upToStroke, highlight, strokeNumbers, theme, size: pixels });
+    const headers = { "Cache-Control": "public, max-age=86400" };
+
+    if (format === "svg") {
+      return new NextResponse(svg, {
+        headers: { ...headers, "Content-Type": "image/svg+xml; charset=utf-8" },
+      });
+    }
+
+    return renderPng(svg, pixels, headers);
+  } catch (error) {
+    console.error("Error in /api/render:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
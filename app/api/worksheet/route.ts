@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCharacterByChar } from "@/lib/data/indexLoader";
+import { parseIntegerParam } from "@/lib/data/params";
+import { buildWorksheetEntry, renderWorksheetHtml } from "@/lib/worksheet/worksheet";
+import type { FullCharacterData } from "@/types/fullCharacter";
+
+const MAX_CHARACTERS = 30;
+const MAX_TRACE_COPIES = 10;
+const MAX_EMPTY_ROWS = 5;
+
+/**
+ * GET /api/worksheet
+ *
+ * Returns a print-ready A4 HTML practice worksheet (習字紙). There is no PDF
+ * output: use the browser's print dialog to print it or save it as PDF.
+ *
+ * Query parameters:
+ * - chars: Characters to practise, e.g. "明日月" (required, max 30; 404 listing
+ *   the characters that are not found)
+ * - grid: "tian" (田字格, default) or "mi" (米字格)
+ * - traceCopies: Number of grey tracing copies per character (0-10, default 3)
+ * - emptyRows: Number of empty practice rows per character (0-5, default 1)
+ * - lang: Heading language ("zh-HK" or "en", default "zh-HK")
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // Unique characters, ignoring spaces and punctuation
+    const chars = Array.from(new Set(
+      Array.from(searchParams.get("chars") || "").filter(ch => /\p{Script=Han}/u.test(ch))
+    ));
+    if (chars.length === 0) {
+      return NextResponse.json(
+        { error: "chars parameter is required" },
+        { status: 400 }
+      );
+    }
+    if (chars.length > MAX_CHARACTERS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_CHARACTERS} characters per worksheet` },
+        { status: 400 }
+      );
+    }
+
+    const grid = searchParams.get("grid") || "tian";
+    if (grid !== "tian" && grid !== "mi") {
+      return NextResponse.json(
+        { error: "Invalid grid. Must be 'tian' or 'mi'." },
+        { status: 400 }
+      );
+    }
+
+    const traceCopies = parseIntegerParam(searchParams.get("traceCopies"), 0);
+    if (traceCopies === null || (traceCopies !== undefined && traceCopies > MAX_TRACE_COPIES)) {
+      return NextResponse.json(
+        { error: `traceCopies must be an integer between 0 and ${MAX_TRACE_COPIES}` },
+        { status: 400 }
+      );
+    }
+
+    const emptyRows = parseIntegerParam(searchParams.get("emptyRows"), 0);
+    if (emptyRows === null || (emptyRows !== undefined && emptyRows > MAX_EMPTY_ROWS)) {
+      return NextResponse.json(
+        { error: `emptyRows must be an integer between 0 and ${MAX_EMPTY_ROWS}` },
+        { status: 400 }
+      );
+    }
+
+    const language = searchParams.get("lang") === "en" ? "en" : "zh-HK";
+
+    const loaded = chars.map(ch => loadCharacterByChar(ch));
+    const notFound = chars.filter((_, i) => loaded[i] === null);
+    if (notFound.length > 0) {
+      return NextResponse.json(
+        { error: `Characters not found: ${notFound.join("")}`, notFound },
+        { status: 404 }
+      );
+    }
+
+    const characters = loaded.filter((data): data is FullCharacterData => data !== null);
+    const options = { grid, traceCopies, emptyRows, language } as const;
+    const html = renderWorksheetHtml(
+      characters.map(data => buildWorksheetEntry(data, options)),
+      options
+    );
+
+    return new NextResponse(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Error in /api/worksheet:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,28 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import type { FullCharacterData, IndexEntry } from "@/types/fullCharacter";
 import { useLanguage } from "@/lib/i18n/context";
+import type { TranslationKey } from "@/lib/i18n/translations";
+import {
+  JYUTPING_MATCH_MODES,
+  matchesJyutping,
+  type JyutpingMatchMode,
+} from "@/lib/jyutping";
+import { STROKE_CLASSES, STROKE_CLASS_NAMES, parseStrokeSequence } from "@/lib/strokes";
+import { compareByCommonness } from "@/lib/data/ranking";
 import StrokeAnimation from "./StrokeAnimation";
 import RelatedWords from "./RelatedWords";
+import Homophones from "./Homophones";
+import SimilarCharacters from "./SimilarCharacters";
+
+/**
+ * Label for each jyutping search mode
+ */
+const JYUTPING_MODE_LABELS: Record<JyutpingMatchMode, TranslationKey> = {
+  exact: "jyutpingModeExact",
+  toneless: "jyutpingModeToneless",
+  initial: "jyutpingModeInitial",
+  final: "jyutpingModeFinal",
+};
 
 interface CharacterExplorationProps {
   /** Initial character to display */
@@ -18,7 +38,9 @@ interface CharacterExplorationProps {
  * 
  * Full-featured character exploration with:
  * - Character display using stroke rendering (clickable for animation)
- * - Character info (radical, stroke count, jyutping, pinyin)
+ * - Character info (radical, stroke count, jyutping incl. all readings of 多音字, pinyin)
+ * - Components, with the radical marked; tapping one highlights its strokes
+ * - Homophones (同音字) and look-alike characters (易混淆字), linking to each character
  * - Related words and phrases
  * - Character navigation with search/filter
  */
@@ -35,15 +57,18 @@ export default function CharacterExploration({
   // UI state
   const [showCharList, setShowCharList] = useState(false);
   const [showStrokeAnimation, setShowStrokeAnimation] = useState(false);
+  const [highlightComponent, setHighlightComponent] = useState<number | undefined>(undefined);
   const [showFilters, setShowFilters] = useState(true);
   
   // Filter state
   const [filterRadical, setFilterRadical] = useState("");
   const [filterStrokeCount, setFilterStrokeCount] = useState<number | "">("");
   const [filterJyutping, setFilterJyutping] = useState("");
+  const [filterJyutpingMode, setFilterJyutpingMode] = useState<JyutpingMatchMode>("exact");
+  const [filterStrokeSeq, setFilterStrokeSeq] = useState("");
 
   // Translations
-  const { t } = useLanguage();
+  const { t, romanize } = useLanguage();
 
   // Load character list (index entries for navigation)
   const loadCharacterList = useCallback(async () => {
@@ -83,6 +108,7 @@ export default function CharacterExploration({
       const result = await response.json();
       setData(result.character);
       setShowStrokeAnimation(false); // Reset animation state when character changes
+      setHighlightComponent(undefined);
     } catch (err) {
       setError(err instanceof Error ? err.message : t("loadFailed"));
       setData(null);
@@ -143,9 +169,12 @@ export default function CharacterExploration({
     return Array.from(counts).sort((a, b) => a - b);
   }, [characterList]);
 
+  // Normalized stroke sequence (null when the input is not a valid sequence)
+  const strokeSequence = filterStrokeSeq ? parseStrokeSequence(filterStrokeSeq) : "";
+
   // Filter character list based on search criteria
   const filteredCharacterList = useMemo(() => {
-    return characterList.filter(entry => {
+    const filtered = characterList.filter(entry => {
       // Filter by radical
       if (filterRadical && entry.radical !== filterRadical) {
         return false;
@@ -154,22 +183,35 @@ export default function CharacterExploration({
       if (filterStrokeCount !== "" && entry.strokeCount !== filterStrokeCount) {
         return false;
       }
-      // Filter by jyutping (partial match)
-      if (filterJyutping && !entry.jyutping?.toLowerCase().includes(filterJyutping.toLowerCase())) {
+      // Filter by jyutping (syllable match against any reading)
+      if (filterJyutping) {
+        const readings = entry.readings?.length ? entry.readings : [entry.jyutping];
+        if (!matchesJyutping(readings, filterJyutping, filterJyutpingMode)) {
+          return false;
+        }
+      }
+      // Filter by stroke sequence prefix (筆順輸入)
+      if (strokeSequence === null) {
+        return false;
+      }
+      if (strokeSequence && !entry.strokeSequence?.startsWith(strokeSequence)) {
         return false;
       }
       return true;
     });
-  }, [characterList, filterRadical, filterStrokeCount, filterJyutping]);
+    // Stroke sequence results: most common characters first
+    return strokeSequence ? filtered.sort(compareByCommonness) : filtered;
+  }, [characterList, filterRadical, filterStrokeCount, filterJyutping, filterJyutpingMode, strokeSequence]);
 
   // Check if any filters are active
-  const hasActiveFilters = filterRadical || filterStrokeCount !== "" || filterJyutping;
+  const hasActiveFilters = filterRadical || filterStrokeCount !== "" || filterJyutping || filterStrokeSeq;
 
   // Clear all filters
   const clearFilters = () => {
     setFilterRadical("");
     setFilterStrokeCount("");
     setFilterJyutping("");
+    setFilterStrokeSeq("");
   };
 
   // Loading state
@@ -294,6 +336,53 @@ export default function CharacterExploration({
                              bg-[var(--input-bg)] text-[var(--color-charcoal)] focus:border-[var(--color-coral)] focus:outline-none
                              font-mono leading-normal"
                   />
+                  <select
+                    value={filterJyutpingMode}
+                    onChange={(e) => setFilterJyutpingMode(e.target.value as JyutpingMatchMode)}
+                    aria-label={t("jyutpingMode")}
+                    className="h-8 px-2 text-sm border border-[var(--input-border)] rounded-lg 
+                             bg-[var(--input-bg)] text-[var(--color-charcoal)] focus:border-[var(--color-coral)] focus:outline-none
+                             font-sans leading-normal"
+                  >
+                    {JYUTPING_MATCH_MODES.map(mode => (
+                      <option key={mode} value={mode}>{t(JYUTPING_MODE_LABELS[mode])}</option>
+                    ))}
+                  </select>
+                </div>
+                
+                {/* Stroke sequence filter */}
+                <div className="flex items-center gap-1">
+                  <label className="text-xs text-[var(--color-gray)] whitespace-nowrap">{t("strokeSequence")}</label>
+                  <input
+                    type="text"
+                    value={filterStrokeSeq}
+                    onChange={(e) => setFilterStrokeSeq(e.target.value)}
+                    placeholder="橫豎撇 / h-s-p"
+                    aria-invalid={strokeSequence === null}
+                    className={`w-28 h-8 px-2 text-sm border rounded-lg 
+                             bg-[var(--input-bg)] text-[var(--color-charcoal)] focus:border-[var(--color-coral)] focus:outline-none
+                             font-sans leading-normal ${strokeSequence === null ? "border-[var(--color-coral)]" : "border-[var(--input-border)]"}`}
+                  />
+                  {STROKE_CLASSES.map(strokeClass => (
+                    <button
+                      key={strokeClass}
+                      onClick={() => setFilterStrokeSeq(seq => seq + STROKE_CLASS_NAMES[strokeClass])}
+                      title={strokeClass}
+                      className="w-8 h-8 text-base rounded-lg border border-[var(--input-border)] bg-[var(--input-bg)] 
+                               text-[var(--color-charcoal)] hover:border-[var(--color-coral)] hanzi-display"
+                    >
+                      {STROKE_CLASS_NAMES[strokeClass]}
+                    </button>
+                  ))}
+                  {filterStrokeSeq && (
+                    <button
+                      onClick={() => setFilterStrokeSeq(seq => Array.from(seq).slice(0, -1).join(""))}
+                      aria-label={t("deleteStroke")}
+                      className="w-8 h-8 text-sm rounded-lg text-[var(--color-gray)] hover:text-[var(--color-coral)]"
+                    >
+                      ⌫
+                    </button>
+                  )}
                 </div>
                 
                 {/* Clear filters button */}
@@ -356,6 +445,10 @@ export default function CharacterExploration({
           >
             <StrokeAnimation
               strokeVectors={data.strokeVectors}
+              strokeTypes={data.strokeTypes}
+              strokeComponents={data.decomposition?.strokeComponents}
+              radicalComponent={data.decomposition?.radicalComponent}
+              highlightComponent={highlightComponent}
               character={data.character}
               size={220}
               showAnimation={showStrokeAnimation}
@@ -366,7 +459,25 @@ export default function CharacterExploration({
 
           {/* Character Info */}
           <div className="mt-4 text-center">
-            <div className="jyutping text-[var(--color-sky)] text-2xl">{data.jyutping}</div>
+            <div className="jyutping text-[var(--color-sky)] text-2xl">{romanize(data.jyutping)}</div>
+            {data.readings && data.readings.length > 1 && (
+              <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+                <span className="text-xs text-[var(--color-gray)]">{t("polyphonic")}</span>
+                {data.readings.map(reading => (
+                  <div
+                    key={reading.jyutping}
+                    className="px-3 py-1 rounded-xl bg-[var(--color-sky)]/10 border border-[var(--color-sky)]/30 text-sm"
+                  >
+                    <span className="font-mono text-[var(--color-sky-dark)]">{romanize(reading.jyutping)}</span>
+                    {reading.words.length > 0 && (
+                      <span className="ml-2 hanzi-display text-[var(--color-gray)]">
+                        {reading.words.slice(0, 3).join("、")}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
             {data.pinyin && (
               <button
                 onClick={() => speakMandarin(data.character)}
@@ -397,9 +508,53 @@ export default function CharacterExploration({
               <span className="text-lg">🔊</span> {t("listenPronunciation")}
             </button>
           </div>
+
+          {/* Components - tap one to highlight its strokes */}
+          {data.decomposition?.strokeComponents && data.decomposition.components.length > 1 && (
+            <div className="mt-3 flex flex-col items-center gap-1">
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-xs text-[var(--color-gray)]">{t("components")}</span>
+                {data.decomposition.components.map((component, i) => {
+                  const isSelected = i === highlightComponent;
+                  const isRadical = i === data.decomposition?.radicalComponent;
+                  return (
+                    <button
+                      key={`${component}-${i}`}
+                      onClick={() => setHighlightComponent(isSelected ? undefined : i)}
+                      aria-pressed={isSelected}
+                      title={isRadical ? t("radical") : undefined}
+                      className={`px-3 py-1 rounded-xl border-2 hanzi-display text-xl transition-colors ${
+                        isSelected
+                          ? "border-[var(--color-coral)] bg-[var(--color-coral)]/10 text-[var(--color-coral-dark)]"
+                          : isRadical
+                            ? "border-[var(--color-sky)] bg-[var(--color-sky)]/10 text-[var(--color-sky-dark)]"
+                            : "border-[var(--color-peach)] text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)]"
+                      }`}
+                    >
+                      {component}
+                    </button>
+                  );
+                })}
+              </div>
+              <span className="text-xs text-[var(--color-gray-light)]">{t("tapComponent")}</span>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Homophones */}
+      <Homophones
+        key={data.character}
+        character={data.character}
+        onSelect={char => onCharacterChange?.(char)}
+      />
+
+      {/* Look-alike characters */}
+      <SimilarCharacters
+        character={data.character}
+        onSelect={char => onCharacterChange?.(char)}
+      />
+
       {/* Quick Word Preview */}
       {totalWords > 0 && (
         <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)]">
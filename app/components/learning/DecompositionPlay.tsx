@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { Character, Decomposition } from "@/types/character";
+import type { Decomposition, StructureType } from "@/types/character";
+import type { WordStage } from "@/types/fullCharacter";
 import Button from "@/app/components/ui/Button";
+import StrokeAnimation from "./StrokeAnimation";
 import { useLanguage } from "@/lib/i18n/context";
+import { STRUCTURE_TYPES } from "@/lib/decomposition/structure";
 
 interface DecompositionPlayProps {
   character: string;
-  grade?: "KS1" | "KS2";
+  /** Learning stage whose characters are used (default: both stages) */
+  stage?: WordStage;
   onCharacterChange?: (char: string) => void;
 }
 
@@ -18,16 +22,18 @@ interface PuzzleState {
   correct: boolean | null;
 }
 
-export default function DecompositionPlay({ character, grade, onCharacterChange }: DecompositionPlayProps) {
+export default function DecompositionPlay({ character, stage, onCharacterChange }: DecompositionPlayProps) {
   const { t } = useLanguage();
   const [data, setData] = useState<Decomposition | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [puzzle, setPuzzle] = useState<PuzzleState | null>(null);
   const [showHint, setShowHint] = useState(false);
-  const [allCharacters, setAllCharacters] = useState<Character[]>([]);
+  const [allCharacters, setAllCharacters] = useState<Decomposition[]>([]);
   const [score, setScore] = useState({ correct: 0, total: 0 });
   const [showCharList, setShowCharList] = useState(false);
+  const [structure, setStructure] = useState<StructureType | null>(null);
+  const [highlightComponent, setHighlightComponent] = useState<number | undefined>(undefined);
 
   const loadDecompositionData = useCallback(async () => {
     try {
@@ -35,53 +41,53 @@ export default function DecompositionPlay({ character, grade, onCharacterChange
       setError(null);
 
       const params = new URLSearchParams();
-      if (grade) {
-        params.set("grade", grade);
+      params.set("type", "decomposition");
+      if (stage) {
+        params.set("stage", stage);
+      }
+      if (structure) {
+        params.set("structure", structure);
       }
 
-      const response = await fetch(`/api/characters?${params.toString()}`);
+      const response = await fetch(`/api/exercises?${params.toString()}`);
       if (!response.ok) {
         throw new Error(`${t("loadFailed")}: ${response.statusText}`);
       }
 
       const result = await response.json();
 
-      // Store all characters (only those with multi-component decomposition)
-      const chars = result.characters
-        .filter((item: { decomposition?: Decomposition }) => 
-          item.decomposition && item.decomposition.components.length > 1
-        )
-        .map((item: { character: Character }) => item.character);
-      setAllCharacters(chars);
-
-      const charData = result.characters.find(
-        (item: { character: { character: string }; decomposition?: Decomposition }) =>
-          item.character.character === character
+      // Decomposition tasks only include characters with multiple components
+      const decompositions: Decomposition[] = result.exercises.map(
+        (task: Decomposition) => ({
+          character: task.character,
+          components: task.components,
+          structureType: task.structureType,
+        })
       );
+      setAllCharacters(decompositions);
 
-      if (!charData || !charData.decomposition) {
-        // Find first character with decomposition
-        const firstWithDecomp = result.characters.find(
-          (item: { decomposition?: Decomposition }) => 
-            item.decomposition && item.decomposition.components.length > 1
-        );
+      const charData = decompositions.find(d => d.character === character);
+
+      if (!charData) {
+        // Fall back to the first available puzzle
+        const firstWithDecomp = decompositions[0];
         if (firstWithDecomp) {
-          setData(firstWithDecomp.decomposition);
-          onCharacterChange?.(firstWithDecomp.character.character);
-          initPuzzle(firstWithDecomp.decomposition);
+          setData(firstWithDecomp);
+          onCharacterChange?.(firstWithDecomp.character);
+          initPuzzle(firstWithDecomp);
         } else {
           throw new Error(t("noQuestions"));
         }
       } else {
-        setData(charData.decomposition);
-        initPuzzle(charData.decomposition);
+        setData(charData);
+        initPuzzle(charData);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : t("loadFailed"));
     } finally {
       setLoading(false);
     }
-  }, [character, grade, onCharacterChange, t]);
+  }, [character, stage, structure, onCharacterChange, t]);
 
   useEffect(() => {
     loadDecompositionData();
@@ -96,6 +102,7 @@ export default function DecompositionPlay({ character, grade, onCharacterChange
       correct: null,
     });
     setShowHint(false);
+    setHighlightComponent(undefined);
   }
 
   function moveComponent(component: string, fromArranged: boolean) {
@@ -187,6 +194,25 @@ export default function DecompositionPlay({ character, grade, onCharacterChange
         </div>
       )}
 
+      {/* Structure Filter */}
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        <span className="text-sm font-medium text-[var(--color-gray)]">{t("structure")}:</span>
+        {[null, ...STRUCTURE_TYPES].map(type => (
+          <button
+            key={type ?? "all"}
+            onClick={() => setStructure(type)}
+            aria-pressed={structure === type}
+            className={`px-3 py-1 rounded-full text-sm font-medium border-2 transition-all ${
+              structure === type
+                ? "bg-[var(--color-sky)] text-white border-[var(--color-sky)]"
+                : "bg-[var(--card-bg)] border-[var(--color-peach)] text-[var(--color-charcoal)] hover:border-[var(--color-sky)]"
+            }`}
+          >
+            {type ?? t("all")}
+          </button>
+        ))}
+      </div>
+
       {/* Character Navigation - Show 2 rows by default, expand for all */}
       {allCharacters.length > 1 && (
         <div className="bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_16px_var(--card-shadow)] overflow-hidden">
@@ -342,6 +368,34 @@ export default function DecompositionPlay({ character, grade, onCharacterChange
           )}
         </div>
       )}
+
+      {/* Component strokes - shown once answered, as the components give the answer away */}
+      {puzzle.correct !== null && (
+        <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)] flex flex-col items-center gap-2">
+          <StrokeAnimation key={data.character} character={data.character} size={180} highlightComponent={highlightComponent} />
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <span className="text-xs text-[var(--color-gray)]">{t("components")}</span>
+            {data.components.map((component, i) => {
+              const isSelected = i === highlightComponent;
+              return (
+                <button
+                  key={`${component}-${i}`}
+                  onClick={() => setHighlightComponent(isSelected ? undefined : i)}
+                  aria-pressed={isSelected}
+                  className={`px-3 py-1 rounded-xl border-2 hanzi-display text-xl transition-colors ${
+                    isSelected
+                      ? "border-[var(--color-coral)] bg-[var(--color-coral)]/10 text-[var(--color-coral-dark)]"
+                      : "border-[var(--color-peach)] text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)]"
+                  }`}
+                >
+                  {component}
+                </button>
+              );
+            })}
+          </div>
+          <span className="text-xs text-[var(--color-gray-light)]">{t("tapComponent")}</span>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,22 +1,30 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { Character } from "@/types/character";
+import type { FullCharacterData, WordStage } from "@/types/fullCharacter";
 import Button from "@/app/components/ui/Button";
 import { useLanguage } from "@/lib/i18n/context";
 
 interface DictationExerciseProps {
-  grade?: "KS1" | "KS2";
+  /** Learning stage whose characters are asked (default: both stages) */
+  stage?: WordStage;
 }
 
 interface Question {
   character: string;
   jyutping: string;
-  meanings: string[];
+  /** Stage words using the character, with the character blanked out (hint) */
+  words: string[];
 }
 
-export default function DictationExercise({ grade }: DictationExerciseProps) {
-  const { t } = useLanguage();
+/** Characters asked per round */
+const QUESTION_COUNT = 20;
+
+/** Words shown in the hint */
+const HINT_WORD_COUNT = 3;
+
+export default function DictationExercise({ stage }: DictationExerciseProps) {
+  const { t, romanize } = useLanguage();
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -31,9 +39,13 @@ export default function DictationExercise({ grade }: DictationExerciseProps) {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams();
-      if (grade) {
-        params.set("grade", grade);
+      const params = new URLSearchParams({
+        shuffle: "true",
+        limit: String(QUESTION_COUNT),
+        fields: "character,jyutping,stage1Words,stage2Words",
+      });
+      if (stage) {
+        params.set("stage", stage);
       }
 
       const response = await fetch(`/api/characters?${params.toString()}`);
@@ -43,16 +55,18 @@ export default function DictationExercise({ grade }: DictationExerciseProps) {
 
       const result = await response.json();
       
-      // Shuffle and create questions
-      const shuffled = result.characters
-        .map((item: { character: Character }) => ({
-          character: item.character.character,
-          jyutping: item.character.jyutping,
-          meanings: item.character.meanings,
-        }))
-        .sort(() => Math.random() - 0.5);
+      // Characters come back shuffled
+      const loaded: Question[] = result.characters.map(
+        (data: Pick<FullCharacterData, "character" | "jyutping" | "stage1Words" | "stage2Words">) => ({
+          character: data.character,
+          jyutping: data.jyutping,
+          words: [...(data.stage1Words || []), ...(data.stage2Words || [])]
+            .map(word => word.word.replaceAll(data.character, "○"))
+            .slice(0, HINT_WORD_COUNT),
+        })
+      );
 
-      setQuestions(shuffled);
+      setQuestions(loaded);
       setCurrentIndex(0);
       setScore({ correct: 0, total: 0 });
     } catch (err) {
@@ -60,7 +74,7 @@ export default function DictationExercise({ grade }: DictationExerciseProps) {
     } finally {
       setLoading(false);
     }
-  }, [grade, t]);
+  }, [stage, t]);
 
   useEffect(() => {
     loadQuestions();
@@ -182,9 +196,9 @@ export default function DictationExercise({ grade }: DictationExerciseProps) {
         {showHint && (
           <div className="text-center p-3 bg-[var(--color-sky)]/10 border border-[var(--color-sky)]/30 rounded-xl">
             <span className="text-base text-[var(--color-charcoal)]">
-              <span className="font-mono text-[var(--color-sky-dark)]">{currentQuestion.jyutping}</span>
+              <span className="font-mono text-[var(--color-sky-dark)]">{romanize(currentQuestion.jyutping)}</span>
               <span className="mx-2">•</span>
-              <span className="text-[var(--color-gray)]">{currentQuestion.meanings.join("、")}</span>
+              <span className="text-[var(--color-gray)]">{currentQuestion.words.join("、")}</span>
             </span>
           </div>
         )}
@@ -244,7 +258,7 @@ export default function DictationExercise({ grade }: DictationExerciseProps) {
                   </div>
                   <div className="text-base text-[var(--color-gray)]">
                     <span className="hanzi-display text-xl">{currentQuestion.character}</span>
-                    <span className="ml-2 font-mono text-[var(--color-sky-dark)]">{currentQuestion.jyutping}</span>
+                    <span className="ml-2 font-mono text-[var(--color-sky-dark)]">{romanize(currentQuestion.jyutping)}</span>
                   </div>
                 </div>
               </div>
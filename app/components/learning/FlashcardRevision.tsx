@@ -17,8 +17,23 @@ const STROKE_RANGES = [
   { labelKey: null, label: "16+", min: 16, max: 32 },
 ];
 
+/**
+ * Fields shown on a card (stroke vectors are loaded lazily)
+ */
+const CARD_FIELDS = [
+  "id",
+  "character",
+  "jyutping",
+  "pinyin",
+  "radical",
+  "strokeCount",
+  "stage1Words",
+  "stage2Words",
+  "fourCharacterPhrases",
+];
+
 export default function FlashcardRevision() {
-  const { t, language } = useLanguage();
+  const { t, language, romanize } = useLanguage();
   
   // Filter state
   const [strokeRange, setStrokeRange] = useState(STROKE_RANGES[0]);
@@ -75,6 +90,8 @@ export default function FlashcardRevision() {
       params.set("shuffle", "true");
       params.set("inLexicalListsHK", "true"); // Only HK lexical list chars
       params.set("limit", "100"); // Limit for performance
+      // Stroke data is fetched per card by StrokeAnimation
+      params.set("fields", CARD_FIELDS.join(","));
 
       const response = await fetch(`/api/characters?${params.toString()}`);
       const data = await response.json();
@@ -275,7 +292,7 @@ export default function FlashcardRevision() {
 
   // Word counts for current character
   const hasWords = (current.stage1Words?.length || 0) + (current.stage2Words?.length || 0) > 0;
-  const hasStrokeData = current.strokeVectors && current.strokeVectors.length > 0;
+  const hasStrokeData = current.strokeCount > 0;
 
   return (
     <div className="max-w-3xl mx-auto px-4">
@@ -374,7 +391,7 @@ export default function FlashcardRevision() {
           {/* Jyutping & Pinyin */}
           <div className="text-center mb-4">
             <span className="jyutping text-[var(--color-sky)]">
-              {current.jyutping}
+              {romanize(current.jyutping)}
             </span>
             {current.pinyin && (
               <span className="text-sm text-[var(--color-gray-light)] ml-2">
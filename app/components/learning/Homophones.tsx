@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { IndexEntry, ReadingHomophones } from "@/types/fullCharacter";
+import { useLanguage } from "@/lib/i18n/context";
+
+interface HomophonesProps {
+  /** Character to find homophones of */
+  character: string;
+  /** Called when a homophone is tapped */
+  onSelect?: (char: string) => void;
+}
+
+/** Homophones shown per reading before the rest are collapsed */
+const PREVIEW_COUNT = 16;
+
+/**
+ * Homophones Component
+ *
+ * Shows the 同音字 of each reading of a character, and on request the
+ * characters read the same in other tones. Tapping one opens it.
+ */
+export default function Homophones({ character, onSelect }: HomophonesProps) {
+  const { t, romanize } = useLanguage();
+  const [fetched, setFetched] = useState<{ character: string; readings: ReadingHomophones[] } | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [showTones, setShowTones] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/characters?meta=homophones&char=${encodeURIComponent(character)}&jyutpingMode=toneless`)
+      .then(res => res.ok ? res.json() : { readings: [] })
+      .then(data => {
+        if (!cancelled) setFetched({ character, readings: data.readings || [] });
+      })
+      .catch(err => {
+        console.error("Failed to load homophones:", err);
+        if (!cancelled) setFetched({ character, readings: [] });
+      });
+
+    return () => { cancelled = true; };
+  }, [character]);
+
+  // Results of the previous character are not shown while loading
+  const readings = fetched?.character === character ? fetched.readings : null;
+  if (!readings || readings.length === 0) return null;
+
+  const hasOtherTones = readings.some(reading =>
+    reading.tones?.some(group => group.jyutping !== reading.jyutping && group.entries.length > 0)
+  );
+
+  const renderChips = (entries: IndexEntry[], limit?: number) => (
+    <div className="flex flex-wrap gap-2">
+      {entries.slice(0, limit).map(entry => (
+        <button
+          key={entry.id}
+          onClick={() => onSelect?.(entry.character)}
+          className="px-3 py-1 bg-[var(--color-mint)]/10 border-2 border-[var(--color-mint)] rounded-xl
+                   text-lg hanzi-display text-[var(--color-charcoal)]
+                   hover:border-[var(--color-coral-light)] hover:bg-[var(--color-coral)]/5 transition-colors"
+        >
+          {entry.character}
+        </button>
+      ))}
+      {limit !== undefined && entries.length > limit && (
+        <button
+          onClick={() => setExpanded(true)}
+          className="px-3 py-1 rounded-xl text-sm font-semibold text-[var(--color-gray)] hover:text-[var(--color-coral)] transition-colors"
+        >
+          +{entries.length - limit}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)]">
+      <h3 className="text-base font-bold mb-3 text-[var(--color-charcoal)] flex items-center gap-2">
+        <span className="text-lg">🔉</span> {t("homophones")}
+      </h3>
+
+      <div className="flex flex-col gap-3">
+        {readings.map(reading => (
+          <div key={reading.jyutping} className="flex flex-col gap-2">
+            {readings.length > 1 && (
+              <span className="text-sm font-semibold text-[var(--color-sky-dark)]">{romanize(reading.jyutping)}</span>
+            )}
+            {reading.homophones.length > 0
+              ? renderChips(reading.homophones, expanded ? undefined : PREVIEW_COUNT)
+              : <span className="text-sm text-[var(--color-gray)]">{t("noHomophones")}</span>}
+
+            {showTones && reading.tones
+              ?.filter(group => group.jyutping !== reading.jyutping && group.entries.length > 0)
+              .map(group => (
+                <div key={group.jyutping} className="flex items-start gap-2">
+                  <span className="shrink-0 w-14 pt-1.5 text-sm text-[var(--color-gray)]">{romanize(group.jyutping)}</span>
+                  {renderChips(group.entries, expanded ? undefined : PREVIEW_COUNT)}
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+
+      {hasOtherTones && (
+        <button
+          onClick={() => setShowTones(show => !show)}
+          aria-pressed={showTones}
+          className={`mt-3 px-3 py-1 rounded-full border-2 text-sm font-semibold transition-colors ${
+            showTones
+              ? "border-[var(--color-sky)] bg-[var(--color-sky)]/10 text-[var(--color-sky-dark)]"
+              : "border-[var(--color-peach)] text-[var(--color-gray)] hover:border-[var(--color-coral-light)]"
+          }`}
+        >
+          {t("otherTones")}
+        </button>
+      )}
+    </div>
+  );
+}
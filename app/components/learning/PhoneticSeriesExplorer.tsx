@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import type { PhoneticRelation, PhoneticSeries } from "@/types/fullCharacter";
+import { useLanguage } from "@/lib/i18n/context";
+import type { TranslationKey } from "@/lib/i18n/translations";
+import { formatJyutpingPattern } from "@/lib/decomposition/phonetic";
+
+interface PhoneticSeriesExplorerProps {
+  /** Phonetic component of the series shown first (e.g. 青) */
+  series?: string;
+  /** Called when another series is picked */
+  onSeriesChange?: (phonetic: string) => void;
+}
+
+/**
+ * Label and colors of each phonetic relation
+ */
+const RELATION_STYLES: Record<PhoneticRelation, { labelKey: TranslationKey; className: string }> = {
+  same: {
+    labelKey: "relationSame",
+    className: "border-[var(--color-mint)] bg-[var(--color-mint)]/10 text-[var(--color-mint-dark)]",
+  },
+  rhyme: {
+    labelKey: "relationRhyme",
+    className: "border-[var(--color-sky)] bg-[var(--color-sky)]/10 text-[var(--color-sky-dark)]",
+  },
+};
+
+const exploreHref = (char: string) => `/learn/explore?char=${encodeURIComponent(char)}`;
+
+/**
+ * PhoneticSeriesExplorer Component
+ *
+ * Browses characters grouped by phonetic component (聲旁家族, 青 → 清 晴
+ * 請 精 情), with the Jyutping pattern of each series and how each member's
+ * reading relates to the phonetic. Characters link to Character Exploration.
+ */
+export default function PhoneticSeriesExplorer({ series, onSeriesChange }: PhoneticSeriesExplorerProps) {
+  const { t, romanize } = useLanguage();
+  const [groups, setGroups] = useState<PhoneticSeries[] | null>(null);
+  const [selectedKey, setSelectedKey] = useState(series);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/characters?meta=phonetic")
+      .then(res => res.ok ? res.json() : { groups: [] })
+      .then(data => {
+        if (!cancelled) setGroups(data.groups || []);
+      })
+      .catch(err => {
+        console.error("Failed to load phonetic series:", err);
+        if (!cancelled) setGroups([]);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!groups) {
+    return <div className="text-center py-12 text-[var(--color-gray)]">{t("loadingData")}</div>;
+  }
+  if (groups.length === 0) {
+    return <div className="text-center py-12 text-[var(--color-gray)]">{t("noResults")}</div>;
+  }
+
+  const selected = groups.find(group => group.key === selectedKey) ?? groups[0];
+  const select = (key: string) => {
+    setSelectedKey(key);
+    onSeriesChange?.(key);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-[var(--color-gray)]">{t("phoneticSeriesDesc")}</p>
+
+      {/* Series, largest first */}
+      <div className="flex flex-wrap gap-2">
+        {groups.map(group => {
+          const isSelected = group.key === selected.key;
+          return (
+            <button
+              key={group.key}
+              onClick={() => select(group.key)}
+              aria-pressed={isSelected}
+              className={`px-3 py-1 rounded-xl border-2 transition-colors flex items-baseline gap-1 ${
+                isSelected
+                  ? "border-[var(--color-coral)] bg-[var(--color-coral)]/10 text-[var(--color-coral-dark)]"
+                  : "border-[var(--color-peach)] text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)]"
+              }`}
+            >
+              <span className="text-xl hanzi-display">{group.key}</span>
+              <span className="text-xs text-[var(--color-gray)]">{group.entries.length + (group.phonetic ? 1 : 0)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Selected series */}
+      <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)]">
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <div className="flex flex-col items-center">
+            <span className="text-xs text-[var(--color-gray)]">{t("phoneticComponent")}</span>
+            {selected.phonetic ? (
+              <Link
+                href={exploreHref(selected.key)}
+                className="text-6xl hanzi-display text-[var(--color-coral)] hover:text-[var(--color-coral-dark)]"
+              >
+                {selected.key}
+              </Link>
+            ) : (
+              <span className="text-6xl hanzi-display text-[var(--color-coral)]">{selected.key}</span>
+            )}
+            {selected.phonetic?.jyutping && (
+              <span className="text-sm text-[var(--color-gray)]">{romanize(selected.phonetic.jyutping)}</span>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1 text-sm">
+            <span className="font-bold text-[var(--color-charcoal)]">
+              {t("readingPattern")}: <span className="font-mono">{formatJyutpingPattern(selected.pattern)}</span>
+            </span>
+            <span className="text-[var(--color-gray)]">
+              {t("finalLabel")}: <span className="font-mono">-{selected.pattern.final}</span> ({Math.round(selected.pattern.finalShare * 100)}%)
+            </span>
+            <span className="text-[var(--color-gray)]">
+              {t("initialsLabel")}: <span className="font-mono">{selected.pattern.initials.map(initial => initial || "∅").join(" / ")}</span>
+            </span>
+            <span className="text-[var(--color-gray)]">
+              {t("tonesLabel")}: <span className="font-mono">{selected.pattern.tones.join(" / ")}</span>
+            </span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+          {selected.entries.map(entry => {
+            const relation = RELATION_STYLES[entry.relation];
+            return (
+              <Link
+                key={entry.id}
+                href={exploreHref(entry.character)}
+                className={`flex flex-col items-center gap-0.5 p-2 rounded-xl border-2 transition-transform hover:scale-105 ${relation.className}`}
+              >
+                <span className="text-4xl hanzi-display text-[var(--color-charcoal)]">{entry.character}</span>
+                <span className="text-sm">{romanize(entry.jyutping)}</span>
+                <span className="text-xs">{t(relation.labelKey)}</span>
+              </Link>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
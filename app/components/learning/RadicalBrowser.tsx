@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import type { RadicalCharacterGroup, RadicalSummary } from "@/types/fullCharacter";
+import { useLanguage } from "@/lib/i18n/context";
+
+interface RadicalBrowserProps {
+  /** Radical shown first, or one of its forms (氵) */
+  radical?: string;
+  /** Called when another radical is picked */
+  onRadicalChange?: (radical: string) => void;
+}
+
+const exploreHref = (char: string) => `/learn/explore?char=${encodeURIComponent(char)}`;
+
+/**
+ * Group radicals by their stroke count, in Kangxi order
+ */
+function groupByStrokes(radicals: RadicalSummary[]): Array<[number, RadicalSummary[]]> {
+  const groups = new Map<number, RadicalSummary[]>();
+  radicals.forEach(radical => {
+    groups.set(radical.strokes, [...(groups.get(radical.strokes) || []), radical]);
+  });
+  return Array.from(groups.entries());
+}
+
+/**
+ * RadicalBrowser Component
+ *
+ * Reference chart of the 214 Kangxi radicals (部首表), by stroke count, with
+ * their other forms (水/氵) and meanings. The characters under the selected
+ * radical are listed by residual strokes and link to Character Exploration.
+ */
+export default function RadicalBrowser({ radical, onRadicalChange }: RadicalBrowserProps) {
+  const { t, language, romanize } = useLanguage();
+  const [radicals, setRadicals] = useState<RadicalSummary[] | null>(null);
+  const [selectedKey, setSelectedKey] = useState(radical);
+  const [characters, setCharacters] = useState<{ radical: string; groups: RadicalCharacterGroup[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/characters?meta=radicalInfo")
+      .then(res => res.ok ? res.json() : { radicals: [] })
+      .then(data => {
+        if (!cancelled) setRadicals(data.radicals || []);
+      })
+      .catch(err => {
+        console.error("Failed to load radicals:", err);
+        if (!cancelled) setRadicals([]);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  const selected = radicals?.find(info => info.radical === selectedKey || info.variants.includes(selectedKey ?? ""))
+    ?? radicals?.[0];
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    fetch(`/api/characters?meta=radicalInfo&radical=${encodeURIComponent(selected.radical)}`)
+      .then(res => res.ok ? res.json() : { groups: [] })
+      .then(data => {
+        if (!cancelled) setCharacters({ radical: selected.radical, groups: data.groups || [] });
+      })
+      .catch(err => {
+        console.error("Failed to load radical characters:", err);
+        if (!cancelled) setCharacters({ radical: selected.radical, groups: [] });
+      });
+
+    return () => { cancelled = true; };
+  }, [selected]);
+
+  if (!radicals) {
+    return <div className="text-center py-12 text-[var(--color-gray)]">{t("loadingData")}</div>;
+  }
+  if (!selected) {
+    return <div className="text-center py-12 text-[var(--color-gray)]">{t("noResults")}</div>;
+  }
+
+  const groups = characters?.radical === selected.radical ? characters.groups : null;
+  const select = (key: string) => {
+    setSelectedKey(key);
+    onRadicalChange?.(key);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-[var(--color-gray)]">{t("radicalBrowserDesc")}</p>
+
+      {/* Selected radical */}
+      <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)]">
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <span className="text-6xl hanzi-display text-[var(--color-coral)]">{selected.radical}</span>
+          <div className="flex flex-col gap-1 text-sm">
+            <span className="font-bold text-[var(--color-charcoal)]">
+              {t("meaningLabel")}: {selected.meaning[language]}
+            </span>
+            <span className="text-[var(--color-gray)]">
+              {t("kangxiNumber")} {selected.number} · {selected.strokes} {t("strokesUnit")}
+            </span>
+            {selected.variants.length > 0 && (
+              <span className="text-[var(--color-gray)]">
+                {t("variantForms")}: <span className="text-lg hanzi-display text-[var(--color-charcoal)]">{selected.variants.join(" ")}</span>
+              </span>
+            )}
+          </div>
+        </div>
+
+        {!groups ? (
+          <div className="text-center py-6 text-[var(--color-gray)]">{t("loadingData")}</div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-6 text-[var(--color-gray)]">{t("noResults")}</div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <span className="text-xs text-[var(--color-gray)]">{t("residualStrokes")}</span>
+            {groups.map(group => (
+              <div key={group.residualStrokes} className="flex gap-3">
+                <span className="w-14 shrink-0 pt-2 text-sm font-bold text-[var(--color-mint-dark)]">
+                  +{group.residualStrokes} {t("strokesUnit")}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  {group.entries.map(entry => (
+                    <Link
+                      key={entry.id}
+                      href={exploreHref(entry.character)}
+                      title={romanize(entry.jyutping)}
+                      className="w-11 h-11 flex items-center justify-center rounded-xl border-2 border-[var(--color-peach)]
+                               text-2xl hanzi-display text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)] transition-colors"
+                    >
+                      {entry.character}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* All radicals by stroke count */}
+      <div className="flex flex-col gap-2">
+        {groupByStrokes(radicals).map(([strokes, group]) => (
+          <div key={strokes} className="flex gap-3">
+            <span className="w-14 shrink-0 pt-2 text-sm font-bold text-[var(--color-gray)]">
+              {strokes} {t("strokesUnit")}
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {group.map(info => {
+                const isSelected = info.radical === selected.radical;
+                return (
+                  <button
+                    key={info.radical}
+                    onClick={() => select(info.radical)}
+                    aria-pressed={isSelected}
+                    title={info.meaning[language]}
+                    className={`px-3 py-1 rounded-xl border-2 transition-colors flex items-baseline gap-1 ${
+                      isSelected
+                        ? "border-[var(--color-coral)] bg-[var(--color-coral)]/10 text-[var(--color-coral-dark)]"
+                        : "border-[var(--color-peach)] text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)]"
+                    } ${info.characterCount === 0 ? "opacity-50" : ""}`}
+                  >
+                    <span className="text-xl hanzi-display">{info.radical}</span>
+                    {info.variants.length > 0 && (
+                      <span className="text-sm hanzi-display text-[var(--color-gray)]">{info.variants.join("")}</span>
+                    )}
+                    <span className="text-xs text-[var(--color-gray)]">{info.characterCount}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
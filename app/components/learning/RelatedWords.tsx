@@ -18,8 +18,6 @@ interface RelatedWordsProps {
   multiCharacterIdioms?: Phrase[];
   /** Proper nouns */
   properNouns?: Phrase[];
-  /** Compact mode (shows less) */
-  compact?: boolean;
 }
 
 type WordCategory = 
@@ -43,7 +41,7 @@ const CATEGORY_KEYS: { key: WordCategory; labelKey: TranslationKey; icon: string
  * RelatedWords Component
  * 
  * Displays related vocabulary words and phrases organized by category.
- * Supports pronunciation playback and compact/expanded views.
+ * Supports pronunciation playback.
  */
 export default function RelatedWords({
   stage1Words = [],
@@ -52,11 +50,9 @@ export default function RelatedWords({
   classicalPhrases = [],
   multiCharacterIdioms = [],
   properNouns = [],
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  compact = false,
 }: RelatedWordsProps) {
   const [activeCategory, setActiveCategory] = useState<WordCategory>("stage1");
-  const { t } = useLanguage();
+  const { t, romanize } = useLanguage();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollHint, setShowScrollHint] = useState(false);
 
@@ -217,7 +213,7 @@ export default function RelatedWords({
                     </div>
                     {jyutping && (
                       <span className="text-xs text-[var(--color-sky)] font-mono mt-1 block truncate">
-                        {jyutping}
+                        {romanize(jyutping)}
                       </span>
                     )}
                   </button>
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { SimilarCharacter } from "@/types/fullCharacter";
+import { useLanguage } from "@/lib/i18n/context";
+
+interface SimilarCharactersProps {
+  /** Character to find look-alikes of */
+  character: string;
+  /** Called when a similar character is tapped */
+  onSelect?: (char: string) => void;
+}
+
+/** Similarity from which characters are marked as very easily confused */
+const HIGH_SIMILARITY = 0.8;
+
+/**
+ * SimilarCharacters Component
+ *
+ * Shows the 易混淆字 of a character: characters that look alike (已/巳,
+ * 未/末), most similar first. Tapping one opens it.
+ */
+export default function SimilarCharacters({ character, onSelect }: SimilarCharactersProps) {
+  const { t } = useLanguage();
+  const [fetched, setFetched] = useState<{ character: string; similar: SimilarCharacter[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/characters?meta=similar&char=${encodeURIComponent(character)}`)
+      .then(res => res.ok ? res.json() : { similar: [] })
+      .then(data => {
+        if (!cancelled) setFetched({ character, similar: data.similar || [] });
+      })
+      .catch(err => {
+        console.error("Failed to load similar characters:", err);
+        if (!cancelled) setFetched({ character, similar: [] });
+      });
+
+    return () => { cancelled = true; };
+  }, [character]);
+
+  // Results of the previous character are not shown while loading
+  const similar = fetched?.character === character ? fetched.similar : null;
+  if (!similar || similar.length === 0) return null;
+
+  return (
+    <div className="bg-[var(--card-bg)] rounded-2xl p-4 shadow-[0_4px_16px_var(--card-shadow)]">
+      <h3 className="text-base font-bold mb-3 text-[var(--color-charcoal)] flex items-center gap-2">
+        <span className="text-lg">🔍</span> {t("similarCharacters")}
+      </h3>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="px-3 py-1 rounded-xl bg-[var(--color-sky)]/10 text-2xl hanzi-display text-[var(--color-sky-dark)]">
+          {character}
+        </span>
+        <span className="text-[var(--color-gray)]">≠</span>
+        {similar.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onSelect?.(entry.character)}
+            className={`px-3 py-1 border-2 rounded-xl text-2xl hanzi-display text-[var(--color-charcoal)]
+                     hover:border-[var(--color-coral-light)] hover:bg-[var(--color-coral)]/5 transition-colors ${
+              entry.score >= HIGH_SIMILARITY
+                ? "border-[var(--color-coral)] bg-[var(--color-coral)]/10"
+                : "border-[var(--color-golden)] bg-[var(--color-golden)]/10"
+            }`}
+          >
+            {entry.character}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
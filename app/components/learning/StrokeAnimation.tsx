@@ -1,13 +1,38 @@
 "use client";
 
 import { useState, useEffect, useMemo, useRef, useCallback } from "react";
-import type { StrokeVector } from "@/types/fullCharacter";
-import Script from "next/script";
+import type { StrokeType, StrokeVector } from "@/types/fullCharacter";
+import type { TranslationKey } from "@/lib/i18n/translations";
+import {
+  ANIMATION_SPEEDS,
+  CANVAS_SIZE,
+  GRID_STYLES,
+  LOOP_HOLD_MS,
+  getAnimationTimeline,
+  getCanvasColors,
+  getGridPath,
+  getStrokeMedians,
+  groupStrokes,
+  renderAnimatedGif,
+  renderAnimatedSvg,
+  toSvgPath,
+  type GridStyle,
+} from "@/lib/strokes";
 import { useLanguage } from "@/lib/i18n/context";
 import { useTheme } from "@/lib/theme";
+import StrokeWriter from "./StrokeWriter";
 
 interface StrokeAnimationProps {
+  /** Stroke data; fetched from /api/characters/strokes when omitted */
   strokeVectors?: StrokeVector[];
+  /** Stroke types, in stroke order; fetched with the stroke data when omitted */
+  strokeTypes?: StrokeType[];
+  /** Component index of each stroke; fetched with the stroke data when omitted */
+  strokeComponents?: number[];
+  /** Component index of the radical, whose strokes are drawn in the radical color */
+  radicalComponent?: number;
+  /** Component index whose strokes are drawn in the highlight color */
+  highlightComponent?: number;
   character: string;
   size?: number;
   showAnimation?: boolean; // If true, start with animation mode
@@ -16,244 +41,259 @@ interface StrokeAnimationProps {
 
 interface StrokeGroup {
   strokeNumber: number;
-  segments: StrokeVector[];
+  /** SVG path of each animation segment; the last one is the complete stroke */
+  paths: string[];
 }
 
-// CreateJS types
-interface CreateJSStage {
-  addChild: (child: unknown) => void;
-  removeAllChildren: () => void;
-  update: () => void;
-  clear: () => void;
+interface FetchedStrokes {
+  strokeVectors: StrokeVector[];
+  strokeTypes?: StrokeType[];
+  strokeComponents?: number[];
+  radicalComponent?: number;
 }
 
-interface CreateJSShape {
-  graphics: {
-    f: (color: string) => unknown;
-    s: (color: string, width?: number) => unknown;
-    p: (pathData: string) => unknown;
-  };
-  x: number;
-  y: number;
-}
+// Stroke data fetched on demand, shared across instances
+const fetchedStrokeCache = new Map<string, FetchedStrokes>();
 
-declare global {
-  interface Window {
-    createjs: {
-      Stage: new (canvas: HTMLCanvasElement) => CreateJSStage;
-      Shape: new () => CreateJSShape;
-    };
-  }
-}
+/**
+ * Label for each stroke type
+ */
+const STROKE_TYPE_LABELS: Record<StrokeType, TranslationKey> = {
+  heng: "strokeTypeHeng",
+  ti: "strokeTypeTi",
+  shu: "strokeTypeShu",
+  pie: "strokeTypePie",
+  dian: "strokeTypeDian",
+  na: "strokeTypeNa",
+  zhe: "strokeTypeZhe",
+  gou: "strokeTypeGou",
+};
 
-// Global flag for CreateJS loaded state
-let createJSLoadedGlobal = false;
+/**
+ * Label for each grid style
+ */
+const GRID_LABELS: Record<GridStyle, TranslationKey> = {
+  tian: "gridTian",
+  mi: "gridMi",
+  jiu: "gridJiu",
+  none: "gridNone",
+};
+
+/**
+ * Save a file from the browser
+ */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
 /**
- * StrokeAnimation Component - uses CreateJS EaselJS for accurate path rendering
+ * StrokeAnimation Component - renders decoded stroke paths as inline SVG,
+ * with a writing mode for trace-and-check practice (StrokeWriter)
+ *
+ * Player settings (speed, loop, stroke numbers, grid) are kept across
+ * characters and also apply to the animated SVG/GIF downloads.
  */
 export default function StrokeAnimation({
   strokeVectors,
+  strokeTypes,
+  strokeComponents,
+  radicalComponent,
+  highlightComponent,
   character,
   size = 220,
   showAnimation = false,
   onAnimationEnd,
 }: StrokeAnimationProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const stageRef = useRef<CreateJSStage | null>(null);
-  const [createJSLoaded, setCreateJSLoaded] = useState(createJSLoadedGlobal);
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { theme } = useTheme();
   
+  // Fetch stroke data lazily when not passed in
+  const [fetchedStrokes, setFetchedStrokes] = useState<({ character: string } & FetchedStrokes) | null>(null);
+  const fetched = fetchedStrokes?.character === character ? fetchedStrokes : fetchedStrokeCache.get(character);
+  const resolvedStrokes = strokeVectors ?? fetched?.strokeVectors;
+  const resolvedStrokeTypes = strokeTypes ?? fetched?.strokeTypes;
+  const resolvedStrokeComponents = strokeComponents ?? fetched?.strokeComponents;
+  const resolvedRadicalComponent = radicalComponent ?? fetched?.radicalComponent;
+  
+  useEffect(() => {
+    if (strokeVectors || fetchedStrokeCache.has(character)) return;
+    
+    let cancelled = false;
+    fetch(`/api/characters/strokes?char=${encodeURIComponent(character)}`)
+      .then(res => res.ok ? res.json() : { strokeVectors: [] })
+      .then(data => {
+        const result: FetchedStrokes = {
+          strokeVectors: data.strokeVectors || [],
+          strokeTypes: data.strokeTypes,
+          strokeComponents: data.strokeComponents,
+          radicalComponent: data.radicalComponent,
+        };
+        fetchedStrokeCache.set(character, result);
+        if (!cancelled) setFetchedStrokes({ character, ...result });
+      })
+      .catch(err => {
+        console.error("Failed to load stroke data:", err);
+        if (!cancelled) setFetchedStrokes({ character, strokeVectors: [] });
+      });
+    
+    return () => { cancelled = true; };
+  }, [character, strokeVectors]);
+  
   // Theme-aware colors for canvas
-  const canvasColors = useMemo(() => ({
-    background: theme === 'dark' ? '#3D3D3D' : '#FFFBF0',
-    grid: theme === 'dark' ? '#5A5A5A' : '#E8D5C4',
-    guide: theme === 'dark' ? '#666666' : '#CCCCCC',
-    stroke: theme === 'dark' ? '#E8E0D8' : '#2D3436',
-  }), [theme]);
+  const canvasColors = useMemo(() => getCanvasColors(theme), [theme]);
   
-  // Group strokes by strokeNumber
+  // Group strokes by strokeNumber, with each segment decoded to an SVG path
   const strokeGroups = useMemo((): StrokeGroup[] => {
-    if (!strokeVectors || strokeVectors.length === 0) return [];
+    if (!resolvedStrokes || resolvedStrokes.length === 0) return [];
     
-    const groups = new Map<number, StrokeVector[]>();
-    strokeVectors.forEach(sv => {
-      const existing = groups.get(sv.strokeNumber) || [];
-      existing.push(sv);
-      groups.set(sv.strokeNumber, existing);
-    });
-    
-    return Array.from(groups.entries())
-      .sort((a, b) => a[0] - b[0])
-      .map(([strokeNum, segments]) => ({
-        strokeNumber: strokeNum,
-        segments: segments.sort((a, b) => a.frame - b.frame),
-      }));
-  }, [strokeVectors]);
+    return groupStrokes(resolvedStrokes).map(group => ({
+      strokeNumber: group.strokeNumber,
+      paths: group.segments.map(sv => sv.svgPath ?? toSvgPath(sv.pathData, sv.transform)),
+    }));
+  }, [resolvedStrokes]);
 
   const totalStrokes = strokeGroups.length;
   
-  // Animation state
+  // Animation state: index into the animation timeline, -1 when idle
   const [isAnimating, setIsAnimating] = useState(false);
-  const [currentStroke, setCurrentStroke] = useState(-1);
-  const [currentSegment, setCurrentSegment] = useState(0);
+  const [frameIndex, setFrameIndex] = useState(-1);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Initialize stage when CreateJS loads
-  useEffect(() => {
-    if (!createJSLoaded || !canvasRef.current || typeof window === 'undefined' || !window.createjs) return;
-    
-    stageRef.current = new window.createjs.Stage(canvasRef.current);
-  }, [createJSLoaded]);
-
-  // Draw function using CreateJS EaselJS
-  const drawStrokes = useCallback((strokeLimit: number = -1, segmentLimit: number = -1, showGuide: boolean = false) => {
-    const canvas = canvasRef.current;
-    const stage = stageRef.current;
-    if (!canvas || !stage || !createJSLoaded || typeof window === 'undefined' || !window.createjs) return;
-    
-    // Clear stage
-    stage.removeAllChildren();
-    
-    // Draw background and grid with raw canvas
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.clearRect(0, 0, 1080, 1080);
-      ctx.fillStyle = canvasColors.background;
-      ctx.fillRect(0, 0, 1080, 1080);
-      ctx.strokeStyle = canvasColors.grid;
-      ctx.lineWidth = 2;
-      ctx.setLineDash([12, 8]);
-      ctx.beginPath();
-      ctx.moveTo(540, 0);
-      ctx.lineTo(540, 1080);
-      ctx.moveTo(0, 540);
-      ctx.lineTo(1080, 540);
-      ctx.stroke();
-      ctx.setLineDash([]);
-    }
-    
-    // Draw grey guide (complete character) as background during animation
-    if (showGuide) {
-      strokeGroups.forEach(group => {
-        const seg = group.segments[group.segments.length - 1];
-        const shape = new window.createjs.Shape();
-        const g = shape.graphics;
-        g.f(canvasColors.guide);
-        g.p(seg.pathData);
-        shape.x = seg.transform.x;
-        shape.y = seg.transform.y;
-        stage.addChild(shape);
-      });
-    }
-    
-    // Determine which segments to draw
-    const toDraw: { segment: StrokeVector }[] = [];
-    
-    if (strokeLimit < 0) {
-      // Show all final segments (complete character)
-      strokeGroups.forEach(group => {
-        const seg = group.segments[group.segments.length - 1];
-        toDraw.push({ segment: seg });
-      });
-    } else {
-      // Show up to strokeLimit
-      for (let i = 0; i <= strokeLimit && i < strokeGroups.length; i++) {
-        const group = strokeGroups[i];
-        const isCurrentStroke = i === strokeLimit;
-        const segIdx = isCurrentStroke 
-          ? Math.min(segmentLimit, group.segments.length - 1)
-          : group.segments.length - 1;
-        const seg = group.segments[segIdx];
-        toDraw.push({ segment: seg });
-      }
+  // Number of strokes shown when stepping through strokes, null when not stepping
+  const [stepStroke, setStepStroke] = useState<number | null>(null);
+
+  // Player settings
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [showNumbers, setShowNumbers] = useState(false);
+  const [showRadical, setShowRadical] = useState(true);
+  const [grid, setGrid] = useState<GridStyle>("tian");
+  const [showSettings, setShowSettings] = useState(false);
+  const [exportingGif, setExportingGif] = useState(false);
+  
+  // Writing practice mode
+  const [isWriting, setIsWriting] = useState(false);
+
+  const timeline = useMemo(
+    () => getAnimationTimeline(strokeGroups.map(group => group.paths.length), speed),
+    [strokeGroups, speed]
+  );
+  const frame = isAnimating && frameIndex >= 0 ? timeline[frameIndex] : undefined;
+
+  // Stroke being shown (0-based) while animating or stepping, -1 otherwise
+  const currentStroke = frame ? frame.stroke : stepStroke !== null ? stepStroke - 1 : -1;
+
+  // Paths to draw: complete character, strokes up to the current segment while
+  // animating, or complete strokes up to the current one while stepping
+  const visiblePaths = useMemo((): string[] => {
+    if (!frame && stepStroke === null) {
+      return strokeGroups.map(group => group.paths[group.paths.length - 1]);
     }
     
-    // Draw each segment using CreateJS Shape - black color
-    toDraw.forEach(({ segment }) => {
-      const shape = new window.createjs.Shape();
-      const g = shape.graphics;
-      g.f(canvasColors.stroke);
-      g.p(segment.pathData);
-      shape.x = segment.transform.x;
-      shape.y = segment.transform.y;
-      stage.addChild(shape);
+    return strokeGroups.slice(0, currentStroke + 1).map((group, i) => {
+      const segIdx = frame && i === currentStroke
+        ? Math.min(frame.segment, group.paths.length - 1)
+        : group.paths.length - 1;
+      return group.paths[segIdx];
     });
-    
-    stage.update();
-  }, [createJSLoaded, strokeGroups, canvasColors]);
+  }, [strokeGroups, frame, stepStroke, currentStroke]);
 
-  // Draw complete character when loaded or character changes
-  useEffect(() => {
-    if (createJSLoaded && stageRef.current && !isAnimating) {
-      drawStrokes(-1, -1, false);
-    }
-  }, [createJSLoaded, character, drawStrokes, isAnimating]);
+  // Start point of each stroke, for stroke numbers
+  const numberPositions = useMemo(
+    () => showNumbers && resolvedStrokes ? getStrokeMedians(resolvedStrokes).map(median => median.points[0]) : [],
+    [showNumbers, resolvedStrokes]
+  );
 
   // Animation effect - smooth animation with grey guide background
   useEffect(() => {
-    if (!isAnimating || currentStroke < 0) return;
+    if (!isAnimating || frameIndex < 0) return;
     
-    const group = strokeGroups[currentStroke];
-    if (!group) {
+    if (!timeline[frameIndex]) {
       // Schedule state updates to avoid synchronous setState in effect
       setTimeout(() => {
         setIsAnimating(false);
-        setCurrentStroke(-1);
+        setFrameIndex(-1);
         onAnimationEnd?.();
       }, 0);
       return;
     }
     
-    // Draw current state with grey guide background
-    drawStrokes(currentStroke, currentSegment, true);
-    
-    // Smoother framerate: 50ms per segment (20fps), min 800ms per stroke
-    const segmentCount = group.segments.length;
-    const msPerSegment = Math.max(50, Math.floor(800 / segmentCount));
+    const isLastFrame = frameIndex === timeline.length - 1;
+    const delay = timeline[frameIndex].duration + (isLastFrame && loop ? LOOP_HOLD_MS : 0);
     
     // Schedule next frame
     timerRef.current = setTimeout(() => {
-      if (currentSegment < group.segments.length - 1) {
-        // Next segment of current stroke
-        setCurrentSegment(s => s + 1);
-      } else if (currentStroke < totalStrokes - 1) {
-        // Next stroke - small pause between strokes
-        timerRef.current = setTimeout(() => {
-          setCurrentStroke(s => s + 1);
-          setCurrentSegment(0);
-        }, 150);
+      if (!isLastFrame) {
+        setFrameIndex(i => i + 1);
+      } else if (loop) {
+        // Loop mode - hold the complete character, then start over
+        setFrameIndex(0);
       } else {
         // Animation complete - show full character (no guide)
         setIsAnimating(false);
-        setCurrentStroke(-1);
-        drawStrokes(-1, -1, false);
+        setFrameIndex(-1);
         onAnimationEnd?.();
       }
-    }, msPerSegment);
+    }, delay);
     
     return () => { if (timerRef.current) clearTimeout(timerRef.current); };
-  }, [isAnimating, currentStroke, currentSegment, strokeGroups, totalStrokes, drawStrokes, onAnimationEnd]);
+  }, [isAnimating, frameIndex, timeline, loop, onAnimationEnd]);
 
   // Start animation
   const startAnimation = useCallback(() => {
-    setCurrentStroke(0);
-    setCurrentSegment(0);
+    setStepStroke(null);
+    setFrameIndex(0);
     setIsAnimating(true);
   }, []);
 
   // Stop and show complete
   const stopAnimation = useCallback(() => {
     setIsAnimating(false);
-    setCurrentStroke(-1);
-    setCurrentSegment(0);
-    drawStrokes(-1, -1, false);
-  }, [drawStrokes]);
+    setFrameIndex(-1);
+    setStepStroke(null);
+  }, []);
+
+  // Step one stroke forward or back; stepping past the last stroke shows the complete character
+  const stepBy = (direction: 1 | -1) => {
+    const shown = frame ? frame.stroke + 1 : stepStroke ?? (direction > 0 ? 0 : totalStrokes);
+    const next = Math.max(1, shown + direction);
+    if (isAnimating) {
+      // Pausing ends the animation for the parent as well
+      setIsAnimating(false);
+      setFrameIndex(-1);
+      onAnimationEnd?.();
+    }
+    setStepStroke(next > totalStrokes ? null : next);
+  };
+
+  // Download the animation with the current player settings
+  const downloadSvg = () => {
+    if (!resolvedStrokes) return;
+    const svg = renderAnimatedSvg(resolvedStrokes, { grid, strokeNumbers: showNumbers, speed, loop, theme, size: 512 });
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${character}.svg`);
+  };
+
+  const downloadGif = async () => {
+    if (!resolvedStrokes || exportingGif) return;
+    setExportingGif(true);
+    try {
+      const gif = await renderAnimatedGif(resolvedStrokes, { grid, strokeNumbers: showNumbers, speed, loop, theme });
+      downloadBlob(gif, `${character}.gif`);
+    } catch (err) {
+      console.error("Failed to export GIF:", err);
+    } finally {
+      setExportingGif(false);
+    }
+  };
 
   // Handle showAnimation prop - start or stop based on prop
   useEffect(() => {
-    if (showAnimation && createJSLoaded && stageRef.current && !isAnimating) {
+    if (showAnimation && totalStrokes > 0 && !isAnimating) {
       // Schedule state update to avoid synchronous setState in effect
       setTimeout(() => {
         startAnimation();
@@ -264,7 +304,7 @@ export default function StrokeAnimation({
         stopAnimation();
       }, 0);
     }
-  }, [showAnimation, createJSLoaded, startAnimation, stopAnimation, isAnimating]);
+  }, [showAnimation, totalStrokes, startAnimation, stopAnimation, isAnimating]);
 
   // Reset animation when character changes
   useEffect(() => {
@@ -274,18 +314,27 @@ export default function StrokeAnimation({
     // Schedule state updates to avoid synchronous setState in effect
     setTimeout(() => {
       setIsAnimating(false);
-      setCurrentStroke(-1);
-      setCurrentSegment(0);
+      setFrameIndex(-1);
+      setStepStroke(null);
+      setIsWriting(false);
     }, 0);
   }, [character]);
 
-  // Handle CreateJS load
-  const handleCreateJSLoad = useCallback(() => {
-    createJSLoadedGlobal = true;
-    setCreateJSLoaded(true);
-  }, []);
+  // Switch to writing mode
+  const startWriting = useCallback(() => {
+    stopAnimation();
+    setIsWriting(true);
+  }, [stopAnimation]);
 
-  if (!strokeVectors || strokeVectors.length === 0) {
+  if (!resolvedStrokes) {
+    return (
+      <div className="bg-[var(--color-peach)]/20 rounded-xl border-2 border-[var(--color-peach)] flex items-center justify-center" style={{ width: size, height: size }}>
+        <div className="text-sm text-[var(--color-gray)]">{t("loadingData")}</div>
+      </div>
+    );
+  }
+
+  if (resolvedStrokes.length === 0) {
     return (
       <div className="bg-[var(--color-peach)]/20 rounded-xl border-2 border-[var(--color-peach)] flex items-center justify-center" style={{ width: size, height: size }}>
         <div className="text-center text-[var(--color-gray-light)]">
@@ -296,54 +345,233 @@ export default function StrokeAnimation({
     );
   }
 
+  // Name of the stroke being drawn, e.g. "第3筆：撇"
+  const strokeType = currentStroke >= 0 ? resolvedStrokeTypes?.[currentStroke] : undefined;
+  const strokeLabel = strokeType
+    ? language === "en"
+      ? `Stroke ${currentStroke + 1}: ${t(STROKE_TYPE_LABELS[strokeType])}`
+      : `第${currentStroke + 1}筆：${t(STROKE_TYPE_LABELS[strokeType])}`
+    : "";
+
+  if (isWriting) {
+    // Keep drawing from reaching click handlers of the parent
+    return (
+      <div className="flex flex-col items-center" onClick={(e) => e.stopPropagation()}>
+        <StrokeWriter key={character} strokeVectors={resolvedStrokes} character={character} size={size} />
+        <button
+          onClick={() => setIsWriting(false)}
+          className="mt-2 text-xs text-[var(--color-coral)] hover:text-[var(--color-coral-dark)] font-medium"
+        >
+          ✏️ {t("showStrokes")}
+        </button>
+      </div>
+    );
+  }
+
+  const isStepping = stepStroke !== null;
+
+  // Color of a drawn stroke: current step, highlighted component, radical or plain
+  const strokeFill = (strokeIndex: number): string => {
+    if (isStepping && strokeIndex === currentStroke) return canvasColors.highlight;
+    const component = resolvedStrokeComponents?.[strokeIndex];
+    if (component !== undefined && component === highlightComponent) return canvasColors.highlight;
+    if (showRadical && component !== undefined && component === resolvedRadicalComponent) return canvasColors.radical;
+    return canvasColors.stroke;
+  };
+  const selectClass = "px-2 py-1 rounded-lg border-2 border-[var(--color-peach)] bg-[var(--input-bg)] text-xs text-[var(--color-charcoal)] focus:outline-none focus:border-[var(--color-sky)]";
+  const stepButtonClass = "w-9 h-9 rounded-lg bg-[var(--color-peach)]/60 text-[var(--color-charcoal)] text-sm font-bold hover:bg-[var(--color-peach)] transition-colors";
+
   return (
     <div className="flex flex-col items-center">
-      {/* Load CreateJS EaselJS */}
-      <Script 
-        src="https://code.createjs.com/1.0.0/easeljs.min.js"
-        onLoad={handleCreateJSLoad}
-        strategy="afterInteractive"
-      />
-      
       <div className="relative bg-[var(--input-bg)] rounded-xl border-2 border-[var(--color-peach)] overflow-hidden" style={{ width: size, height: size }}>
-        {/* Canvas for stroke rendering */}
-        <canvas 
-          ref={canvasRef}
-          width={1080}
-          height={1080}
-          style={{ width: size, height: size }}
+        {/* Stroke paths use the 1080x1080 coordinate space of the source data */}
+        <svg
+          viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`}
+          width={size}
+          height={size}
           className="absolute inset-0"
-        />
+          role="img"
+          aria-label={character}
+        >
+          <rect width={CANVAS_SIZE} height={CANVAS_SIZE} fill={canvasColors.background} />
+          <path
+            d={getGridPath(grid)}
+            stroke={canvasColors.grid}
+            strokeWidth={2}
+            strokeDasharray="12 8"
+          />
+          
+          {/* Grey guide (complete character) as background during animation and stepping */}
+          {(isAnimating || isStepping) && strokeGroups.map(group => (
+            <path key={`guide-${group.strokeNumber}`} d={group.paths[group.paths.length - 1]} fill={canvasColors.guide} />
+          ))}
+          
+          {visiblePaths.map((d, i) => (
+            <path key={i} d={d} fill={strokeFill(i)} />
+          ))}
+
+          {/* Stroke numbers at the start of each drawn stroke */}
+          {numberPositions.slice(0, visiblePaths.length).map((point, i) => point && (
+            <g key={`number-${i}`}>
+              <circle cx={point.x} cy={point.y} r={36} fill={canvasColors.highlight} />
+              <text
+                x={point.x}
+                y={point.y}
+                fontFamily="sans-serif"
+                fontSize={44}
+                fontWeight="bold"
+                fill="#FFFFFF"
+                textAnchor="middle"
+                dominantBaseline="central"
+              >
+                {i + 1}
+              </text>
+            </g>
+          ))}
+        </svg>
 
-        {!createJSLoaded && (
-          <div className="absolute inset-0 flex items-center justify-center bg-[var(--color-peach)]/20">
-            <div className="text-sm text-[var(--color-gray)]">{t("loadingData")}</div>
+        {/* Stroke counter during animation and stepping */}
+        {(isAnimating || isStepping) && (
+          <div className="absolute top-2 right-2 bg-[var(--card-bg)]/90 rounded-full px-2.5 py-0.5 text-xs font-bold text-[var(--color-gray)]">
+            {currentStroke + 1}/{totalStrokes}
           </div>
         )}
-
-        {/* Stroke counter during animation */}
         {isAnimating && (
-          <>
-            <div className="absolute top-2 right-2 bg-[var(--card-bg)]/90 rounded-full px-2.5 py-0.5 text-xs font-bold text-[var(--color-gray)]">
-              {currentStroke + 1}/{totalStrokes}
-            </div>
-            <div className="absolute top-2 left-2 bg-[var(--color-coral)] rounded-full px-2 py-0.5 text-xs text-white">
-              {t("playing")}
-            </div>
-          </>
+          <div className="absolute top-2 left-2 bg-[var(--color-coral)] rounded-full px-2 py-0.5 text-xs text-white">
+            {t("playing")}
+          </div>
         )}
+
+        {/* Name of the current stroke */}
+        <div className="absolute bottom-2 inset-x-0 flex justify-center pointer-events-none" aria-live="polite">
+          {strokeLabel && (
+            <span className="bg-[var(--card-bg)]/90 rounded-full px-3 py-0.5 text-sm font-bold text-[var(--color-charcoal)]">
+              {strokeLabel}
+            </span>
+          )}
+        </div>
       </div>
 
       {/* Simple controls */}
       <div className="mt-3 flex items-center gap-2">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            stepBy(-1);
+          }}
+          className={stepButtonClass}
+          aria-label={t("previousStroke")}
+          title={t("previousStroke")}
+        >
+          ⏮
+        </button>
         <button 
           onClick={isAnimating ? stopAnimation : startAnimation} 
           className="px-4 py-2 rounded-lg bg-[var(--color-coral)] text-white text-sm font-medium hover:bg-[var(--color-coral-dark)] transition-colors"
         >
           {isAnimating ? `⏹ ${t("stop")}` : `✏️ ${t("showStrokes")}`}
         </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            stepBy(1);
+          }}
+          className={stepButtonClass}
+          aria-label={t("nextStroke")}
+          title={t("nextStroke")}
+        >
+          ⏭
+        </button>
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <button 
+          onClick={(e) => {
+            e.stopPropagation();
+            startWriting();
+          }} 
+          className="px-4 py-2 rounded-lg bg-[var(--color-mint)] text-white text-sm font-medium hover:bg-[var(--color-mint-dark)] transition-colors"
+        >
+          ✍️ {t("writeStrokes")}
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowSettings(open => !open);
+          }}
+          className={`${stepButtonClass} ${showSettings ? "bg-[var(--color-peach)]" : ""}`}
+          aria-label={t("playerSettings")}
+          aria-expanded={showSettings}
+          title={t("playerSettings")}
+        >
+          ⚙️
+        </button>
       </div>
       <p className="text-xs text-[var(--color-gray)] mt-1.5">{totalStrokes} {t("strokes")}</p>
+
+      {/* Player settings and downloads; clicks must not toggle the parent's animation */}
+      {showSettings && (
+        <div
+          className="mt-2 p-3 rounded-xl bg-[var(--color-peach)]/20 border-2 border-[var(--color-peach)] flex flex-col gap-2 text-xs text-[var(--color-charcoal)]"
+          style={{ width: Math.max(size, 220) }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor={`speed-${character}`} className="font-medium">{t("playbackSpeed")}</label>
+            <select
+              id={`speed-${character}`}
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className={selectClass}
+            >
+              {ANIMATION_SPEEDS.map(option => (
+                <option key={option} value={option}>{option}×</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor={`grid-${character}`} className="font-medium">{t("gridStyle")}</label>
+            <select
+              id={`grid-${character}`}
+              value={grid}
+              onChange={(e) => setGrid(e.target.value as GridStyle)}
+              className={selectClass}
+            >
+              {GRID_STYLES.map(option => (
+                <option key={option} value={option}>{t(GRID_LABELS[option])}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center justify-between gap-2 font-medium">
+            {t("loopAnimation")}
+            <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} className="accent-[var(--color-coral)]" />
+          </label>
+          {resolvedRadicalComponent !== undefined && (
+            <label className="flex items-center justify-between gap-2 font-medium">
+              {t("highlightRadical")}
+              <input type="checkbox" checked={showRadical} onChange={(e) => setShowRadical(e.target.checked)} className="accent-[var(--color-coral)]" />
+            </label>
+          )}
+          <label className="flex items-center justify-between gap-2 font-medium">
+            {t("showStrokeNumbers")}
+            <input type="checkbox" checked={showNumbers} onChange={(e) => setShowNumbers(e.target.checked)} className="accent-[var(--color-coral)]" />
+          </label>
+          <div className="flex items-center gap-2 pt-1">
+            <button
+              onClick={downloadSvg}
+              className="flex-1 px-2 py-1.5 rounded-lg bg-[var(--color-sky)] text-white font-medium hover:bg-[var(--color-sky-dark)] transition-colors"
+            >
+              ⬇ {t("downloadSvg")}
+            </button>
+            <button
+              onClick={downloadGif}
+              disabled={exportingGif}
+              className="flex-1 px-2 py-1.5 rounded-lg bg-[var(--color-sky)] text-white font-medium hover:bg-[var(--color-sky-dark)] transition-colors disabled:opacity-60"
+            >
+              {exportingGif ? t("exporting") : `⬇ ${t("downloadGif")}`}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { StrokeVector } from "@/types/fullCharacter";
+import Button from "@/app/components/ui/Button";
+import { CANVAS_SIZE, getCanvasColors, getGridPath, groupStrokes, toSvgPath, type CanvasColors } from "@/lib/strokes";
+import { useLanguage } from "@/lib/i18n/context";
+import { useTheme } from "@/lib/theme";
+
+interface StrokeOrderQuizProps {
+  /** Only use characters with at most this many strokes */
+  maxStrokes?: number;
+  /** Number of questions per round */
+  questionCount?: number;
+}
+
+interface StrokeOrderQuestion {
+  id: string;
+  character: string;
+  drawnStrokes: number;
+  candidates: number[];
+  correctAnswer: number;
+}
+
+interface StrokeCellProps {
+  /** Complete outline of every stroke */
+  outlines: string[];
+  /** Number of strokes drawn in the stroke color */
+  drawnStrokes: number;
+  /** Stroke number drawn in the highlight color */
+  highlight?: number;
+  /** Draw the rest of the character in the guide color */
+  showGuide?: boolean;
+  colors: CanvasColors;
+  size: number;
+}
+
+/**
+ * Character cell: drawn strokes, optionally the grey remainder and one
+ * highlighted stroke
+ */
+function StrokeCell({ outlines, drawnStrokes, highlight, showGuide = false, colors, size }: StrokeCellProps) {
+  return (
+    <svg viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} width={size} height={size} className="block">
+      <rect width={CANVAS_SIZE} height={CANVAS_SIZE} fill={colors.background} />
+      <path d={getGridPath("tian")} stroke={colors.grid} strokeWidth={2} strokeDasharray="12 8" />
+      {showGuide && outlines.slice(drawnStrokes).map((d, i) => (
+        <path key={`guide-${i}`} d={d} fill={colors.guide} opacity={0.5} />
+      ))}
+      {outlines.slice(0, drawnStrokes).map((d, i) => (
+        <path key={`drawn-${i}`} d={d} fill={colors.stroke} />
+      ))}
+      {highlight !== undefined && (
+        <path d={outlines[highlight - 1]} fill={colors.highlight} />
+      )}
+    </svg>
+  );
+}
+
+/**
+ * StrokeOrderQuiz Component - "which stroke comes next?"
+ *
+ * Shows a character drawn up to stroke N and 3-4 candidate next strokes
+ * as highlighted outlines; the child picks the stroke written next.
+ */
+export default function StrokeOrderQuiz({ maxStrokes, questionCount = 10 }: StrokeOrderQuizProps) {
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const colors = useMemo(() => getCanvasColors(theme), [theme]);
+
+  const [questions, setQuestions] = useState<StrokeOrderQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const [strokeData, setStrokeData] = useState<Record<string, StrokeVector[]>>({});
+
+  const loadQuestions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      params.set("type", "strokeOrder");
+      params.set("shuffle", "true");
+      params.set("limit", questionCount.toString());
+      if (maxStrokes) {
+        params.set("maxStrokes", maxStrokes.toString());
+      }
+
+      const response = await fetch(`/api/exercises?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`${t("loadFailed")}: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      setQuestions(result.exercises);
+      setCurrentIndex(0);
+      setSelected(null);
+      setScore({ correct: 0, total: 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [maxStrokes, questionCount, t]);
+
+  useEffect(() => {
+    loadQuestions();
+  }, [loadQuestions]);
+
+  const currentQuestion = questions[currentIndex];
+
+  // Load stroke data of the current character
+  useEffect(() => {
+    const character = currentQuestion?.character;
+    if (!character || strokeData[character]) return;
+
+    let cancelled = false;
+    fetch(`/api/characters/strokes?char=${encodeURIComponent(character)}`)
+      .then(res => res.ok ? res.json() : { strokeVectors: [] })
+      .then(data => {
+        if (!cancelled) setStrokeData(prev => ({ ...prev, [character]: data.strokeVectors || [] }));
+      })
+      .catch(err => {
+        console.error("Failed to load stroke data:", err);
+        if (!cancelled) setStrokeData(prev => ({ ...prev, [character]: [] }));
+      });
+
+    return () => { cancelled = true; };
+  }, [currentQuestion, strokeData]);
+
+  const outlines = useMemo((): string[] | undefined => {
+    const strokeVectors = currentQuestion ? strokeData[currentQuestion.character] : undefined;
+    if (!strokeVectors) return undefined;
+    return groupStrokes(strokeVectors).map(group => {
+      const sv = group.segments[group.segments.length - 1];
+      return sv.svgPath ?? toSvgPath(sv.pathData, sv.transform);
+    });
+  }, [currentQuestion, strokeData]);
+
+  function handleSelect(strokeNumber: number) {
+    if (selected !== null || !currentQuestion) return;
+    setSelected(strokeNumber);
+    setScore(prev => ({
+      correct: prev.correct + (strokeNumber === currentQuestion.correctAnswer ? 1 : 0),
+      total: prev.total + 1,
+    }));
+  }
+
+  function handleNext() {
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+      setSelected(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <div className="text-6xl mb-4 animate-float">✏️</div>
+        <div className="text-xl text-[var(--color-gray)]">{t("loading")}</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 gap-4">
+        <div className="text-5xl mb-2">😢</div>
+        <div className="text-xl text-[var(--color-coral-dark)]">{t("error")}: {error}</div>
+        <Button onClick={loadQuestions} variant="primary">
+          {t("tryAgain")}
+        </Button>
+      </div>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <div className="text-5xl mb-4">🤔</div>
+        <div className="text-xl text-[var(--color-gray)]">{t("noQuestions")}</div>
+      </div>
+    );
+  }
+
+  const submitted = selected !== null;
+  const isCorrect = submitted && selected === currentQuestion.correctAnswer;
+  const progress = ((currentIndex + 1) / questions.length) * 100;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-3">
+      {/* Progress & Score */}
+      <div className="flex justify-between items-center text-base font-medium text-[var(--color-gray)]">
+        <span>{t("question")} {currentIndex + 1} / {questions.length}</span>
+        <span>{t("score")}: <span className="text-[var(--color-sky)]">{score.correct}</span> / {score.total}</span>
+      </div>
+
+      {/* Progress Bar */}
+      <div className="w-full bg-[var(--color-peach)] rounded-full h-2">
+        <div
+          className="bg-gradient-to-r from-[var(--color-sky)] to-[var(--color-sky-dark)] h-2 rounded-full transition-all duration-300"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <div className="bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_16px_var(--card-shadow)] p-4 md:p-6 space-y-4">
+        <div className="text-center">
+          <div className="text-lg font-bold text-[var(--color-charcoal)]">{t("whichStrokeNext")}</div>
+          <div className="text-sm text-[var(--color-gray)]">{t("strokeOrderQuizDesc")}</div>
+        </div>
+
+        {!outlines ? (
+          <div className="text-center text-sm text-[var(--color-gray)] p-8">{t("loadingData")}</div>
+        ) : (
+          <>
+            {/* Character drawn so far */}
+            <div className="flex flex-col items-center gap-1">
+              <div className="rounded-xl border-2 border-[var(--color-peach)] overflow-hidden">
+                <StrokeCell
+                  outlines={outlines}
+                  drawnStrokes={submitted ? currentQuestion.correctAnswer : currentQuestion.drawnStrokes}
+                  highlight={submitted ? currentQuestion.correctAnswer : undefined}
+                  showGuide
+                  colors={colors}
+                  size={180}
+                />
+              </div>
+              <span className="text-sm text-[var(--color-gray)]">
+                {currentQuestion.drawnStrokes} / {outlines.length} {t("strokes")}
+              </span>
+            </div>
+
+            {/* Candidate strokes */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 justify-items-center">
+              {currentQuestion.candidates.map((strokeNumber, i) => {
+                const isAnswer = strokeNumber === currentQuestion.correctAnswer;
+                const borderClass = !submitted
+                  ? "border-[var(--color-peach)] hover:border-[var(--color-sky)] hover:scale-105"
+                  : isAnswer
+                    ? "border-[var(--color-mint)]"
+                    : strokeNumber === selected
+                      ? "border-[var(--color-coral)]"
+                      : "border-[var(--color-peach)] opacity-60";
+                return (
+                  <button
+                    key={strokeNumber}
+                    onClick={() => handleSelect(strokeNumber)}
+                    disabled={submitted}
+                    className={`rounded-xl border-3 overflow-hidden transition-all ${borderClass}`}
+                    aria-label={`${t("strokeOption")} ${i + 1}`}
+                  >
+                    <StrokeCell
+                      outlines={outlines}
+                      drawnStrokes={currentQuestion.drawnStrokes}
+                      highlight={strokeNumber}
+                      colors={colors}
+                      size={110}
+                    />
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {/* Feedback */}
+        {submitted && (
+          <div
+            className={`p-4 rounded-2xl ${
+              isCorrect
+                ? "bg-[var(--color-mint)]/10 border-2 border-[var(--color-mint)]"
+                : "bg-[var(--color-coral)]/10 border-2 border-[var(--color-coral-light)]"
+            }`}
+          >
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className="text-3xl">{isCorrect ? "🎉" : "😅"}</span>
+                <div className={`text-lg font-bold ${isCorrect ? "text-[var(--color-mint-dark)]" : "text-[var(--color-coral-dark)]"}`}>
+                  {isCorrect ? t("correct") : t("incorrect")}
+                </div>
+              </div>
+              {currentIndex < questions.length - 1 ? (
+                <Button onClick={handleNext} variant="sky" size="md">
+                  {t("nextQuestion")} →
+                </Button>
+              ) : (
+                <Button onClick={loadQuestions} variant="primary" size="md">
+                  {t("playAgain")} 🔄
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Final Score */}
+      {submitted && currentIndex === questions.length - 1 && (
+        <div className="bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_16px_var(--card-shadow)] p-4 text-center">
+          <div className="flex items-center justify-center gap-3">
+            <span className="text-3xl font-bold text-[var(--color-sky)]">{score.correct}/{score.total}</span>
+            <span className="text-lg text-[var(--color-gray)]">
+              {score.correct === score.total ? t("perfect") :
+               score.correct >= score.total * 0.8 ? t("great") :
+               score.correct >= score.total * 0.6 ? t("good") : t("keepGoing")}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useMemo, useRef } from "react";
+import type { StrokeVector } from "@/types/fullCharacter";
+import {
+  CANVAS_SIZE,
+  HINT_AFTER_MISTAKES,
+  checkStroke,
+  getCanvasColors,
+  getGridPath,
+  getStrokeMedians,
+  groupStrokes,
+  scoreCharacter,
+  toSvgPath,
+  type Point,
+  type StrokeIssue,
+} from "@/lib/strokes";
+import type { TranslationKey } from "@/lib/i18n/translations";
+import { useLanguage } from "@/lib/i18n/context";
+import { useTheme } from "@/lib/theme";
+
+interface StrokeWriterProps {
+  strokeVectors: StrokeVector[];
+  character: string;
+  size?: number;
+  /** Called with the character score (0-100) when all strokes are written */
+  onComplete?: (score: number) => void;
+}
+
+type Feedback = "correct" | StrokeIssue;
+
+const FEEDBACK_KEYS: Record<Feedback, TranslationKey> = {
+  correct: "wellDone",
+  order: "traceWrongOrder",
+  direction: "traceWrongDirection",
+  start: "traceWrongStart",
+  position: "traceWrongPosition",
+};
+
+/**
+ * StrokeWriter Component - trace-and-check handwriting practice
+ *
+ * The child writes each stroke over the grey character with a finger,
+ * stylus or mouse. Each stroke is checked for order, direction, start point
+ * and position; after repeated mistakes the expected stroke is shown as a
+ * hint, and the character is scored when all strokes are written.
+ */
+export default function StrokeWriter({
+  strokeVectors,
+  character,
+  size = 220,
+  onComplete,
+}: StrokeWriterProps) {
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const canvasColors = useMemo(() => getCanvasColors(theme), [theme]);
+  const outlines = useMemo(
+    () => groupStrokes(strokeVectors).map(group => {
+      const sv = group.segments[group.segments.length - 1];
+      return sv.svgPath ?? toSvgPath(sv.pathData, sv.transform);
+    }),
+    [strokeVectors]
+  );
+  const medians = useMemo(() => getStrokeMedians(strokeVectors), [strokeVectors]);
+  const totalStrokes = outlines.length;
+
+  // Writing state
+  const [currentStroke, setCurrentStroke] = useState(0);
+  const [mistakes, setMistakes] = useState<number[]>([]);
+  const [drawing, setDrawing] = useState<Point[] | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const isComplete = totalStrokes > 0 && currentStroke >= totalStrokes;
+  const currentMistakes = mistakes[currentStroke] || 0;
+  const showHint = !isComplete && currentMistakes >= HINT_AFTER_MISTAKES;
+  const score = isComplete ? scoreCharacter(mistakes.slice(0, totalStrokes)) : 0;
+
+  // Convert a pointer position to the 1080x1080 stroke data space
+  const toCanvasPoint = (event: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_SIZE,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_SIZE,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (isComplete) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrawing([toCanvasPoint(event)]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawing) return;
+    const point = toCanvasPoint(event);
+    setDrawing(points => (points ? [...points, point] : points));
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    const points = drawing;
+    setDrawing(null);
+
+    // Ignore taps
+    if (points.length < 2) return;
+
+    const result = checkStroke(points, medians, currentStroke);
+    if (result.correct) {
+      setFeedback("correct");
+      setMistakes(m => {
+        const next = [...m];
+        next[currentStroke] = next[currentStroke] || 0;
+        return next;
+      });
+      const nextStroke = currentStroke + 1;
+      setCurrentStroke(nextStroke);
+      if (nextStroke >= totalStrokes) {
+        const finalMistakes = [...mistakes];
+        finalMistakes[currentStroke] = finalMistakes[currentStroke] || 0;
+        onComplete?.(scoreCharacter(finalMistakes.slice(0, totalStrokes)));
+      }
+    } else {
+      setFeedback(result.issues[0]);
+      setMistakes(m => {
+        const next = [...m];
+        next[currentStroke] = (next[currentStroke] || 0) + 1;
+        return next;
+      });
+    }
+  };
+
+  const restart = () => {
+    setCurrentStroke(0);
+    setMistakes([]);
+    setDrawing(null);
+    setFeedback(null);
+  };
+
+  const drawingPath = drawing && drawing.length > 0
+    ? drawing.map((p, i) => `${i === 0 ? "M" : "L"}${Math.round(p.x)} ${Math.round(p.y)}`).join("")
+    : "";
+  const hintStart = showHint ? medians[currentStroke]?.points[0] : undefined;
+
+  const feedbackMessage = isComplete
+    ? `${t("score")}: ${score}`
+    : showHint
+      ? t("traceHint")
+      : feedback ? t(FEEDBACK_KEYS[feedback]) : t("traceInstruction");
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="relative bg-[var(--input-bg)] rounded-xl border-2 border-[var(--color-peach)] overflow-hidden" style={{ width: size, height: size }}>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`}
+          width={size}
+          height={size}
+          className="absolute inset-0 touch-none cursor-crosshair"
+          role="img"
+          aria-label={character}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrawing(null)}
+        >
+          <rect width={CANVAS_SIZE} height={CANVAS_SIZE} fill={canvasColors.background} />
+          <path
+            d={getGridPath("tian")}
+            stroke={canvasColors.grid}
+            strokeWidth={2}
+            strokeDasharray="12 8"
+          />
+
+          {/* Grey character to trace over */}
+          {outlines.map((d, i) => (
+            <path key={`guide-${i}`} d={d} fill={canvasColors.guide} opacity={0.5} />
+          ))}
+
+          {/* Strokes written correctly so far */}
+          {outlines.slice(0, currentStroke).map((d, i) => (
+            <path key={`done-${i}`} d={d} fill={canvasColors.stroke} />
+          ))}
+
+          {/* Hint: expected stroke and its start point */}
+          {showHint && (
+            <>
+              <path d={outlines[currentStroke]} fill={canvasColors.highlight} opacity={0.6} />
+              {hintStart && (
+                <circle cx={hintStart.x} cy={hintStart.y} r={28} fill={canvasColors.highlight} />
+              )}
+            </>
+          )}
+
+          {/* Stroke being drawn */}
+          {drawingPath && (
+            <path
+              d={drawingPath}
+              stroke={canvasColors.highlight}
+              strokeWidth={48}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+            />
+          )}
+        </svg>
+
+        <div className="absolute top-2 right-2 bg-[var(--card-bg)]/90 rounded-full px-2.5 py-0.5 text-xs font-bold text-[var(--color-gray)]">
+          {Math.min(currentStroke + 1, totalStrokes)}/{totalStrokes}
+        </div>
+      </div>
+
+      <p
+        className={`mt-2 text-sm font-medium text-center ${
+          isComplete || feedback === "correct" ? "text-[var(--color-mint-dark)]" : feedback ? "text-[var(--color-coral)]" : "text-[var(--color-gray)]"
+        }`}
+        aria-live="polite"
+      >
+        {isComplete && (score === 100 ? "🌟 " : "⭐ ")}{feedbackMessage}
+      </p>
+
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          onClick={restart}
+          className="px-4 py-2 rounded-lg bg-[var(--color-coral)] text-white text-sm font-medium hover:bg-[var(--color-coral-dark)] transition-colors"
+        >
+          🔄 {t("tryAgain")}
+        </button>
+      </div>
+    </div>
+  );
+}
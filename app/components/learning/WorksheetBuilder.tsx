@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, useRef, useMemo } from "react";
+import { useLanguage } from "@/lib/i18n/context";
+
+interface WorksheetBuilderProps {
+  /** Initial characters to practise */
+  characters?: string;
+}
+
+/**
+ * WorksheetBuilder Component
+ * 
+ * Lets teachers pick characters and grid options, previews the A4 sheet
+ * from /api/worksheet and prints it (or saves it as PDF) via the browser.
+ */
+export default function WorksheetBuilder({ characters = "明日月" }: WorksheetBuilderProps) {
+  const { t, language } = useLanguage();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  
+  const [chars, setChars] = useState(characters);
+  const [grid, setGrid] = useState<"tian" | "mi">("tian");
+  const [traceCopies, setTraceCopies] = useState(3);
+  const [emptyRows, setEmptyRows] = useState(1);
+
+  const worksheetUrl = useMemo(() => {
+    const params = new URLSearchParams({
+      chars,
+      grid,
+      traceCopies: traceCopies.toString(),
+      emptyRows: emptyRows.toString(),
+      lang: language,
+    });
+    return `/api/worksheet?${params.toString()}`;
+  }, [chars, grid, traceCopies, emptyRows, language]);
+
+  const selectClassName = `h-9 px-2 text-sm border border-[var(--input-border)] rounded-lg 
+                           bg-[var(--input-bg)] text-[var(--color-charcoal)] focus:border-[var(--color-coral)] focus:outline-none`;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-3">
+      {/* Options */}
+      <div className="bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_16px_var(--card-shadow)] p-4">
+        <p className="text-sm text-[var(--color-gray)] mb-3">{t("worksheetDesc")}</p>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-[var(--color-gray)]">
+            {t("worksheetChars")}
+            <input
+              type="text"
+              value={chars}
+              onChange={(e) => setChars(e.target.value)}
+              className="h-9 w-48 px-2 text-lg border border-[var(--input-border)] rounded-lg 
+                       bg-[var(--input-bg)] text-[var(--color-charcoal)] focus:border-[var(--color-coral)] focus:outline-none
+                       hanzi-display"
+            />
+          </label>
+          
+          <label className="flex flex-col gap-1 text-xs text-[var(--color-gray)]">
+            {t("worksheetGrid")}
+            <select
+              value={grid}
+              onChange={(e) => setGrid(e.target.value as "tian" | "mi")}
+              className={selectClassName}
+            >
+              <option value="tian">{t("gridTian")}</option>
+              <option value="mi">{t("gridMi")}</option>
+            </select>
+          </label>
+          
+          <label className="flex flex-col gap-1 text-xs text-[var(--color-gray)]">
+            {t("traceCopies")}
+            <select
+              value={traceCopies}
+              onChange={(e) => setTraceCopies(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {[0, 1, 2, 3, 4, 5, 10].map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          
+          <label className="flex flex-col gap-1 text-xs text-[var(--color-gray)]">
+            {t("emptyRows")}
+            <select
+              value={emptyRows}
+              onChange={(e) => setEmptyRows(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {[0, 1, 2, 3].map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          
+          <button
+            onClick={() => iframeRef.current?.contentWindow?.print()}
+            disabled={!chars.trim()}
+            className="h-9 px-4 rounded-lg bg-[var(--color-coral)] text-white text-sm font-medium 
+                     hover:bg-[var(--color-coral-dark)] transition-colors disabled:opacity-50"
+          >
+            🖨️ {t("printWorksheet")}
+          </button>
+        </div>
+      </div>
+
+      {/* A4 preview */}
+      {chars.trim() && (
+        <div className="bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_16px_var(--card-shadow)] overflow-auto">
+          <iframe
+            ref={iframeRef}
+            src={worksheetUrl}
+            title={t("worksheet")}
+            className="w-[230mm] h-[297mm] mx-auto block border-0"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useLanguage } from "@/lib/i18n/context";
+import type { TranslationKey } from "@/lib/i18n/translations";
+import { ROMANIZATIONS, type Romanization } from "@/lib/jyutping";
+
+interface RomanizationSwitcherProps {
+  /** Compact mode - smaller pill-shaped select */
+  compact?: boolean;
+}
+
+const ROMANIZATION_LABELS: Record<Romanization, TranslationKey> = {
+  jyutping: "romanizationJyutping",
+  yale: "romanizationYale",
+  yaleNumbered: "romanizationYaleNumbered",
+  ipa: "romanizationIpa",
+};
+
+export default function RomanizationSwitcher({ compact = false }: RomanizationSwitcherProps) {
+  const { romanization, setRomanization, t } = useLanguage();
+
+  return (
+    <select
+      value={romanization}
+      onChange={(e) => setRomanization(e.target.value as Romanization)}
+      title={t("romanization")}
+      aria-label={t("romanization")}
+      className={compact
+        ? "bg-white/80 rounded-full px-2 py-1 text-xs font-medium text-[#636E72] shadow-sm focus:outline-none"
+        : "px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-[#636E72] border border-[#E8E0D8] focus:outline-none"
+      }
+    >
+      {ROMANIZATIONS.map((system) => (
+        <option key={system} value={system}>
+          {t(ROMANIZATION_LABELS[system])}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -5,12 +5,14 @@ import Link from "next/link";
 import { Suspense } from "react";
 import DecompositionPlay from "@/app/components/learning/DecompositionPlay";
 import { useLanguage } from "@/lib/i18n/context";
+import { getStageParam } from "@/lib/data/stage";
+import type { WordStage } from "@/types/fullCharacter";
 
 function DecomposeContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const char = searchParams.get("char") || "明";
-  const grade = (searchParams.get("grade") as "KS1" | "KS2") || "KS1";
+  const stage: WordStage = getStageParam(searchParams) ?? "1";
   const { t } = useLanguage();
 
   return (
@@ -32,26 +34,26 @@ function DecomposeContent() {
             </h1>
           </div>
           <select
-            value={grade}
+            value={stage}
             onChange={(e) => {
-              const newGrade = e.target.value as "KS1" | "KS2";
-              router.push(`/learn/decompose?char=${char}&grade=${newGrade}`);
+              const newStage = e.target.value as WordStage;
+              router.push(`/learn/decompose?char=${char}&stage=${newStage}`);
             }}
             className="px-3 py-2 text-sm border-2 border-[var(--color-peach)] rounded-xl 
                      bg-[var(--card-bg)] text-[var(--color-charcoal)]
                      focus:ring-2 focus:ring-[var(--color-mint)]/30 focus:border-[var(--color-mint)]
                      cursor-pointer"
           >
-            <option value="KS1">{t("stage1")}</option>
-            <option value="KS2">{t("stage2")}</option>
+            <option value="1">{t("stage1")}</option>
+            <option value="2">{t("stage2")}</option>
           </select>
         </div>
 
         <DecompositionPlay 
           character={char} 
-          grade={grade}
+          stage={stage}
           onCharacterChange={(newChar) => {
-            router.push(`/learn/decompose?char=${newChar}&grade=${grade}`);
+            router.push(`/learn/decompose?char=${newChar}&stage=${stage}`);
           }}
         />
       </div>
@@ -5,11 +5,13 @@ import Link from "next/link";
 import { Suspense } from "react";
 import DictationExercise from "@/app/components/learning/DictationExercise";
 import { useLanguage } from "@/lib/i18n/context";
+import { getStageParam } from "@/lib/data/stage";
+import type { WordStage } from "@/types/fullCharacter";
 
 function DictationContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
-  const grade = (searchParams.get("grade") as "KS1" | "KS2") || "KS1";
+  const stage: WordStage = getStageParam(searchParams) ?? "1";
   const { t } = useLanguage();
 
   return (
@@ -31,22 +33,22 @@ function DictationContent() {
             </h1>
           </div>
           <select
-            value={grade}
+            value={stage}
             onChange={(e) => {
-              const newGrade = e.target.value as "KS1" | "KS2";
-              router.push(`/learn/dictation?grade=${newGrade}`);
+              const newStage = e.target.value as WordStage;
+              router.push(`/learn/dictation?stage=${newStage}`);
             }}
             className="px-3 py-2 text-sm border-2 border-[var(--color-peach)] rounded-xl 
                      bg-[var(--card-bg)] text-[var(--color-charcoal)]
                      focus:ring-2 focus:ring-[var(--color-golden)]/30 focus:border-[var(--color-golden)]
                      cursor-pointer"
           >
-            <option value="KS1">{t("stage1")}</option>
-            <option value="KS2">{t("stage2")}</option>
+            <option value="1">{t("stage1")}</option>
+            <option value="2">{t("stage2")}</option>
           </select>
         </div>
 
-        <DictationExercise grade={grade} />
+        <DictationExercise stage={stage} />
       </div>
     </div>
   );
@@ -0,0 +1,78 @@
+"use client";
+
+import { useSearchParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Suspense } from "react";
+import StrokeOrderQuiz from "@/app/components/learning/StrokeOrderQuiz";
+import { useLanguage } from "@/lib/i18n/context";
+
+const MAX_STROKE_OPTIONS = [6, 10, 15];
+
+function StrokeOrderContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const maxStrokesParam = parseInt(searchParams.get("maxStrokes") || "", 10);
+  const maxStrokes = isNaN(maxStrokesParam) ? undefined : maxStrokesParam;
+  const { t } = useLanguage();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[var(--background-gradient-from)] via-[var(--background-gradient-via)] to-[var(--background-gradient-to)]">
+      <div className="container mx-auto px-4 py-3 md:py-4">
+        {/* Compact Header */}
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <div className="flex items-center gap-2">
+            <Link
+              href="/"
+              className="text-base text-[var(--color-coral)] hover:text-[var(--color-coral-dark)] font-medium"
+            >
+              {t("backToHome")}
+            </Link>
+            <span className="text-[var(--color-gray-light)]">|</span>
+            <span className="text-2xl">✏️</span>
+            <h1 className="text-xl md:text-2xl font-bold text-[var(--color-charcoal)]">
+              {t("strokeOrderQuiz")}
+            </h1>
+          </div>
+          <select
+            value={maxStrokes ?? ""}
+            onChange={(e) => {
+              const value = e.target.value;
+              router.push(value ? `/learn/stroke-order?maxStrokes=${value}` : "/learn/stroke-order");
+            }}
+            aria-label={t("maxStrokesOption")}
+            className="px-3 py-2 text-sm border-2 border-[var(--color-peach)] rounded-xl 
+                     bg-[var(--card-bg)] text-[var(--color-charcoal)]
+                     focus:ring-2 focus:ring-[var(--color-sky)]/30 focus:border-[var(--color-sky)]
+                     cursor-pointer"
+          >
+            <option value="">{t("all")}</option>
+            {MAX_STROKE_OPTIONS.map(n => (
+              <option key={n} value={n}>≤ {n} {t("strokesUnit")}</option>
+            ))}
+          </select>
+        </div>
+
+        <StrokeOrderQuiz maxStrokes={maxStrokes} />
+      </div>
+    </div>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[var(--background-gradient-from)] via-[var(--background-gradient-via)] to-[var(--background-gradient-to)] flex items-center justify-center">
+      <div className="text-center">
+        <div className="text-5xl mb-3 animate-float">✏️</div>
+        <div className="text-lg text-[var(--color-gray)]">Loading...</div>
+      </div>
+    </div>
+  );
+}
+
+export default function StrokeOrderPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <StrokeOrderContent />
+    </Suspense>
+  );
+}
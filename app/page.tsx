@@ -1,7 +1,9 @@
 "use client";
 
+import Link from "next/link";
 import { ActivityCard } from "@/app/components/ui/Card";
 import LanguageSwitcher from "@/app/components/ui/LanguageSwitcher";
+import RomanizationSwitcher from "@/app/components/ui/RomanizationSwitcher";
 import ThemeSwitcher from "@/app/components/ui/ThemeSwitcher";
 import { useLanguage } from "@/lib/i18n/context";
 
@@ -14,6 +16,7 @@ export default function Home() {
         {/* Settings - Top Right */}
         <div className="flex justify-end items-center gap-2 mb-2">
           <ThemeSwitcher compact />
+          <RomanizationSwitcher compact />
           <LanguageSwitcher compact />
         </div>
 
@@ -62,6 +65,39 @@ export default function Home() {
           />
         </div>
 
+        {/* More tools */}
+        <div className="max-w-4xl mx-auto flex flex-wrap items-center justify-center gap-2 mb-6 text-sm">
+          <span className="text-[var(--color-gray)]">{t("moreTools")}:</span>
+          <Link
+            href="/learn/worksheet"
+            className="px-3 py-1.5 rounded-full bg-[var(--card-bg)] border border-[var(--card-border)] 
+                     text-[var(--color-charcoal)] hover:border-[var(--color-coral-light)] transition-colors"
+          >
+            🖨️ {t("worksheet")}
+          </Link>
+          <Link
+            href="/learn/stroke-order"
+            className="px-3 py-1.5 rounded-full bg-[var(--card-bg)] border border-[var(--card-border)] 
+                     text-[var(--color-charcoal)] hover:border-[var(--color-sky-light)] transition-colors"
+          >
+            ✏️ {t("strokeOrderQuiz")}
+          </Link>
+          <Link
+            href="/learn/phonetic"
+            className="px-3 py-1.5 rounded-full bg-[var(--card-bg)] border border-[var(--card-border)] 
+                     text-[var(--color-charcoal)] hover:border-[var(--color-mint-light)] transition-colors"
+          >
+            🎵 {t("phoneticSeries")}
+          </Link>
+          <Link
+            href="/learn/radicals"
+            className="px-3 py-1.5 rounded-full bg-[var(--card-bg)] border border-[var(--card-border)] 
+                     text-[var(--color-charcoal)] hover:border-[var(--color-mint-light)] transition-colors"
+          >
+            🧩 {t("radicalBrowser")}
+          </Link>
+        </div>
+
         {/* How to Start Section - Compact */}
         <div className="max-w-4xl mx-auto bg-[var(--card-bg)] rounded-2xl shadow-[0_4px_20px_var(--card-shadow)] border border-[var(--card-border)] p-4 md:p-6">
           <h2 className="text-xl md:text-2xl font-bold mb-4 text-[var(--color-charcoal)] text-center">
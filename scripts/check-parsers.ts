@@ -0,0 +1,234 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check the Jyutping parser, matcher and romanization, and the EaselJS path
+ * decoder, against hand-written cases
+ *
+ * The Jyutping cases cover the LSHK edge cases: "gw"/"kw"/"ng" initials
+ * against "g"/"k"/"n", null initials, the syllabic nasals m and ng (alone or
+ * after h only), and the changed-tone notations "sik6-2", "sik6*2" and
+ * "maa1*". Stray input such as a tone on its own ("si 1") is rejected.
+ *
+ * The path decoder is also checked by re-encoding the stroke paths of
+ * data/characters, which has to give back the same path data.
+ *
+ * Usage:
+ *   npm run check:parsers
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import {
+  formatSyllable,
+  matchesJyutping,
+  parseJyutping,
+  parseJyutpingQuery,
+  parseSyllable,
+  splitSyllables,
+  toIpa,
+  toYale,
+  toYaleNumbered,
+  type JyutpingMatchMode,
+} from '../src/lib/jyutping';
+import { decodePath, encodePath, toSvgPath } from '../src/lib/strokes/pathDecoder';
+import type { StrokeVector } from '../src/types/fullCharacter';
+
+/** Syllable → "initial final tone[-changed tone]", or null when invalid */
+const SYLLABLES: Record<string, string | null> = {
+  'si1': 's i 1',
+  'SI1': 's i 1',
+  'gwong2': 'gw ong 2',
+  'kwan1': 'kw an 1',
+  'gong2': 'g ong 2',
+  'ngo5': 'ng o 5',
+  'naa4': 'n aa 4',
+  'aa3': '- aa 3',
+  'oi3': '- oi 3',
+  'jyu4': 'j yu 4',
+  'zoeng1': 'z oeng 1',
+  'ceoi3': 'c eoi 3',
+  'syut3': 's yut 3',
+  'deu6': 'd eu 6',
+  'm4': '- m 4',
+  'hm4': 'h m 4',
+  'ng5': '- ng 5',
+  'hng6': 'h ng 6',
+  'si': 's i -',
+  'sik6-2': 's ik 6-2',
+  'sik6*2': 's ik 6-2',
+  'maa1*': 'm aa 1-0',
+  'si7': null,
+  'si0': null,
+  'sik6-7': null,
+  'gm4': null,
+  'sng1': null,
+  'zh1': null,
+  'xyz': null,
+  '': null,
+};
+
+/** Input → syllables, or null when rejected */
+const SPLITS: Record<string, string[] | null> = {
+  'hang4 jan4': ['hang4', 'jan4'],
+  'hang4jan4': ['hang4', 'jan4'],
+  '  si1  ': ['si1'],
+  'sik6-2jan4': ['sik6-2', 'jan4'],
+  'maa1*maa1': ['maa1*', 'maa1'],
+  'si 1': null,
+  '1': null,
+  'si1, si2': null,
+  'si1/si2': null,
+};
+
+/** Whole strings: number of syllables, or null when invalid */
+const STRINGS: Record<string, number | null> = {
+  'hang4jan4dou6': 3,
+  'hang4 jan4': 2,
+  'hang4 xx1': null,
+  'si 1': null,
+  '': null,
+};
+
+/** [query, mode, reading, matches] */
+const MATCHES: [string, JyutpingMatchMode, string, boolean][] = [
+  ['si', 'exact', 'si1', true],
+  ['si', 'exact', 'si6', true],
+  ['si', 'exact', 'sik1', false],
+  ['si1', 'exact', 'si1', true],
+  ['si1', 'exact', 'si6', false],
+  ['si1', 'toneless', 'si6', true],
+  ['si1', 'toneless', 'sik1', false],
+  ['gw', 'initial', 'gwong2', true],
+  ['gw', 'initial', 'gong2', false],
+  ['gwong2', 'initial', 'gwaa1', true],
+  ['ng', 'initial', 'ngo5', true],
+  ['ng', 'initial', 'ng5', false],
+  ['ng', 'final', 'ng5', true],
+  ['ng', 'final', 'ngo5', false],
+  ['ik', 'final', 'sik1', true],
+  ['ik', 'final', 'si1', false],
+  ['m', 'final', 'hm4', true],
+  ['sik6-2', 'exact', 'sik6', true],
+  ['si 1', 'exact', 'si1', false],
+];
+
+/** Queries the /api/characters route rejects with 400 */
+const INVALID_QUERIES: [string, JyutpingMatchMode][] = [
+  ['si 1', 'exact'],
+  ['hang4jan4', 'exact'],
+  ['gw', 'exact'],
+  ['xyz', 'initial'],
+  ['si1!', 'toneless'],
+];
+
+/** [jyutping, Yale, numbered Yale, IPA] */
+const ROMANIZATIONS: [string, string, string, string][] = [
+  ['si1', 'sī', 'si1', 'siː˥'],
+  ['hang4jan4', 'hàhng yàhn', 'hang4 yan4', 'hɐŋ˨˩ jɐn˨˩'],
+  ['zung1', 'jūng', 'jung1', 't͡sʊŋ˥'],
+  ['ceoi3', 'cheui', 'cheui3', 't͡sʰɵy̯˧'],
+  ['m4', 'm̀h', 'm4', 'm̩˨˩'],
+];
+
+/** [path data, SVG path, offset] */
+const PATHS: [string, string, { x: number; y: number }][] = [
+  ['AAAAA', 'M0 0', { x: 0, y: 0 }],
+  ['AAUAKIAUAA', 'M2 1L4 1', { x: 0, y: 0 }],
+  ['AAUAKIgUgKg', 'M2 1L0 0Z', { x: 0, y: 0 }],
+  ['EBAABAA', 'M409.6 409.6', { x: 0, y: 0 }],
+  ['AAUAK', 'M12 -4', { x: 10, y: -5 }],
+];
+
+/** Malformed path data */
+const BAD_PATHS = ['B', 'I', 'AAU', 'A!AAA'];
+
+function formatParsed(input: string): string | null {
+  const syllable = parseSyllable(input);
+  if (!syllable) return null;
+  const tone = syllable.tone === undefined
+    ? '-'
+    : `${syllable.tone}${syllable.changedTone !== undefined ? `-${syllable.changedTone}` : ''}`;
+  return `${syllable.initial || '-'} ${syllable.final} ${tone}`;
+}
+
+function main() {
+  const failures: string[] = [];
+  let total = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    total++;
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(`${name}: ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`);
+    }
+  };
+
+  for (const [input, expected] of Object.entries(SYLLABLES)) {
+    check(`parseSyllable("${input}")`, formatParsed(input), expected);
+  }
+  for (const input of ['si1', 'sik6-2', 'sik6*2', 'maa1*', 'hng6']) {
+    const syllable = parseSyllable(input);
+    check(`formatSyllable("${input}")`, syllable && formatSyllable(syllable), input.replace('*2', '-2'));
+  }
+  for (const [input, expected] of Object.entries(SPLITS)) {
+    check(`splitSyllables("${input}")`, splitSyllables(input), expected);
+  }
+  for (const [input, expected] of Object.entries(STRINGS)) {
+    check(`parseJyutping("${input}")`, parseJyutping(input)?.length ?? null, expected);
+  }
+  for (const [query, mode, reading, expected] of MATCHES) {
+    check(`matchesJyutping("${reading}", "${query}", ${mode})`, matchesJyutping([reading], query, mode), expected);
+  }
+  for (const [query, mode] of INVALID_QUERIES) {
+    check(`parseJyutpingQuery("${query}", ${mode})`, parseJyutpingQuery(query, mode), null);
+  }
+  for (const [jyutping, yale, yaleNumbered, ipa] of ROMANIZATIONS) {
+    check(`toYale("${jyutping}")`, toYale(jyutping), yale);
+    check(`toYaleNumbered("${jyutping}")`, toYaleNumbered(jyutping), yaleNumbered);
+    check(`toIpa("${jyutping}")`, toIpa(jyutping), ipa);
+  }
+
+  for (const [pathData, svgPath, offset] of PATHS) {
+    check(`toSvgPath("${pathData}")`, toSvgPath(pathData, offset), svgPath);
+    check(`encodePath(decodePath("${pathData}"))`, encodePath(decodePath(pathData)), pathData);
+  }
+  for (const pathData of BAD_PATHS) {
+    let error = null;
+    try {
+      decodePath(pathData);
+    } catch (e) {
+      error = e instanceof Error ? 'Error' : String(e);
+    }
+    check(`decodePath("${pathData}") throws`, error, 'Error');
+  }
+
+  // Every stroke path of the character data survives a decode/encode round
+  // trip; malformed paths (which toSvgPath renders as nothing) are listed
+  const dir = join(process.cwd(), 'data', 'characters');
+  const malformed: string[] = [];
+  let paths = 0;
+  let roundTrips = 0;
+  for (const file of readdirSync(dir)) {
+    const data = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+    for (const sv of (data.strokeVectors || []) as StrokeVector[]) {
+      let commands;
+      try {
+        commands = decodePath(sv.pathData);
+      } catch {
+        malformed.push(`${data.character} stroke ${sv.strokeNumber}`);
+        continue;
+      }
+      paths++;
+      if (encodePath(commands) === sv.pathData) roundTrips++;
+    }
+  }
+  check('stroke paths that round-trip', roundTrips, paths);
+
+  failures.forEach(failure => console.log(`  ${failure}`));
+  if (malformed.length > 0) {
+    console.log(`  malformed path data: ${malformed.join(', ')}`);
+  }
+  console.log(`✓ ${total - failures.length}/${total} checks pass (${roundTrips}/${paths} stroke paths round-trip)`);
+  if (failures.length > 0) process.exitCode = 1;
+}
+
+main();
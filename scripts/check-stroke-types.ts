@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check the stroke type classifier against hand-labelled characters
+ *
+ * Classifies the strokes of basic characters from data/characters and
+ * compares them with their textbook stroke names. Alternatives are separated
+ * by "|" where the stroke data draws a stroke either way (the last stroke of
+ * 木 is a long dot or a 捺 depending on the font).
+ *
+ * The stroke data leaves out some details, so the stroke it draws is
+ * accepted as well: the hooks of 也 and 竹 do not show in the outline, the
+ * 橫鈎 of 你 slants down like a short 橫折 leg, and the 提 of 耳 is as flat
+ * as that of 王.
+ *
+ * Strokes cut short in the stroke data (己, 工) are classified from their
+ * reference strokes in data/sources/reference-strokes.txt, as the index
+ * script does.
+ *
+ * Usage:
+ *   npm run check:strokes
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { classifyStrokes } from '../src/lib/strokes/classify';
+import { parseReferenceStrokes } from '../src/lib/strokes/reference';
+
+const REFERENCE: Record<string, string> = {
+  '一': 'heng',
+  '二': 'heng heng',
+  '三': 'heng heng heng',
+  '十': 'heng shu',
+  '人': 'pie na',
+  '大': 'heng pie na',
+  '小': 'gou dian|pie dian',
+  '木': 'heng shu pie dian|na',
+  '水': 'gou zhe pie na',
+  '火': 'dian pie pie na|dian',
+  '口': 'shu zhe heng',
+  '日': 'shu zhe heng heng',
+  '月': 'pie gou heng heng',
+  '山': 'shu zhe shu',
+  '心': 'dian gou dian dian',
+  '女': 'zhe pie heng',
+  '子': 'zhe gou heng|ti',
+  '手': 'pie heng heng gou',
+  '目': 'shu zhe heng heng heng',
+  '田': 'shu zhe heng shu heng',
+  '土': 'heng shu heng',
+  '上': 'shu heng heng',
+  '下': 'heng shu dian',
+  '中': 'shu zhe heng shu',
+  '工': 'heng shu heng',
+  '王': 'heng heng shu heng|ti',
+  '天': 'heng heng pie na',
+  '了': 'zhe gou',
+  '刀': 'gou pie',
+  '力': 'gou pie',
+  '不': 'heng pie shu dian',
+  '文': 'dian heng pie na',
+  '方': 'dian heng gou pie',
+  '我': 'pie heng gou ti gou pie dian',
+  '也': 'gou|zhe shu gou',
+  '七': 'heng gou',
+  '九': 'pie gou',
+  '你': 'pie shu pie gou|zhe gou pie|dian dian',
+  '好': 'zhe pie heng zhe gou heng|ti',
+  '字': 'dian dian|pie gou zhe gou heng|ti',
+  '犬': 'heng pie na dian',
+  '牛': 'pie heng heng shu',
+  '羊': 'dian pie heng heng heng shu',
+  '石': 'heng pie shu zhe heng',
+  '耳': 'heng shu shu heng heng ti|heng',
+  '禾': 'pie heng shu pie dian|na',
+  '米': 'dian pie heng shu pie dian|na',
+  '竹': 'pie heng shu pie heng gou|shu',
+  '乙': 'gou',
+  '己': 'zhe heng gou',
+  '已': 'zhe heng gou',
+  '巳': 'zhe heng gou',
+  '巴': 'zhe shu heng gou',
+  '干': 'heng heng shu',
+  '巾': 'shu gou shu',
+};
+
+function main() {
+  const dir = join(process.cwd(), 'data', 'characters');
+  const referenceFile = join(process.cwd(), 'data', 'sources', 'reference-strokes.txt');
+  const references = existsSync(referenceFile)
+    ? parseReferenceStrokes(readFileSync(referenceFile, 'utf-8'))
+    : new Map();
+  let matched = 0;
+  let total = 0;
+
+  for (const file of readdirSync(dir)) {
+    const data = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+    const reference = REFERENCE[data.character];
+    if (!reference) continue;
+
+    const types = classifyStrokes(data.strokeVectors || [], references.get(data.character));
+    const expected = reference.split(' ');
+    const misses: string[] = [];
+
+    expected.forEach((names, i) => {
+      total++;
+      if (names.split('|').includes(types[i])) {
+        matched++;
+      } else {
+        misses.push(`${i + 1}: ${names} → ${types[i] ?? '-'}`);
+      }
+    });
+    if (types.length !== expected.length) {
+      misses.push(`${types.length} strokes, expected ${expected.length}`);
+    }
+    if (misses.length > 0) {
+      console.log(`  ${data.character}  ${misses.join(', ')}`);
+    }
+  }
+
+  console.log(`✓ ${matched}/${total} strokes match`);
+}
+
+main();
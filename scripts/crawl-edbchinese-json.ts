@@ -1105,8 +1105,6 @@ async function extractData(html: string, wordId: string, word: string): Promise<
   
   $('table').each((i, table) => {
     const $table = $(table);
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const tableText = $table.text();
     
     // Check if this table contains the section header
     let hasTransliteratedSection = false;
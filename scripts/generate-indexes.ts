@@ -3,24 +3,83 @@
 /**
  * Generate index files for efficient character and word lookup
  * 
- * Character indexes (no stage field - stage applies to words only):
- * - all.json - All characters
+ * Character indexes:
+ * - all.json - All characters, each with the learning stage that first introduces it (stage:
+ *   "1" when it appears in any stage 1 word, otherwise "2" for stage 2 words, else null)
  * - strokes.json - By stroke count (1-32)
- * - radical.json - By radical (organized by radical's stroke count)
+ * - radical.json - By radical, in Kangxi order (by the radical's stroke count), characters
+ *   sorted by residual strokes
+ * - phonetic.json - Phonetic series (聲旁家族): characters sharing a phonetic component,
+ *   with the Jyutping pattern across each series
  * - lexical-lists-hk.json - Characters in HK Lexical Lists (inLexicalListsHK == true)
  * 
  * Word indexes:
  * - stage.json - Words grouped by learning stage (1 = 第一學習階段, 2 = 第二學習階段)
+ * 
+ * Decomposition:
+ * - Reads data/sources/ids.txt (IDS component file, cjkvi-ids format)
+ * - decomposition.json - Components and structure type per character
+ * 
+ * Frequency and difficulty:
+ * - Reads data/sources/frequency.txt (corpus frequency list, <rank>TAB<character>)
+ * - Every character index entry gets frequencyRank (null when not in the list) and a
+ *   difficulty score (0-100) from frequency, stroke count, stage words and structure
+ * 
+ * Visually similar characters (形近字):
+ * - similar.json - Easily confused characters per character, compared by
+ *   rasterized strokes, stroke types and shared components
+ * 
+ * Generated character fields (written back into data/characters/*.json):
+ * - decomposition - Components and structure type from the IDS source, with the
+ *   component of each stroke (strokeComponents) and the radical component
+ * - readings - All readings (多音字) with example words, derived from stage words
+ * - stage1Words[].reading / stage2Words[].reading - Reading of the character in each word
+ * - strokeTypes - Basic stroke type of each stroke (橫、豎、撇...), classified from strokeVectors
+ *   (strokes cut short in strokeVectors from data/sources/reference-strokes.txt, which the
+ *   inferred structure and similar characters use as well)
+ * - inferredStructure - Structure type (左右/上下/包圍...) with a confidence, inferred by
+ *   clustering the stroke bounding boxes; all.json takes the structure type from the
+ *   decomposition where there is one
  */
 
-import { readFileSync, writeFileSync, readdirSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { decomposeIds, parseIdsFile } from '../src/lib/decomposition/ids';
+import { inferStructureType } from '../src/lib/decomposition/structure';
+import { KANGXI_RADICALS, getRadicalInfo, getRadicalStrokeCount } from '../src/lib/decomposition/radicals';
+import { findRadicalComponent, inferComponentStrokeCounts, mapStrokesToComponents } from '../src/lib/decomposition/strokes';
+import {
+  PHONETIC_RELATIONS,
+  getJyutpingPattern,
+  getPhoneticComponent,
+  getPhoneticRelation,
+} from '../src/lib/decomposition/phonetic';
+import { parseSyllable } from '../src/lib/jyutping';
+import { getDifficulty, parseFrequencyFile } from '../src/lib/data/frequency';
+import { deriveReadings, getWordReadings } from '../src/lib/data/readings';
+import { findSimilarCharacters } from '../src/lib/data/similarity';
+import { getStrokeBounds } from '../src/lib/strokes/bounds';
+import { classifyStrokes } from '../src/lib/strokes/classify';
+import { applyReferenceStrokes, parseReferenceStrokes, type ReferenceStroke } from '../src/lib/strokes/reference';
+import { rasterizeStrokes, type Raster } from '../src/lib/strokes/raster';
+import { toStrokeSequence } from '../src/lib/strokes/sequence';
+import type {
+  CharacterDecomposition,
+  InferredStructure,
+  JyutpingPattern,
+  PhoneticRelation,
+  SimilarityIndexEntry,
+  StrokeType,
+  StrokeVector,
+  WordStage,
+} from '../src/types/fullCharacter';
+import type { StructureType } from '../src/types/character';
 
 // ============================================================
 // Types
 // ============================================================
 
-/** Character index entry - no stage field */
+/** Character index entry */
 interface CharacterIndexEntry {
   key: string;
   id: string;
@@ -28,7 +87,27 @@ interface CharacterIndexEntry {
   radical: string;
   strokeCount: number;
   jyutping: string;
+  readings: string[];
   inLexicalListsHK: boolean;
+  strokeSequence: string;
+  wordCount: number;
+  structureType: StructureType;
+  structureConfidence: number;
+  frequencyRank: number | null;
+  difficulty: number;
+  stage: WordStage | null;
+}
+
+/** Member of a phonetic series in phonetic.json, with how its reading relates to the phonetic */
+interface PhoneticSeriesMember extends CharacterIndexEntry {
+  relation: PhoneticRelation;
+}
+
+interface PhoneticSeriesGroup {
+  key: string;
+  phonetic?: CharacterIndexEntry;
+  pattern: JyutpingPattern;
+  entries: PhoneticSeriesMember[];
 }
 
 /** Word index entry for stage.json */
@@ -40,6 +119,28 @@ interface WordIndexEntry {
   character: string;
 }
 
+/** Character reading with example words */
+interface Reading {
+  jyutping: string;
+  words: string[];
+}
+
+/** Decomposition generated from IDS source data */
+interface Decomposition {
+  ids: string;
+  components: string[];
+  structureType: StructureType;
+  strokeComponents?: number[];
+  radicalComponent?: number;
+}
+
+/** Decomposition index entry for decomposition.json */
+interface DecompositionIndexEntry extends Decomposition {
+  key: string;
+  id: string;
+  character: string;
+}
+
 interface CharacterIndexGroup {
   key: string | number;
   entries: CharacterIndexEntry[];
@@ -50,51 +151,6 @@ interface WordIndexGroup {
   entries: WordIndexEntry[];
 }
 
-// ============================================================
-// Radical mapping: radical character -> stroke count
-// ============================================================
-
-const RADICAL_STROKES: { [radical: string]: number } = {
-  // 1 畫
-  '一': 1, '丨': 1, '丶': 1, '丿': 1, '乙': 1, '亅': 1,
-  // 2 畫
-  '二': 2, '亠': 2, '人': 2, '儿': 2, '入': 2, '八': 2, '冂': 2, '冖': 2, '冫': 2, '几': 2, '凵': 2, '刀': 2, '力': 2, '勹': 2, '匕': 2, '匸': 2, '匚': 2, '十': 2, '卜': 2, '卩': 2, '厂': 2, '厶': 2, '又': 2,
-  // 3 畫
-  '口': 3, '囗': 3, '土': 3, '士': 3, '夂': 3, '夕': 3, '大': 3, '女': 3, '子': 3, '宀': 3, '寸': 3, '小': 3, '尢': 3, '尸': 3, '屮': 3, '山': 3, '巛': 3, '工': 3, '己': 3, '巾': 3, '干': 3, '幺': 3, '广': 3, '廴': 3, '廾': 3, '弋': 3, '弓': 3, '彐': 3, '彡': 3, '彳': 3,
-  // 4 畫
-  '心': 4, '戈': 4, '户': 4, '手': 4, '支': 4, '攴': 4, '文': 4, '斗': 4, '斤': 4, '方': 4, '无': 4, '日': 4, '曰': 4, '月': 4, '木': 4, '欠': 4, '止': 4, '歹': 4, '殳': 4, '毋': 4, '比': 4, '毛': 4, '氏': 4, '气': 4, '水': 4, '火': 4, '爪': 4, '父': 4, '爻': 4, '爿': 4, '片': 4, '牙': 4, '牛': 4, '犬': 4,
-  // 5 畫
-  '玄': 5, '玉': 5, '瓜': 5, '瓦': 5, '甘': 5, '生': 5, '用': 5, '田': 5, '疋': 5, '疒': 5, '癶': 5, '白': 5, '皮': 5, '皿': 5, '目': 5, '矛': 5, '矢': 5, '石': 5, '示': 5, '禸': 5, '禾': 5, '穴': 5, '立': 5,
-  // 6 畫
-  '竹': 6, '米': 6, '糸': 6, '缶': 6, '网': 6, '羊': 6, '羽': 6, '老': 6, '而': 6, '耒': 6, '耳': 6, '聿': 6, '肉': 6, '臣': 6, '自': 6, '至': 6, '臼': 6, '舌': 6, '舛': 6, '舟': 6, '艮': 6, '色': 6, '艸': 6, '虍': 6, '虫': 6, '血': 6, '行': 6, '衣': 6, '襾': 6,
-  // 7 畫
-  '見': 7, '角': 7, '言': 7, '谷': 7, '豆': 7, '豕': 7, '豸': 7, '貝': 7, '赤': 7, '走': 7, '足': 7, '身': 7, '車': 7, '辛': 7, '辰': 7, '辵': 7, '邑': 7, '酉': 7, '釆': 7, '里': 7,
-  // 8 畫
-  '金': 8, '長': 8, '門': 8, '阜': 8, '隶': 8, '隹': 8, '雨': 8, '青': 8, '非': 8,
-  // 9 畫
-  '面': 9, '革': 9, '韋': 9, '韭': 9, '音': 9, '頁': 9, '風': 9, '飛': 9, '食': 9, '首': 9, '香': 9,
-  // 10 畫
-  '馬': 10, '骨': 10, '高': 10, '髟': 10, '鬥': 10, '鬯': 10, '鬼': 10,
-  // 11 畫
-  '魚': 11, '鳥': 11, '鹵': 11, '鹿': 11, '麥': 11, '麻': 11,
-  // 12 畫
-  '黃': 12, '黍': 12, '黑': 12,
-  // 13 畫
-  '黽': 13, '鼎': 13, '鼓': 13, '鼠': 13,
-  // 14 畫
-  '鼻': 14, '齊': 14,
-  // 15 畫
-  '齒': 15,
-  // 16 畫
-  '龍': 16,
-  // 18 畫
-  '龜': 18,
-};
-
-function getRadicalStrokeCount(radical: string): number {
-  return RADICAL_STROKES[radical] || 0;
-}
-
 // ============================================================
 // Data loading
 // ============================================================
@@ -104,9 +160,11 @@ interface Word {
   jyutping?: string;
   pinyin?: string;
   stage?: string;
+  reading?: string;
 }
 
 interface LoadedCharacter {
+  file: string;
   id: string;
   character: string;
   radical?: string;
@@ -115,19 +173,28 @@ interface LoadedCharacter {
   inLexicalListsHK: boolean;
   stage1Words?: Word[];
   stage2Words?: Word[];
+  decomposition?: Decomposition;
+  readings?: Reading[];
+  strokeTypes?: StrokeType[];
+  inferredStructure?: InferredStructure;
+  raster?: Raster;
+  frequencyRank?: number;
+  stage?: WordStage;
 }
 
+const CHARACTERS_DIR = join(process.cwd(), 'data', 'characters');
+
 function loadAllCharacters(): LoadedCharacter[] {
-  const charactersDir = join(process.cwd(), 'data', 'characters');
-  const files = readdirSync(charactersDir).filter(f => f.endsWith('.json')).sort();
+  const files = readdirSync(CHARACTERS_DIR).filter(f => f.endsWith('.json')).sort();
   
   const characters: LoadedCharacter[] = [];
   
   for (const file of files) {
     try {
-      const content = readFileSync(join(charactersDir, file), 'utf-8');
+      const content = readFileSync(join(CHARACTERS_DIR, file), 'utf-8');
       const data = JSON.parse(content);
       characters.push({
+        file,
         id: data.id,
         character: data.character || data.word,
         radical: data.radical,
@@ -136,6 +203,7 @@ function loadAllCharacters(): LoadedCharacter[] {
         inLexicalListsHK: data.inLexicalListsHK === true,
         stage1Words: data.stage1Words,
         stage2Words: data.stage2Words,
+        strokeTypes: data.strokeTypes,
       });
     } catch (error) {
       console.error(`Error loading ${file}:`, error);
@@ -145,20 +213,318 @@ function loadAllCharacters(): LoadedCharacter[] {
   return characters;
 }
 
+/**
+ * Apply an update to a character file, writing it back only if it changed
+ */
+function updateCharacterFile(char: LoadedCharacter, update: (data: Record<string, unknown>) => void): boolean {
+  const filePath = join(CHARACTERS_DIR, char.file);
+  const content = readFileSync(filePath, 'utf-8');
+  const data = JSON.parse(content);
+  
+  update(data);
+  
+  const updated = JSON.stringify(data, null, 2);
+  if (updated === content) {
+    return false;
+  }
+  writeFileSync(filePath, updated, 'utf-8');
+  return true;
+}
+
+// ============================================================
+// Decomposition (IDS source data)
+// ============================================================
+
+const IDS_SOURCE_FILE = join(process.cwd(), 'data', 'sources', 'ids.txt');
+
+function loadIdsSource(): Map<string, string> {
+  if (!existsSync(IDS_SOURCE_FILE)) {
+    console.warn(`IDS source not found: ${IDS_SOURCE_FILE}`);
+    return new Map();
+  }
+  return parseIdsFile(readFileSync(IDS_SOURCE_FILE, 'utf-8'));
+}
+
+// ============================================================
+// Reference strokes (strokes cut short in the stroke data)
+// ============================================================
+
+const REFERENCE_STROKES_FILE = join(process.cwd(), 'data', 'sources', 'reference-strokes.txt');
+
+function loadReferenceStrokes(): Map<string, ReferenceStroke[]> {
+  if (!existsSync(REFERENCE_STROKES_FILE)) {
+    console.warn(`Reference strokes not found: ${REFERENCE_STROKES_FILE}`);
+    return new Map();
+  }
+  return parseReferenceStrokes(readFileSync(REFERENCE_STROKES_FILE, 'utf-8'));
+}
+
+// ============================================================
+// Frequency ranks (corpus frequency list)
+// ============================================================
+
+const FREQUENCY_SOURCE_FILE = join(process.cwd(), 'data', 'sources', 'frequency.txt');
+
+function loadFrequencySource(): Map<string, number> {
+  if (!existsSync(FREQUENCY_SOURCE_FILE)) {
+    console.warn(`Frequency list not found: ${FREQUENCY_SOURCE_FILE}`);
+    return new Map();
+  }
+  return parseFrequencyFile(readFileSync(FREQUENCY_SOURCE_FILE, 'utf-8'));
+}
+
+/**
+ * Attach frequency ranks to characters
+ */
+function attachFrequencyRanks(characters: LoadedCharacter[], ranks: Map<string, number>): number {
+  let count = 0;
+  characters.forEach(char => {
+    char.frequencyRank = ranks.get(char.character);
+    if (char.frequencyRank !== undefined) count++;
+  });
+  return count;
+}
+
+/**
+ * Attach decompositions to characters
+ */
+function attachDecompositions(characters: LoadedCharacter[], idsMap: Map<string, string>): number {
+  let count = 0;
+  
+  characters.forEach(char => {
+    const ids = idsMap.get(char.character);
+    const decomposition = ids ? decomposeIds(char.character, ids) : null;
+    if (ids && !decomposition) {
+      console.warn(`  Malformed IDS for ${char.character}: ${ids}`);
+    }
+    char.decomposition = decomposition || undefined;
+    if (decomposition) count++;
+  });
+  
+  return count;
+}
+
+/**
+ * Get the stroke count of every component, learning counts of components
+ * that are not characters (氵, 辶...) from the decomposed characters
+ */
+function getComponentStrokeCounts(characters: LoadedCharacter[]): Map<string, number> {
+  const known = new Map<string, number>(KANGXI_RADICALS.map(info => [info.radical, info.strokes]));
+  characters.forEach(char => {
+    if (char.strokeCount) known.set(char.character, char.strokeCount);
+  });
+  
+  const decompositions = characters
+    .filter(char => char.decomposition && char.strokeCount)
+    .map(char => ({ components: char.decomposition!.components, strokeCount: char.strokeCount! }));
+  return inferComponentStrokeCounts(decompositions, known);
+}
+
+/**
+ * Map the strokes of a character to its components, and find the radical component
+ */
+function mapComponentStrokes(
+  char: LoadedCharacter,
+  strokeVectors: StrokeVector[] | undefined,
+  componentStrokeCounts: Map<string, number>
+): void {
+  const decomposition = char.decomposition;
+  if (!decomposition || !strokeVectors || strokeVectors.length === 0) return;
+  
+  const counts = decomposition.components.map(c => componentStrokeCounts.get(c) ?? 0);
+  const strokeComponents = mapStrokesToComponents(
+    decomposition as CharacterDecomposition,
+    counts,
+    getStrokeBounds(strokeVectors)
+  );
+  if (!strokeComponents) return;
+  
+  decomposition.strokeComponents = strokeComponents;
+  const radicalComponent = decomposition.components.length > 1
+    ? findRadicalComponent(char.radical || '', decomposition.components)
+    : -1;
+  if (radicalComponent >= 0) {
+    decomposition.radicalComponent = radicalComponent;
+  }
+}
+
+function generateDecompositionIndex(characters: LoadedCharacter[]): DecompositionIndexEntry[] {
+  return characters
+    .filter(char => char.decomposition)
+    .map(char => ({
+      key: char.id,
+      id: char.id,
+      character: char.character,
+      ids: char.decomposition!.ids,
+      components: char.decomposition!.components,
+      structureType: char.decomposition!.structureType,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ============================================================
+// Visually similar characters (形近字)
+// ============================================================
+
+function generateSimilarityIndex(characters: LoadedCharacter[]): SimilarityIndexEntry[] {
+  const shapes = characters
+    .filter(char => char.raster && char.strokeTypes)
+    .map(char => ({
+      id: char.id,
+      character: char.character,
+      raster: char.raster!,
+      strokeTypes: char.strokeTypes!,
+      components: char.decomposition && char.decomposition.components.length > 1
+        ? char.decomposition.components
+        : undefined,
+    }));
+  const similar = findSimilarCharacters(shapes);
+  
+  return characters
+    .filter(char => similar.has(char.id))
+    .map(char => ({
+      key: char.id,
+      id: char.id,
+      character: char.character,
+      similar: similar.get(char.id)!,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// ============================================================
+// Learning stage (first stage whose words use the character)
+// ============================================================
+
+/**
+ * Attach the stage that first introduces each character: stage 1 when any
+ * stage 1 word uses it (including words listed under other characters, e.g.
+ * 媽 in 爸爸媽媽), otherwise stage 2 when a stage 2 word does
+ */
+function attachStages(characters: LoadedCharacter[]): { [stage: string]: number } {
+  const usedIn: { [stage in WordStage]: Set<string> } = { '1': new Set(), '2': new Set() };
+  characters.forEach(char => {
+    (char.stage1Words || []).forEach(word => Array.from(word.word).forEach(c => usedIn['1'].add(c)));
+    (char.stage2Words || []).forEach(word => Array.from(word.word).forEach(c => usedIn['2'].add(c)));
+  });
+  
+  const counts: { [stage: string]: number } = {};
+  characters.forEach(char => {
+    char.stage = usedIn['1'].has(char.character) ? '1' : usedIn['2'].has(char.character) ? '2' : undefined;
+    const key = char.stage ?? 'none';
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+}
+
+// ============================================================
+// Readings (多音字)
+// ============================================================
+
+/**
+ * Derive all readings of each character from its stage words
+ */
+function attachReadings(characters: LoadedCharacter[]): number {
+  let polyphonicCount = 0;
+  
+  characters.forEach(char => {
+    const words = [...(char.stage1Words || []), ...(char.stage2Words || [])];
+    char.readings = deriveReadings(char.character, char.jyutping || '', words);
+    if (char.readings.length > 1) polyphonicCount++;
+  });
+  
+  return polyphonicCount;
+}
+
+/**
+ * Annotate each word with the reading of the character within it
+ */
+function annotateWordReadings(character: string, words: unknown): void {
+  if (!Array.isArray(words)) return;
+  
+  (words as Word[]).forEach(word => {
+    const [reading] = getWordReadings(character, word);
+    if (reading) {
+      word.reading = reading;
+    } else {
+      delete word.reading;
+    }
+  });
+}
+
+// ============================================================
+// Write generated fields
+// ============================================================
+
+/**
+ * Write generated fields back into the character files
+ */
+function writeGeneratedFields(characters: LoadedCharacter[], referenceStrokes: Map<string, ReferenceStroke[]>): number {
+  let updatedFiles = 0;
+  const componentStrokeCounts = getComponentStrokeCounts(characters);
+  
+  characters.forEach(char => {
+    const changed = updateCharacterFile(char, data => {
+      const strokeVectors = data.strokeVectors as StrokeVector[] | undefined;
+      
+      mapComponentStrokes(char, strokeVectors, componentStrokeCounts);
+      if (char.decomposition) {
+        data.decomposition = char.decomposition;
+      } else {
+        delete data.decomposition;
+      }
+      
+      data.readings = char.readings;
+      annotateWordReadings(char.character, data.stage1Words);
+      annotateWordReadings(char.character, data.stage2Words);
+      
+      const references = referenceStrokes.get(char.character) || [];
+      const wholeStrokes = strokeVectors && applyReferenceStrokes(strokeVectors, references);
+      
+      char.strokeTypes = strokeVectors && strokeVectors.length > 0 ? classifyStrokes(strokeVectors, references) : undefined;
+      if (char.strokeTypes) {
+        data.strokeTypes = char.strokeTypes;
+      } else {
+        delete data.strokeTypes;
+      }
+      
+      char.inferredStructure = wholeStrokes && wholeStrokes.length > 0 ? inferStructureType(wholeStrokes) : undefined;
+      if (char.inferredStructure) {
+        data.inferredStructure = char.inferredStructure;
+      } else {
+        delete data.inferredStructure;
+      }
+      
+      // Kept in memory only, for the similarity index
+      char.raster = wholeStrokes && wholeStrokes.length > 0 ? rasterizeStrokes(wholeStrokes) : undefined;
+    });
+    if (changed) updatedFiles++;
+  });
+  
+  return updatedFiles;
+}
+
 // ============================================================
-// Character index generators (no stage field)
+// Character index generators
 // ============================================================
 
 function toCharacterEntry(char: LoadedCharacter): CharacterIndexEntry {
-  return {
+  const entry: Omit<CharacterIndexEntry, 'difficulty'> = {
     key: char.id,
     id: char.id,
     character: char.character,
     radical: char.radical || '',
     strokeCount: char.strokeCount || 0,
     jyutping: char.jyutping || '',
+    readings: (char.readings || []).map(r => r.jyutping),
     inLexicalListsHK: char.inLexicalListsHK,
+    strokeSequence: toStrokeSequence(char.strokeTypes || []),
+    wordCount: (char.stage1Words?.length || 0) + (char.stage2Words?.length || 0),
+    structureType: char.decomposition?.structureType || char.inferredStructure?.structureType || '獨體',
+    structureConfidence: char.decomposition ? 1 : char.inferredStructure?.confidence ?? 0,
+    frequencyRank: char.frequencyRank ?? null,
+    stage: char.stage ?? null,
   };
+  return { ...entry, difficulty: getDifficulty(entry) };
 }
 
 function generateAllCharactersIndex(characters: LoadedCharacter[]): CharacterIndexEntry[] {
@@ -216,44 +582,81 @@ function generateRadicalIndex(characters: LoadedCharacter[]): CharacterIndexGrou
     }
   });
   
-  // Group by radical stroke count
-  const byRadicalStrokes: { [strokeCount: number]: { radical: string; entries: CharacterIndexEntry[] }[] } = {};
+  // Radicals by stroke count, then Kangxi number; radicals missing from the
+  // Kangxi table (data errors) go last
+  const order = (radical: string) => getRadicalInfo(radical)?.number ?? Infinity;
+  const radicals = Object.keys(byRadical).sort((a, b) => {
+    const aOrder = order(a);
+    const bOrder = order(b);
+    if (aOrder !== bOrder) return aOrder - bOrder;
+    return a.localeCompare(b);
+  });
+  
+  // Characters by residual strokes (strokes besides the radical)
+  const indexes: CharacterIndexGroup[] = radicals.map(radical => ({
+    key: radical,
+    entries: byRadical[radical].sort((a, b) => a.strokeCount - b.strokeCount || a.id.localeCompare(b.id)),
+  }));
   
-  Object.keys(byRadical).forEach(radical => {
-    const radicalStrokes = getRadicalStrokeCount(radical);
-    if (!byRadicalStrokes[radicalStrokes]) {
-      byRadicalStrokes[radicalStrokes] = [];
+  return indexes;
+}
+
+// ============================================================
+// Phonetic index generator (phonetic.json - phonetic series)
+// ============================================================
+
+/**
+ * Group characters by phonetic component (聲旁家族)
+ *
+ * A character joins the series of the component next to its radical only
+ * when one of its readings rhymes with the phonetic: sharing a component is
+ * not enough (式 has 工 next to 弋 but reads sik1, not gung1). For phonetics
+ * that are not characters of their own (艮), members have to rhyme with the
+ * final most of them share. Series are kept when at least one member is
+ * left, or two for phonetics that are not characters of their own. This
+ * leaves out components combined for their meaning (休, 明).
+ */
+function generatePhoneticIndex(characters: LoadedCharacter[]): PhoneticSeriesGroup[] {
+  const byCharacter = new Map(characters.map(char => [char.character, char]));
+  const families = new Map<string, LoadedCharacter[]>();
+  characters.forEach(char => {
+    const phonetic = char.decomposition ? getPhoneticComponent(char.decomposition) : null;
+    if (phonetic) {
+      families.set(phonetic, [...(families.get(phonetic) || []), char]);
     }
-    byRadicalStrokes[radicalStrokes].push({
-      radical,
-      entries: byRadical[radical].sort((a, b) => a.id.localeCompare(b.id)),
-    });
   });
   
-  // Sort radicals within each stroke count group
-  Object.keys(byRadicalStrokes).forEach(strokeCount => {
-    byRadicalStrokes[parseInt(strokeCount, 10)].sort((a, b) => {
-      const aStrokes = getRadicalStrokeCount(a.radical);
-      const bStrokes = getRadicalStrokeCount(b.radical);
-      if (aStrokes !== bStrokes) return aStrokes - bStrokes;
-      return a.radical.localeCompare(b.radical);
-    });
+  const groups: PhoneticSeriesGroup[] = [];
+  families.forEach((members, key) => {
+    const head = byCharacter.get(key);
+    const phonetic = head ? toCharacterEntry(head) : undefined;
+    const entries = members.map(toCharacterEntry);
+    
+    // Without a reading of the phonetic, members rhyme with the final most of them share
+    const phoneticSyllable = phonetic ? parseSyllable(phonetic.jyutping) : null;
+    const { final: sharedFinal } = getJyutpingPattern(entries.map(e => e.jyutping));
+    const sharedSyllable = entries.map(e => parseSyllable(e.jyutping)).find(syllable => syllable?.final === sharedFinal);
+    const reference = phoneticSyllable || (sharedSyllable ? { final: sharedSyllable.final } : null);
+    if (!reference) return;
+    
+    const related = entries
+      .flatMap(entry => {
+        const relation = getPhoneticRelation(entry.readings.length > 0 ? entry.readings : [entry.jyutping], reference);
+        return relation ? [{ ...entry, relation }] : [];
+      })
+      .sort((a, b) =>
+        PHONETIC_RELATIONS.indexOf(a.relation) - PHONETIC_RELATIONS.indexOf(b.relation) || a.id.localeCompare(b.id)
+      );
+    
+    if (related.length < (phoneticSyllable ? 1 : 2)) return;
+    
+    const pattern = getJyutpingPattern([phonetic?.jyutping, ...related.map(e => e.jyutping)].filter((j): j is string => !!j));
+    groups.push({ key, ...(phonetic ? { phonetic } : {}), pattern, entries: related });
   });
   
-  // Create merged index
-  const indexes: CharacterIndexGroup[] = [];
-  for (let strokeCount = 0; strokeCount <= 18; strokeCount++) {
-    if (byRadicalStrokes[strokeCount]) {
-      byRadicalStrokes[strokeCount].forEach(({ radical, entries }) => {
-        indexes.push({
-          key: radical,
-          entries,
-        });
-      });
-    }
-  }
-  
-  return indexes;
+  // Largest series first
+  const size = (group: PhoneticSeriesGroup) => group.entries.length + (group.phonetic ? 1 : 0);
+  return groups.sort((a, b) => size(b) - size(a) || a.key.localeCompare(b.key));
 }
 
 // ============================================================
@@ -321,13 +724,42 @@ function main() {
   const characters = loadAllCharacters();
   console.log(`Loaded ${characters.length} characters`);
   
+  // Attach decompositions from IDS source data
+  console.log('\nAttaching decompositions...');
+  const idsMap = loadIdsSource();
+  const decomposedCount = attachDecompositions(characters, idsMap);
+  console.log(`  ✓ ${idsMap.size} IDS entries, ${decomposedCount} characters decomposed`);
+  
+  // Derive readings from stage words
+  console.log('\nDeriving readings...');
+  const polyphonicCount = attachReadings(characters);
+  console.log(`  ✓ ${polyphonicCount} polyphonic characters (多音字)`);
+  
+  // First-introduced learning stage from the stage words
+  console.log('\nDeriving learning stages...');
+  const stageCounts = attachStages(characters);
+  console.log(`  ✓ stage 1: ${stageCounts['1'] || 0}, stage 2: ${stageCounts['2'] || 0}, no stage words: ${stageCounts.none || 0}`);
+  
+  // Frequency ranks from the corpus frequency list
+  console.log('\nAttaching frequency ranks...');
+  const rankedCount = attachFrequencyRanks(characters, loadFrequencySource());
+  console.log(`  ✓ ${rankedCount} characters ranked by frequency`);
+  
+  // Write generated fields into character files
+  console.log('\nWriting generated fields...');
+  const referenceStrokes = loadReferenceStrokes();
+  const updatedFiles = writeGeneratedFields(characters, referenceStrokes);
+  console.log(`  ✓ ${updatedFiles} character files updated (${referenceStrokes.size} with reference strokes)`);
+  const inferredCount = characters.filter(char => char.inferredStructure).length;
+  console.log(`  ✓ ${inferredCount} structure types inferred from strokes`);
+  
   const indexesDir = join(process.cwd(), 'data', 'indexes');
   
   // Create indexes directory
   mkdirSync(indexesDir, { recursive: true });
   
   // --------------------------------------------------------
-  // CHARACTER INDEXES (no stage field)
+  // CHARACTER INDEXES
   // --------------------------------------------------------
   
   // 1. All characters index
@@ -384,6 +816,16 @@ function main() {
   }
   console.log(`  ✓ radical.json: ${radicalIndexes.length} radical groups`);
   
+  // 5. Phonetic series index
+  console.log('\nGenerating phonetic series index...');
+  const phoneticIndexes = generatePhoneticIndex(characters);
+  writeFileSync(
+    join(indexesDir, 'phonetic.json'),
+    JSON.stringify({ groups: phoneticIndexes }, null, 2),
+    'utf-8'
+  );
+  console.log(`  ✓ phonetic.json: ${phoneticIndexes.length} phonetic series`);
+  
   // --------------------------------------------------------
   // WORD INDEX (stage.json - words by learning stage)
   // --------------------------------------------------------
@@ -397,6 +839,32 @@ function main() {
   );
   console.log(`  ✓ stage.json: ${wordStageIndexes[0].entries.length} stage 1 words, ${wordStageIndexes[1].entries.length} stage 2 words`);
   
+  // --------------------------------------------------------
+  // DECOMPOSITION INDEX
+  // --------------------------------------------------------
+  
+  console.log('\nGenerating decomposition index...');
+  const decompositionIndex = generateDecompositionIndex(characters);
+  writeFileSync(
+    join(indexesDir, 'decomposition.json'),
+    JSON.stringify({ entries: decompositionIndex }, null, 2),
+    'utf-8'
+  );
+  console.log(`  ✓ decomposition.json: ${decompositionIndex.length} characters`);
+  
+  // --------------------------------------------------------
+  // SIMILARITY INDEX
+  // --------------------------------------------------------
+  
+  console.log('\nGenerating similarity index...');
+  const similarityIndex = generateSimilarityIndex(characters);
+  writeFileSync(
+    join(indexesDir, 'similar.json'),
+    JSON.stringify({ entries: similarityIndex }, null, 2),
+    'utf-8'
+  );
+  console.log(`  ✓ similar.json: ${similarityIndex.length} characters with similar characters`);
+  
   // --------------------------------------------------------
   // SUMMARY
   // --------------------------------------------------------
@@ -412,6 +880,9 @@ function main() {
     stage1WordCount: wordStageIndexes[0].entries.length,
     stage2WordCount: wordStageIndexes[1].entries.length,
     
+    // Decomposition coverage
+    decompositionCount: decompositionIndex.length,
+    
     // Stroke distribution
     strokeCounts: strokeIndexes.map(idx => ({
       strokes: idx.key,
@@ -438,7 +909,10 @@ function main() {
   console.log('  - lexical-lists-hk.json (HK lexical list characters)');
   console.log('  - strokes.json (by stroke count)');
   console.log('  - radical.json (by radical)');
+  console.log('  - phonetic.json (phonetic series)');
   console.log('  - stage.json (words by learning stage)');
+  console.log('  - decomposition.json (components and structure type)');
+  console.log('  - similar.json (visually similar characters)');
   console.log('  - summary.json (statistics)');
 }
 
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import the character frequency list from a word frequency corpus
+ *
+ * Builds data/sources/frequency.txt from a word frequency list of the BCC
+ * corpus (BLCU Chinese Corpus, http://bcc.blcu.edu.cn/, one
+ * `<word>TAB<count>` line per word, in simplified characters):
+ * - Each word is converted to Hong Kong standard forms with OpenCC (cn → hk).
+ *   Converting whole words rather than characters picks the right form where
+ *   one simplified character stands for several (头发 → 頭髮, 发现 → 發現)
+ * - Character counts are the summed counts of the words using them
+ * - Characters are ranked by count, most frequent first
+ *
+ * Usage:
+ *   npm run sources:frequency -- path/to/bcc-words.txt
+ *   tsx scripts/import-frequency.ts path/to/bcc-words.txt [--output path]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import * as OpenCC from 'opencc-js';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const outputIndex = args.indexOf('--output');
+  const output = outputIndex >= 0
+    ? args.splice(outputIndex, 2)[1]
+    : join(process.cwd(), 'data', 'sources', 'frequency.txt');
+  return { input: args[0], output };
+}
+
+/**
+ * Sum word counts into Hong Kong form character counts
+ */
+function countCharacters(content: string): Map<string, number> {
+  const toHongKong = OpenCC.Converter({ from: 'cn', to: 'hk' });
+  const counts = new Map<string, number>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const [word, countColumn] = line.split('\t');
+    const count = parseInt(countColumn, 10);
+    // Skip headers, Latin words and numbers
+    if (!word || isNaN(count) || !/^\p{Script=Han}+$/u.test(word)) continue;
+
+    for (const character of toHongKong(word)) {
+      counts.set(character, (counts.get(character) || 0) + count);
+    }
+  }
+
+  return counts;
+}
+
+function main() {
+  const { input, output } = parseArgs();
+  if (!input) {
+    console.error('Usage: tsx scripts/import-frequency.ts path/to/bcc-words.txt [--output path]');
+    process.exit(1);
+  }
+
+  const counts = countCharacters(readFileSync(input, 'utf-8'));
+  const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+
+  const header = [
+    ';; Character frequency list (字頻表)',
+    ';; Format: <rank>TAB<character>[TAB<count>...], most frequent first; further columns are ignored',
+    ';; Word counts of the BCC corpus (BLCU Chinese Corpus), converted to Hong Kong standard forms',
+    ';; with OpenCC and summed per character, by scripts/import-frequency.ts',
+  ];
+  const lines = ranked.map(([character, count], i) => `${i + 1}\t${character}\t${count}`);
+  writeFileSync(output, [...header, ...lines].join('\n') + '\n', 'utf-8');
+
+  console.log(`✓ ${ranked.length} characters (${output})`);
+}
+
+main();
@@ -0,0 +1,159 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import the IDS source file from cjk-decomp
+ *
+ * Converts cjk-decomp (https://github.com/amake/cjk-decomp, one
+ * `<character>:<type>(<component>,...)` line per character) into the
+ * cjkvi-ids layout read by generate-indexes.ts and writes
+ * data/sources/ids.txt.
+ *
+ * - Layout types map to Ideographic Description Characters (a → ⿰, d → ⿱,
+ *   stl → ⿸...); repetitions (林 ra(木), 品 r3tr(口)) are spelled out
+ * - Unencoded components (numeric IDs) are expanded into their own
+ *   decomposition, so every component is a character
+ * - Characters built by overlapping or modifying strokes (子 lock(了,一),
+ *   心 d/o(𠁼,㇃)), those with single-stroke components (天 d(一,大)) and
+ *   those whose components cannot be expanded into characters are written as
+ *   single components (獨體)
+ *
+ * Usage:
+ *   npm run sources:ids -- path/to/cjk-decomp.txt
+ *   tsx scripts/import-ids.ts path/to/cjk-decomp.txt [--output path]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/** Ideographic Description Character of each layout type, by number of components */
+const LAYOUT_IDC: Record<string, Record<number, string>> = {
+  a: { 2: '⿰', 3: '⿲' },
+  d: { 2: '⿱', 3: '⿳' },
+  s: { 2: '⿴' },
+  st: { 2: '⿵' },
+  sb: { 2: '⿶' },
+  sl: { 2: '⿷' },
+  stl: { 2: '⿸' },
+  str: { 2: '⿹' },
+  sbl: { 2: '⿺' },
+};
+
+/** IDS of each repetition type for a repeated component X */
+const REPETITIONS: Record<string, (x: string) => string> = {
+  ra: x => `⿰${x}${x}`,
+  rd: x => `⿱${x}${x}`,
+  r3a: x => `⿲${x}${x}${x}`,
+  r3d: x => `⿳${x}${x}${x}`,
+  r3tr: x => `⿱${x}⿰${x}${x}`,
+  r4sq: x => `⿱⿰${x}${x}⿰${x}${x}`,
+};
+
+/** Single strokes, which are not puzzle pieces (天 is taught as 獨體, not 一 + 大) */
+const STROKE_PATTERN = /^[一丨丿丶乀乁乙乚乛亅㇀-㇯]$/u;
+
+/** Modifiers for components that are merged (巳 d/m(尸,乚)), overlapped or shared */
+const ATOMIC_MODIFIERS = new Set(['m', 'o', 's']);
+
+/** How deep unencoded components are expanded before giving up (keeps puzzles to a few pieces) */
+const MAX_EXPANSION_DEPTH = 2;
+
+interface Decomposition {
+  type: string;
+  modifier?: string;
+  components: string[];
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const outputIndex = args.indexOf('--output');
+  const output = outputIndex >= 0
+    ? args.splice(outputIndex, 2)[1]
+    : join(process.cwd(), 'data', 'sources', 'ids.txt');
+  return { input: args[0], output };
+}
+
+/**
+ * Parse cjk-decomp lines into a key -> decomposition map
+ */
+function parseCjkDecomp(content: string): Map<string, Decomposition> {
+  const result = new Map<string, Decomposition>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([^:]+):([a-z0-9]+)(?:\/([a-z]+))?\(([^)]*)\)/u);
+    if (!match) continue;
+    const [, key, type, modifier, components] = match;
+    result.set(key, { type, modifier, components: components ? components.split(',') : [] });
+  }
+
+  return result;
+}
+
+/**
+ * Convert the decomposition of a key into an IDS
+ *
+ * @returns The IDS, or null when the key has no description in characters
+ */
+function toIds(key: string, decompositions: Map<string, Decomposition>, depth = 0): string | null {
+  const decomposition = decompositions.get(key);
+  if (!decomposition || depth > MAX_EXPANSION_DEPTH) return null;
+  if (decomposition.modifier && ATOMIC_MODIFIERS.has(decomposition.modifier)) return null;
+
+  const parts: string[] = [];
+  for (const component of decomposition.components) {
+    // Unencoded components are numeric IDs with a decomposition of their own
+    if (/^\d+$/.test(component)) {
+      const part = toIds(component, decompositions, depth + 1);
+      if (!part) return null;
+      parts.push(part);
+      continue;
+    }
+    // Other scripts (katakana コ) and unencodable shapes are not components either
+    if (STROKE_PATTERN.test(component) || !/^\p{Script=Han}$/u.test(component)) return null;
+    parts.push(component);
+  }
+
+  const repeat = REPETITIONS[decomposition.type];
+  if (repeat) {
+    return parts.length === 1 ? repeat(parts[0]) : null;
+  }
+
+  const idc = LAYOUT_IDC[decomposition.type]?.[parts.length];
+  return idc ? idc + parts.join('') : null;
+}
+
+function main() {
+  const { input, output } = parseArgs();
+  if (!input) {
+    console.error('Usage: tsx scripts/import-ids.ts path/to/cjk-decomp.txt [--output path]');
+    process.exit(1);
+  }
+
+  const decompositions = parseCjkDecomp(readFileSync(input, 'utf-8'));
+  const lines: string[] = [];
+  let described = 0;
+
+  for (const key of decompositions.keys()) {
+    // Numeric keys are unencoded components
+    if (/^\d+$/.test(key) || Array.from(key).length !== 1) continue;
+
+    const ids = toIds(key, decompositions);
+    if (ids) described++;
+    const hex = key.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+    lines.push(`U+${hex}\t${key}\t${ids ?? key}`);
+  }
+
+  const codepoint = (line: string) => parseInt(line.slice(2, line.indexOf('\t')), 16);
+  lines.sort((a, b) => codepoint(a) - codepoint(b));
+
+  const header = [
+    ';; Ideographic Description Sequences (IDS) for character decomposition',
+    ';; Format: <codepoint>TAB<character>TAB<IDS>[TAB<IDS>...] (cjkvi-ids compatible)',
+    ';; Alternative sequences may carry region tags, e.g. ⿰日月[GTJKV]',
+    ';; Converted from cjk-decomp (https://github.com/amake/cjk-decomp) by scripts/import-ids.ts',
+  ];
+  writeFileSync(output, [...header, ...lines].join('\n') + '\n', 'utf-8');
+
+  console.log(`✓ ${lines.length} characters, ${described} with components (${output})`);
+}
+
+main();
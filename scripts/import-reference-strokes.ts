@@ -0,0 +1,204 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import reference strokes for strokes cut short in the stroke data
+ *
+ * Some strokes of the stroke data have a single animation segment holding
+ * only the start of the stroke (己 is three short bars). This script finds
+ * them by comparing every single-segment stroke with the same stroke of
+ * hanzi-writer-data (Make Me a Hanzi, https://github.com/skishore/makemeahanzi,
+ * one `<character>.json` file per character with `strokes` outlines and
+ * `medians`) and writes the whole strokes to data/sources/reference-strokes.txt:
+ * - Characters are only compared when both have the same number of strokes
+ * - A stroke is cut short when its outline lies along the reference median
+ *   (so both are the same stroke) but part of the median lies more than
+ *   CUT_SHORT_DISTANCE outside it
+ * - When one single-segment stroke of a character is cut short, all its
+ *   single-segment strokes are written, as they come from the same capture
+ * - Coordinates are converted from the 1024 box with y up to the 1080x1080
+ *   stroke data space, and outlines to the EaselJS encoding
+ * - Medians start after the pen's entry into the stroke (see trimLeadIn)
+ *
+ * Usage:
+ *   npm run sources:strokes -- path/to/hanzi-writer-data
+ *   tsx scripts/import-reference-strokes.ts path/to/hanzi-writer-data [--output path]
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { groupStrokes } from '../src/lib/strokes/groups';
+import { decodePath, encodePath, type PathCommand } from '../src/lib/strokes/pathDecoder';
+import type { Point } from '../src/lib/strokes/trace';
+import type { StrokeVector } from '../src/types/fullCharacter';
+
+/** Distance (stroke data units) outside the outline at which a stroke counts as cut short */
+const CUT_SHORT_DISTANCE = 50;
+
+/** The outline has to lie within this distance of the reference median (stroke orders can differ) */
+const MATCH_DISTANCE = 80;
+
+/** Length of the pen's entry at the start of a median, which is left out */
+const LEAD_IN_LENGTH = 90;
+
+/** Make Me a Hanzi draws in a 1024 box with the baseline at y = 900, y pointing up */
+const SCALE = 1080 / 1024;
+const BASELINE = 900;
+
+interface ReferenceCharacter {
+  strokes: string[];
+  medians: [number, number][][];
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const outputIndex = args.indexOf('--output');
+  const output = outputIndex >= 0
+    ? args.splice(outputIndex, 2)[1]
+    : join(process.cwd(), 'data', 'sources', 'reference-strokes.txt');
+  return { input: args[0], output };
+}
+
+function toDataSpace(x: number, y: number): Point {
+  return {
+    x: Math.round(x * SCALE * 10) / 10,
+    y: Math.round((BASELINE - y) * SCALE * 10) / 10,
+  };
+}
+
+/**
+ * Drop the pen's entry from the start of a median: Make Me a Hanzi medians
+ * begin with a short bend into the stroke (頓筆), which would read as a turn
+ */
+function trimLeadIn(median: Point[]): Point[] {
+  const lengths = [0];
+  median.slice(1).forEach((p, i) => {
+    lengths.push(lengths[i] + Math.hypot(p.x - median[i].x, p.y - median[i].y));
+  });
+  if (lengths[lengths.length - 1] < 3 * LEAD_IN_LENGTH) return median;
+
+  const start = lengths.filter(length => length <= LEAD_IN_LENGTH).length - 1;
+  return median.slice(Math.min(start, median.length - 2));
+}
+
+/**
+ * Parse an SVG path of absolute M/L/Q/C/Z commands into the data space
+ */
+function parseSvgPath(path: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  for (const [, type, params] of path.matchAll(/([MLQCZ])([^MLQCZ]*)/g)) {
+    const values = params.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    const points: number[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      const point = toDataSpace(values[i], values[i + 1]);
+      points.push(point.x, point.y);
+    }
+    commands.push({ type: type as PathCommand['type'], points });
+  }
+  return commands;
+}
+
+/**
+ * End points of the outline commands of a segment
+ */
+function getOutlinePoints(segment: StrokeVector): Point[] {
+  try {
+    return decodePath(segment.pathData)
+      .filter(command => command.points.length >= 2)
+      .map(command => ({
+        x: command.points[command.points.length - 2] + segment.transform.x,
+        y: command.points[command.points.length - 1] + segment.transform.y,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Distance from a point to the outline polygon (0 inside it)
+ */
+function distanceToOutline(p: Point, outline: Point[]): number {
+  let inside = false;
+  let nearest = Infinity;
+  outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < a.x + ((p.y - a.y) / (b.y - a.y)) * (b.x - a.x)) {
+      inside = !inside;
+    }
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const t = length > 0
+      ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length)))
+      : 0;
+    nearest = Math.min(nearest, Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y))));
+  });
+  return inside ? 0 : nearest;
+}
+
+/**
+ * Distance from a point to a polyline
+ */
+function distanceToPath(p: Point, path: Point[]): number {
+  return Math.min(...path.slice(1).map((b, i) => {
+    const a = path[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const t = length > 0
+      ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length)))
+      : 0;
+    return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
+  }));
+}
+
+/**
+ * Whether the outline is part of the stroke along the median, but leaves
+ * part of the median out
+ */
+function isCutShort(outline: Point[], median: Point[]): boolean {
+  if (outline.length < 3 || median.length < 2) return false;
+  if (outline.some(p => distanceToPath(p, median) > MATCH_DISTANCE)) return false;
+  return median.some(p => distanceToOutline(p, outline) > CUT_SHORT_DISTANCE);
+}
+
+function main() {
+  const { input, output } = parseArgs();
+  if (!input) {
+    console.error('Usage: tsx scripts/import-reference-strokes.ts path/to/hanzi-writer-data [--output path]');
+    process.exit(1);
+  }
+
+  const charactersDir = join(process.cwd(), 'data', 'characters');
+  const lines: string[] = [];
+  const characters = new Set<string>();
+
+  for (const file of readdirSync(charactersDir).filter(f => f.endsWith('.json')).sort()) {
+    const data = JSON.parse(readFileSync(join(charactersDir, file), 'utf-8'));
+    const referenceFile = join(input, `${data.character}.json`);
+    if (!data.strokeVectors || !existsSync(referenceFile)) continue;
+
+    const groups = groupStrokes(data.strokeVectors);
+    const reference: ReferenceCharacter = JSON.parse(readFileSync(referenceFile, 'utf-8'));
+    if (reference.medians.length !== groups.length) continue;
+
+    // Single-segment strokes of a character come from the same capture: when
+    // one is cut short, the others cannot be trusted either (己)
+    const medians = reference.medians.map(median => median.map(([x, y]) => toDataSpace(x, y)));
+    const singles = groups.flatMap((group, i) => (group.segments.length === 1 ? [i] : []));
+    if (!singles.some(i => isCutShort(getOutlinePoints(groups[i].segments[0]), medians[i]))) continue;
+
+    singles.forEach(i => {
+      const medianColumn = trimLeadIn(medians[i]).map(p => `${p.x},${p.y}`).join(' ');
+      lines.push(`${data.character}\t${groups[i].strokeNumber}\t${medianColumn}\t${encodePath(parseSvgPath(reference.strokes[i]))}`);
+    });
+    characters.add(data.character);
+  }
+
+  const header = [
+    ';; Reference strokes for strokes cut short in the stroke data',
+    ';; Format: <character>TAB<stroke number>TAB<median x,y ...>TAB<outline, EaselJS path data>',
+    ';; From hanzi-writer-data (Make Me a Hanzi, outlines under the Arphic Public License),',
+    ';; converted to the 1080x1080 stroke data space by scripts/import-reference-strokes.ts',
+  ];
+  writeFileSync(output, [...header, ...lines].join('\n') + '\n', 'utf-8');
+
+  console.log(`✓ ${lines.length} strokes of ${characters.size} characters (${output})`);
+}
+
+main();
@@ -0,0 +1,48 @@
+/**
+ * Page Cursors
+ *
+ * Opaque cursors for paging through query results: clients pass the
+ * nextCursor of a response back as cursor to get the next page, without
+ * depending on how the position is encoded. A cursor carries a hash of the
+ * query (filters and sort) it was made for, so it cannot be replayed
+ * against a different query.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Hash a query, independent of the order of its keys
+ */
+function hashQuery(query: object): string {
+  const stable = JSON.stringify(query, (_, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  return createHash("sha256").update(stable).digest("base64url").slice(0, 16);
+}
+
+/**
+ * Encode the position of the next page of a query
+ */
+export function encodeCursor(offset: number, query: object): string {
+  return Buffer.from(JSON.stringify({ offset, query: hashQuery(query) })).toString("base64url");
+}
+
+/**
+ * Decode a cursor from encodeCursor
+ *
+ * @param query - The query of the page requested, which must be the query
+ * the cursor was made for
+ * @returns The offset of the page, or null for an invalid cursor or one
+ * made for another query
+ */
+export function decodeCursor(cursor: string, query: object): number | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (decoded.query !== hashQuery(query)) return null;
+    return Number.isInteger(decoded.offset) && decoded.offset >= 0 ? decoded.offset : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Character Frequency and Difficulty
+ *
+ * Frequency ranks come from a corpus frequency list (data/sources/frequency.txt,
+ * most frequent first). The difficulty score (0-100) estimates how hard a
+ * character is for a child to learn, from:
+ * - how common it is (frequency rank), which carries most weight
+ * - its stroke count
+ * - how many stage words use it, as characters children meet in many words
+ *   are easier to remember
+ * - its structure (獨體 characters are easier than 包圍 ones)
+ */
+
+import type { StructureType } from "@/types/character";
+
+/**
+ * Parse a frequency list into a character -> rank map
+ *
+ * Lines are `<rank>TAB<character>[TAB...]`, most frequent first; further
+ * columns (counts, percentages) are ignored. Lines starting with ";;" or "#"
+ * are comments. A character listed twice keeps its first rank.
+ */
+export function parseFrequencyFile(content: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith(";;") || line.startsWith("#")) continue;
+
+    const [rankColumn, character] = line.split("\t");
+    const rank = parseInt(rankColumn, 10);
+    if (!character || isNaN(rank) || ranks.has(character)) continue;
+    ranks.set(character, rank);
+  }
+
+  return ranks;
+}
+
+/** Weights of the difficulty factors (sum to 1) */
+const WEIGHTS = { frequency: 0.4, strokes: 0.3, words: 0.2, structure: 0.1 };
+
+/** Rank at which a character counts as fully rare */
+const RARE_RANK = 5000;
+
+/** Stroke count at which a character counts as fully complex */
+const MAX_STROKES = 25;
+
+/** Stage words at which a character counts as fully familiar */
+const FAMILIAR_WORD_COUNT = 10;
+
+/** How hard each structure type is to write (0-1) */
+const STRUCTURE_COMPLEXITY: Record<StructureType, number> = {
+  "獨體": 0,
+  "左右": 0.4,
+  "上下": 0.4,
+  "品字": 0.6,
+  "半包圍": 0.7,
+  "包圍": 0.8,
+  // Legacy structure types
+  "single": 0,
+  "left-right": 0.4,
+  "top-bottom": 0.4,
+  "surround": 0.8,
+  "other": 0.5,
+};
+
+/**
+ * Compute the difficulty score of a character (0 = easiest, 100 = hardest)
+ *
+ * @param entry.frequencyRank - Rank in the frequency list, or null when the
+ * character is not in it (counted as rare)
+ */
+export function getDifficulty(entry: {
+  frequencyRank: number | null;
+  strokeCount: number;
+  wordCount: number;
+  structureType: StructureType;
+}): number {
+  const frequency = entry.frequencyRank === null
+    ? 1
+    : Math.min(1, Math.log(Math.max(1, entry.frequencyRank)) / Math.log(RARE_RANK));
+  const strokes = Math.min(1, Math.max(0, entry.strokeCount - 1) / (MAX_STROKES - 1));
+  const words = 1 - Math.min(1, entry.wordCount / FAMILIAR_WORD_COUNT);
+  const structure = STRUCTURE_COMPLEXITY[entry.structureType];
+
+  return Math.round(100 * (
+    WEIGHTS.frequency * frequency +
+    WEIGHTS.strokes * strokes +
+    WEIGHTS.words * words +
+    WEIGHTS.structure * structure
+  ));
+}
@@ -8,28 +8,134 @@
  * - all.json: All characters
  * - lexical-lists-hk.json: Characters in HK Lexical Lists
  * - strokes.json: Characters grouped by stroke count
- * - radical.json: Characters grouped by radical
+ * - radical.json: Characters grouped by radical, in Kangxi order
+ * - phonetic.json: Phonetic series (聲旁家族), characters grouped by phonetic component
  * - stage.json: WORDS (not characters) grouped by learning stage
+ * - decomposition.json: Components and structure type per character
+ * - similar.json: Visually similar characters (形近字) per character
  * - summary.json: Statistics
+ *
+ * Lookup maps (character, radical, stroke count, jyutping syllable, stage) are built
+ * once from all.json so filters combine by set intersection instead of
+ * scanning every entry.
+ *
+ * Full character records are held in two size-capped LRU caches: metadata
+ * and stroke vectors (the bulk of each file) are cached separately. Caps are
+ * set in MB with CHARACTER_CACHE_MB and STROKE_CACHE_MB, or at runtime with
+ * configureCharacterCache(). Entries count the UTF-8 bytes of their JSON in
+ * the character file, not the memory of the parsed objects, which is larger.
  */
 
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { LRUCache, type LRUCacheStats } from "./lruCache";
+import { compareByCommonness, getCharacterComparator, type CharacterSort } from "./ranking";
+import { encodeCursor } from "./cursor";
 import type {
   FullCharacterData,
+  StrokeVector,
   IndexEntry,
   WordIndexEntry,
   GroupedCharacterIndex,
   GroupedWordIndex,
   FlatCharacterIndex,
+  DecompositionIndex,
+  DecompositionIndexEntry,
   IndexSummary,
+  PhoneticIndex,
+  PhoneticSeries,
+  RadicalCharacterGroup,
+  RadicalInfo,
+  RadicalSummary,
+  ReadingHomophones,
+  SimilarCharacter,
+  SimilarityIndex,
   WordStage,
 } from "@/types/fullCharacter";
+import type { StructureType } from "@/types/character";
+import { KANGXI_RADICALS, getRadicalInfo } from "@/lib/decomposition/radicals";
+import {
+  parseJyutpingQuery,
+  matchesJyutpingQuery,
+  parseSyllable,
+  formatSyllable,
+  type JyutpingMatchMode,
+  type JyutpingQuery,
+} from "@/lib/jyutping";
 
 const DATA_DIR = join(process.cwd(), "data");
 const CHARACTERS_DIR = join(DATA_DIR, "characters");
 const INDEXES_DIR = join(DATA_DIR, "indexes");
 
+const MB = 1024 * 1024;
+
+/**
+ * Read a cache cap in MB from the environment
+ */
+function envCacheSize(name: string, defaultMB: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return (value >= 0 ? value : defaultMB) * MB;
+}
+
+/** Character metadata without stroke vectors */
+type CharacterMetadata = Omit<FullCharacterData, "strokeVectors">;
+
+/** A field of the full character data */
+export type CharacterField = keyof FullCharacterData;
+
+/**
+ * All fields that can be selected from full character data
+ */
+export const CHARACTER_FIELDS: CharacterField[] = [
+  "id",
+  "character",
+  "sourceUrl",
+  "radical",
+  "strokeCount",
+  "jyutping",
+  "readings",
+  "pinyin",
+  "strokeOrderImages",
+  "strokeVectors",
+  "strokeTypes",
+  "inLexicalListsHK",
+  "stage1Words",
+  "stage2Words",
+  "fourCharacterPhrases",
+  "classicalPhrases",
+  "multiCharacterIdioms",
+  "properNouns",
+  "transliteratedWords",
+  "decomposition",
+  "inferredStructure",
+];
+
+/**
+ * Lookup maps built from the "all" index
+ */
+interface IndexLookups {
+  /** Entry by ID */
+  byId: Map<string, IndexEntry>;
+  /** Character -> ID */
+  idByChar: Map<string, string>;
+  /** Radical -> entries */
+  byRadical: Map<string, IndexEntry[]>;
+  /** Stroke count -> entries */
+  byStrokeCount: Map<number, IndexEntry[]>;
+  /** Toneless jyutping syllable (e.g. "si") -> entries with any reading of that syllable */
+  bySyllable: Map<string, IndexEntry[]>;
+  /** First stroke class (e.g. "h") -> entries */
+  byFirstStroke: Map<string, IndexEntry[]>;
+  /** Structure type (e.g. "左右") -> entries */
+  byStructure: Map<string, IndexEntry[]>;
+  /** First-introduced learning stage -> entries */
+  byStage: Map<WordStage, IndexEntry[]>;
+  /** IDs of characters in the HK lexical lists */
+  lexicalIds: Set<string>;
+  /** ID -> position in all.json, used to keep results in index order */
+  position: Map<string, number>;
+}
+
 // Cache for loaded data
 const cache = {
   allIndex: null as FlatCharacterIndex | null,
@@ -37,8 +143,15 @@ const cache = {
   stageWordIndex: null as GroupedWordIndex | null,
   strokesIndex: null as GroupedCharacterIndex<number> | null,
   radicalIndex: null as GroupedCharacterIndex<string> | null,
+  phoneticIndex: null as PhoneticIndex | null,
+  decompositionIndex: null as DecompositionIndex | null,
+  similarityIndex: null as SimilarityIndex | null,
   summary: null as IndexSummary | null,
-  characters: new Map<string, FullCharacterData>(),
+  lookups: null as IndexLookups | null,
+  decompositionByChar: null as Map<string, DecompositionIndexEntry> | null,
+  similarByChar: null as Map<string, SimilarCharacter[]> | null,
+  characters: new LRUCache<CharacterMetadata>(envCacheSize("CHARACTER_CACHE_MB", 16)),
+  strokeVectors: new LRUCache<StrokeVector[]>(envCacheSize("STROKE_CACHE_MB", 32)),
 };
 
 /**
@@ -101,6 +214,137 @@ export function loadRadicalIndex(): GroupedCharacterIndex<string> | null {
   return cache.radicalIndex;
 }
 
+/**
+ * Load phonetic series index (characters grouped by phonetic component)
+ */
+export function loadPhoneticIndex(): PhoneticIndex | null {
+  if (!cache.phoneticIndex) {
+    cache.phoneticIndex = loadJSON<PhoneticIndex>(join(INDEXES_DIR, "phonetic.json"));
+  }
+  return cache.phoneticIndex;
+}
+
+/**
+ * Get the phonetic series a character belongs to, as the phonetic (青) or
+ * as a member (清)
+ */
+export function getPhoneticSeriesByChar(char: string): PhoneticSeries[] {
+  const phoneticIndex = loadPhoneticIndex();
+  if (!phoneticIndex) return [];
+  
+  return phoneticIndex.groups.filter(group =>
+    group.key === char || group.entries.some(entry => entry.character === char)
+  );
+}
+
+// ============================================
+// Lookup Maps
+// ============================================
+
+/**
+ * Append an entry to a grouped map
+ */
+function addToGroup<K>(map: Map<K, IndexEntry[]>, key: K, entry: IndexEntry): void {
+  const group = map.get(key);
+  if (group) {
+    group.push(entry);
+  } else {
+    map.set(key, [entry]);
+  }
+}
+
+/**
+ * Get the lookup maps, building them from the "all" index on first use
+ */
+function getLookups(): IndexLookups | null {
+  if (cache.lookups) return cache.lookups;
+
+  const allIndex = loadAllIndex();
+  if (!allIndex) return null;
+
+  const lookups: IndexLookups = {
+    byId: new Map(),
+    idByChar: new Map(),
+    byRadical: new Map(),
+    byStrokeCount: new Map(),
+    bySyllable: new Map(),
+    byFirstStroke: new Map(),
+    byStructure: new Map(),
+    byStage: new Map(),
+    lexicalIds: new Set(),
+    position: new Map(),
+  };
+
+  allIndex.entries.forEach((entry, i) => {
+    lookups.byId.set(entry.id, entry);
+    lookups.position.set(entry.id, i);
+    if (!lookups.idByChar.has(entry.character)) {
+      lookups.idByChar.set(entry.character, entry.id);
+    }
+    addToGroup(lookups.byRadical, entry.radical, entry);
+    addToGroup(lookups.byStrokeCount, entry.strokeCount, entry);
+    if (entry.strokeSequence) {
+      addToGroup(lookups.byFirstStroke, entry.strokeSequence[0], entry);
+    }
+    if (entry.structureType) {
+      addToGroup(lookups.byStructure, entry.structureType, entry);
+    }
+    if (entry.stage) {
+      addToGroup(lookups.byStage, entry.stage, entry);
+    }
+    if (entry.inLexicalListsHK) {
+      lookups.lexicalIds.add(entry.id);
+    }
+
+    const syllables = new Set<string>();
+    for (const reading of getEntryReadings(entry)) {
+      const syllable = reading ? parseSyllable(reading) : null;
+      if (syllable) {
+        syllables.add(formatSyllable(syllable, { tone: false }));
+      }
+    }
+    for (const syllable of syllables) {
+      addToGroup(lookups.bySyllable, syllable, entry);
+    }
+  });
+
+  cache.lookups = lookups;
+  return lookups;
+}
+
+/**
+ * Get the candidate entries for a jyutping query
+ *
+ * Collects the syllable groups that can match, then checks each candidate's
+ * readings (tones are only compared in exact mode).
+ */
+function getEntriesByJyutping(lookups: IndexLookups, query: JyutpingQuery): IndexEntry[] {
+  if (query.mode === "exact" || query.mode === "toneless") {
+    const candidates = lookups.bySyllable.get(formatSyllable(query.syllable, { tone: false })) || [];
+    return query.mode === "toneless"
+      ? candidates
+      : candidates.filter(e => getEntryReadings(e).some(r => matchesJyutpingQuery(r, query)));
+  }
+
+  const seen = new Set<string>();
+  const candidates: IndexEntry[] = [];
+  for (const [key, group] of lookups.bySyllable) {
+    const syllable = parseSyllable(key);
+    const matches = query.mode === "initial"
+      ? syllable?.initial === query.initial
+      : query.mode === "final" && syllable?.final === query.final;
+    if (!matches) continue;
+
+    for (const entry of group) {
+      if (!seen.has(entry.id)) {
+        seen.add(entry.id);
+        candidates.push(entry);
+      }
+    }
+  }
+  return candidates;
+}
+
 // ============================================
 // Word Index Loaders
 // ============================================
@@ -127,6 +371,63 @@ export function getWordsByStage(stage: WordStage): WordIndexEntry[] {
   return group?.entries || [];
 }
 
+// ============================================
+// Decomposition Index Loader
+// ============================================
+
+/**
+ * Load the decomposition index (components and structure type per character)
+ */
+export function loadDecompositionIndex(): DecompositionIndex | null {
+  if (!cache.decompositionIndex) {
+    cache.decompositionIndex = loadJSON<DecompositionIndex>(join(INDEXES_DIR, "decomposition.json"));
+  }
+  return cache.decompositionIndex;
+}
+
+/**
+ * Get the decomposition of a character
+ */
+export function getDecompositionByChar(char: string): DecompositionIndexEntry | null {
+  const decompositionIndex = loadDecompositionIndex();
+  if (!decompositionIndex) return null;
+  
+  if (!cache.decompositionByChar) {
+    cache.decompositionByChar = new Map(decompositionIndex.entries.map(e => [e.character, e]));
+  }
+  return cache.decompositionByChar.get(char) || null;
+}
+
+// ============================================
+// Similarity Index Loader
+// ============================================
+
+/**
+ * Load the similarity index (visually similar characters per character)
+ */
+export function loadSimilarityIndex(): SimilarityIndex | null {
+  if (!cache.similarityIndex) {
+    cache.similarityIndex = loadJSON<SimilarityIndex>(join(INDEXES_DIR, "similar.json"));
+  }
+  return cache.similarityIndex;
+}
+
+/**
+ * Get the visually similar characters (形近字) of a character, most similar first
+ *
+ * @returns Similar characters (possibly none), or null when the character is
+ * not indexed or the similarity index is missing
+ */
+export function getSimilarCharacters(char: string): SimilarCharacter[] | null {
+  const similarityIndex = loadSimilarityIndex();
+  if (!similarityIndex || !getLookups()?.idByChar.has(char)) return null;
+  
+  if (!cache.similarByChar) {
+    cache.similarByChar = new Map(similarityIndex.entries.map(e => [e.character, e.similar]));
+  }
+  return cache.similarByChar.get(char) || [];
+}
+
 // ============================================
 // Summary Loader
 // ============================================
@@ -145,43 +446,108 @@ export function loadSummary(): IndexSummary | null {
 // Character Loaders
 // ============================================
 
+/**
+ * Read a character file, split into metadata and stroke vectors
+ *
+ * Sizes are the UTF-8 bytes of the JSON of each part in the file.
+ */
+function readCharacterFile(
+  id: string
+): { metadata: CharacterMetadata; strokeVectors: StrokeVector[] } | null {
+  const filePath = join(CHARACTERS_DIR, `${id}.json`);
+  if (!existsSync(filePath)) {
+    console.warn(`File not found: ${filePath}`);
+    return null;
+  }
+  
+  try {
+    const content = readFileSync(filePath);
+    const data: FullCharacterData = JSON.parse(content.toString("utf-8"));
+    const { strokeVectors = [], ...metadata } = data;
+    const metadataSize = Buffer.byteLength(JSON.stringify(metadata));
+    
+    // Only parts missing from the caches are stored, so a part that is
+    // cached keeps its entry (and recency) when the other one is read
+    if (!cache.characters.has(id)) {
+      cache.characters.set(id, metadata, metadataSize);
+    }
+    if (!cache.strokeVectors.has(id)) {
+      cache.strokeVectors.set(id, strokeVectors, Math.max(content.length - metadataSize, 0));
+    }
+    return { metadata, strokeVectors };
+  } catch (error) {
+    console.error(`Error loading ${filePath}:`, error);
+    return null;
+  }
+}
+
 /**
  * Load full character data by ID
  */
 export function loadCharacterById(id: string): FullCharacterData | null {
-  if (cache.characters.has(id)) {
-    return cache.characters.get(id)!;
+  const metadata = cache.characters.get(id);
+  const strokeVectors = cache.strokeVectors.get(id);
+  
+  if (metadata && strokeVectors) {
+    return { ...metadata, strokeVectors };
   }
   
-  const filePath = join(CHARACTERS_DIR, `${id}.json`);
-  const data = loadJSON<FullCharacterData>(filePath);
+  const data = readCharacterFile(id);
+  if (!data) return null;
+  return { ...(metadata ?? data.metadata), strokeVectors: strokeVectors ?? data.strokeVectors };
+}
+
+/**
+ * Load character data without stroke vectors
+ */
+export function loadCharacterMetadataById(id: string): CharacterMetadata | null {
+  const metadata = cache.characters.get(id);
+  if (metadata) return metadata;
   
-  if (data) {
-    cache.characters.set(id, data);
-  }
+  return readCharacterFile(id)?.metadata || null;
+}
+
+/**
+ * Load only the stroke vectors of a character
+ */
+export function loadStrokeVectorsById(id: string): StrokeVector[] | null {
+  const strokeVectors = cache.strokeVectors.get(id);
+  if (strokeVectors) return strokeVectors;
   
-  return data;
+  return readCharacterFile(id)?.strokeVectors || null;
 }
 
 /**
  * Load full character data by character string
  */
 export function loadCharacterByChar(char: string): FullCharacterData | null {
-  // First check cache
-  for (const [, data] of cache.characters) {
-    if (data.character === char) {
-      return data;
+  const id = getLookups()?.idByChar.get(char);
+  return id ? loadCharacterById(id) : null;
+}
+
+/**
+ * Find the index entry of a character
+ */
+export function findIndexEntry(char: string): IndexEntry | null {
+  const lookups = getLookups();
+  const id = lookups?.idByChar.get(char);
+  return id ? lookups!.byId.get(id) || null : null;
+}
+
+/**
+ * Select fields from character data (fields that are not present are omitted)
+ */
+export function pickCharacterFields(
+  data: Partial<FullCharacterData>,
+  fields: CharacterField[]
+): Partial<FullCharacterData> {
+  const picked: Partial<FullCharacterData> = {};
+  for (const field of fields) {
+    if (data[field] !== undefined) {
+      Object.assign(picked, { [field]: data[field] });
     }
   }
-  
-  // Look up in index
-  const allIndex = loadAllIndex();
-  if (!allIndex) return null;
-  
-  const entry = allIndex.entries.find(e => e.character === char);
-  if (!entry) return null;
-  
-  return loadCharacterById(entry.id);
+  return picked;
 }
 
 /**
@@ -208,73 +574,153 @@ export interface CharacterFilter {
   inLexicalListsHK?: boolean;
   /** Search by character */
   character?: string;
-  /** Search by jyutping (partial match) */
+  /** Search by jyutping (matched syllable by syllable against any reading) */
   jyutping?: string;
+  /** How the jyutping search is matched (default: "exact") */
+  jyutpingMode?: JyutpingMatchMode;
+  /** Stroke sequence prefix, normalized (e.g. "hsp"); results are ranked by commonness */
+  strokeSequence?: string;
+  /** Structure type (decomposition, or inferred from the strokes) */
+  structure?: StructureType;
+  /** Minimum confidence of the structure type (0-1) */
+  minStructureConfidence?: number;
+  /** Minimum difficulty score (0-100, inclusive) */
+  minDifficulty?: number;
+  /** Maximum difficulty score (0-100, inclusive) */
+  maxDifficulty?: number;
+  /** Learning stage that first introduces the character */
+  stage?: WordStage;
+}
+
+/**
+ * Paging and ordering of query results
+ */
+export interface CharacterQueryOptions {
+  /** Sort order (default: the order of the "all" index) */
+  sort?: CharacterSort;
+  /** Randomize order (instead of sorting) */
+  shuffle?: boolean;
+  /** Skip first N results (see decodeCursor for cursors) */
+  offset?: number;
+  /** Max results (default: no limit) */
+  limit?: number;
+}
+
+/**
+ * One page of query results
+ */
+export interface CharacterPage<T> {
+  /** Number of matches across all pages */
+  total: number;
+  /** Cursor of the next page, when there is one (not for shuffled results) */
+  nextCursor?: string;
+  results: T[];
 }
 
 /**
  * Query character index entries with filters
+ *
+ * Each active filter contributes a candidate set from the lookup maps; the
+ * smallest set is checked against the others, and results keep the order of
+ * the "all" index (stroke sequence searches rank the most common first),
+ * unless a sort order is given. Ties keep the index order.
  */
-export function queryIndexEntries(filter: CharacterFilter = {}): IndexEntry[] {
-  // Use lexical-lists-hk index if filtering by inLexicalListsHK === true
-  let entries: IndexEntry[];
+export function queryIndexEntries(filter: CharacterFilter = {}, sort?: CharacterSort): IndexEntry[] {
+  const results = filterIndexEntries(filter);
+  return sort ? results.sort(getCharacterComparator(sort)) : results;
+}
+
+/**
+ * Index entries matching a filter, in index order
+ */
+function filterIndexEntries(filter: CharacterFilter): IndexEntry[] {
+  const lookups = getLookups();
+  if (!lookups) return [];
   
-  if (filter.inLexicalListsHK === true) {
-    const lexicalIndex = loadLexicalListsHKIndex();
-    if (!lexicalIndex) return [];
-    entries = [...lexicalIndex.entries];
-  } else {
-    const allIndex = loadAllIndex();
-    if (!allIndex) return [];
-    entries = [...allIndex.entries];
-    
-    // Apply inLexicalListsHK filter if explicitly false
-    if (filter.inLexicalListsHK === false) {
-      entries = entries.filter(e => !e.inLexicalListsHK);
-    }
-  }
+  const candidateSets: IndexEntry[][] = [];
   
-  // Stroke count filters
-  if (filter.minStrokes !== undefined) {
-    entries = entries.filter(e => e.strokeCount >= filter.minStrokes!);
-  }
-  if (filter.maxStrokes !== undefined) {
-    entries = entries.filter(e => e.strokeCount <= filter.maxStrokes!);
+  // Character search
+  if (filter.character) {
+    const id = lookups.idByChar.get(filter.character);
+    candidateSets.push(id ? [lookups.byId.get(id)!] : []);
   }
   
   // Radical filter
   if (filter.radical) {
-    entries = entries.filter(e => e.radical === filter.radical);
+    candidateSets.push(lookups.byRadical.get(filter.radical) || []);
   }
   
-  // Character search
-  if (filter.character) {
-    entries = entries.filter(e => e.character === filter.character);
+  // Stroke count filters (union of the stroke groups in range)
+  if (filter.minStrokes !== undefined || filter.maxStrokes !== undefined) {
+    const min = filter.minStrokes ?? 0;
+    const max = filter.maxStrokes ?? Infinity;
+    const inRange: IndexEntry[] = [];
+    for (const [strokeCount, group] of lookups.byStrokeCount) {
+      if (strokeCount >= min && strokeCount <= max) {
+        inRange.push(...group);
+      }
+    }
+    candidateSets.push(inRange);
   }
   
-  // Jyutping search (partial match)
+  // Jyutping search (any reading of 多音字)
   if (filter.jyutping) {
-    const search = filter.jyutping.toLowerCase();
-    entries = entries.filter(e => 
-      e.jyutping.toLowerCase().includes(search)
-    );
+    const query = parseJyutpingQuery(filter.jyutping, filter.jyutpingMode);
+    if (!query) return [];
+    candidateSets.push(getEntriesByJyutping(lookups, query));
+  }
+  
+  // Stroke sequence prefix (筆順輸入)
+  if (filter.strokeSequence) {
+    const prefix = filter.strokeSequence;
+    const firstStroke = lookups.byFirstStroke.get(prefix[0]) || [];
+    candidateSets.push(firstStroke.filter(e => e.strokeSequence.startsWith(prefix)));
+  }
+  
+  // Structure type (結構)
+  if (filter.structure) {
+    const minConfidence = filter.minStructureConfidence ?? 0;
+    const sameStructure = lookups.byStructure.get(filter.structure) || [];
+    candidateSets.push(sameStructure.filter(e => e.structureConfidence >= minConfidence));
+  }
+  
+  // Learning stage (first stage word)
+  if (filter.stage) {
+    candidateSets.push(lookups.byStage.get(filter.stage) || []);
+  }
+  
+  // Lexical list membership and difficulty are checked on every candidate
+  const minDifficulty = filter.minDifficulty ?? 0;
+  const maxDifficulty = filter.maxDifficulty ?? Infinity;
+  const matchesEntry = (e: IndexEntry) =>
+    (filter.inLexicalListsHK === undefined || lookups.lexicalIds.has(e.id) === filter.inLexicalListsHK) &&
+    e.difficulty >= minDifficulty && e.difficulty <= maxDifficulty;
+  
+  if (candidateSets.length === 0) {
+    const allIndex = loadAllIndex()!;
+    return allIndex.entries.filter(matchesEntry);
   }
   
-  return entries;
+  // Intersect: walk the smallest set, check membership in the others
+  candidateSets.sort((a, b) => a.length - b.length);
+  const [smallest, ...others] = candidateSets;
+  const otherIds = others.map(set => new Set(set.map(e => e.id)));
+  
+  const results = smallest
+    .filter(e => matchesEntry(e) && otherIds.every(ids => ids.has(e.id)))
+    .sort((a, b) => lookups.position.get(a.id)! - lookups.position.get(b.id)!);
+  
+  return filter.strokeSequence ? results.sort(compareByCommonness) : results;
 }
 
 /**
- * Query full character data with filters
+ * Query one page of character index entries, with the total number of matches
  */
-export function queryCharacters(
+export function queryIndexPage(
   filter: CharacterFilter = {},
-  options: {
-    limit?: number;
-    offset?: number;
-    shuffle?: boolean;
-  } = {}
-): FullCharacterData[] {
-  let entries = queryIndexEntries(filter);
+  options: CharacterQueryOptions = {}
+): CharacterPage<IndexEntry> {
+  let entries = queryIndexEntries(filter, options.shuffle ? undefined : options.sort);
   
   // Shuffle if requested
   if (options.shuffle) {
@@ -282,39 +728,73 @@ export function queryCharacters(
   }
   
   // Pagination
-  if (options.offset !== undefined) {
-    entries = entries.slice(options.offset);
-  }
-  if (options.limit !== undefined) {
-    entries = entries.slice(0, options.limit);
+  const offset = options.offset ?? 0;
+  const end = options.limit !== undefined ? offset + options.limit : entries.length;
+  const page: CharacterPage<IndexEntry> = {
+    total: entries.length,
+    results: entries.slice(offset, end),
+  };
+  if (end < entries.length && !options.shuffle) {
+    page.nextCursor = encodeCursor(end, { filter, sort: options.sort });
   }
+  return page;
+}
+
+/**
+ * Query one page of full character data, with the total number of matches
+ */
+export function queryCharacterPage(
+  filter: CharacterFilter = {},
+  options: CharacterQueryOptions & {
+    /** Load stroke vectors (default: true) */
+    withStrokes?: boolean;
+  } = {}
+): CharacterPage<FullCharacterData | CharacterMetadata> {
+  const page = queryIndexPage(filter, options);
   
   // Load full data
-  return entries
-    .map(e => loadCharacterById(e.id))
-    .filter((data): data is FullCharacterData => data !== null);
+  const load = options.withStrokes === false ? loadCharacterMetadataById : loadCharacterById;
+  return {
+    ...page,
+    results: page.results
+      .map(e => load(e.id))
+      .filter((data): data is FullCharacterData | CharacterMetadata => data !== null),
+  };
 }
 
 /**
- * Get characters by stroke count (using strokes index for efficiency)
+ * Query full character data with filters
+ */
+export function queryCharacters(
+  filter: CharacterFilter = {},
+  options: CharacterQueryOptions & {
+    /** Load stroke vectors (default: true) */
+    withStrokes?: boolean;
+  } = {}
+): (FullCharacterData | CharacterMetadata)[] {
+  return queryCharacterPage(filter, options).results;
+}
+
+/**
+ * Get characters by stroke count (O(1) via the stroke lookup map)
  */
 export function getCharactersByStrokeCount(strokeCount: number): IndexEntry[] {
-  const strokesIndex = loadStrokesIndex();
-  if (!strokesIndex) return [];
-  
-  const group = strokesIndex.groups.find(g => g.key === strokeCount);
-  return group?.entries || [];
+  return getLookups()?.byStrokeCount.get(strokeCount) || [];
 }
 
 /**
- * Get characters by radical (using radical index for efficiency)
+ * Get characters by radical (O(1) via the radical lookup map)
  */
 export function getCharactersByRadical(radical: string): IndexEntry[] {
-  const radicalIndex = loadRadicalIndex();
-  if (!radicalIndex) return [];
-  
-  const group = radicalIndex.groups.find(g => g.key === radical);
-  return group?.entries || [];
+  return getLookups()?.byRadical.get(radical) || [];
+}
+
+/**
+ * Get the characters first introduced in a learning stage (O(1) via the
+ * stage lookup map)
+ */
+export function getCharactersByStage(stage: WordStage): IndexEntry[] {
+  return getLookups()?.byStage.get(stage) || [];
 }
 
 /**
@@ -337,10 +817,145 @@ export function getAllStrokeCounts(): number[] {
   return summary.strokeCounts.map(s => s.strokes).sort((a, b) => a - b);
 }
 
+// ============================================
+// Radicals (部首)
+// ============================================
+
+/**
+ * Get the 214 Kangxi radicals in Kangxi order, with the number of
+ * characters under each
+ */
+export function getRadicalSummaries(): RadicalSummary[] {
+  const byRadical = getLookups()?.byRadical;
+  return KANGXI_RADICALS.map(info => ({
+    ...info,
+    characterCount: byRadical?.get(info.radical)?.length || 0,
+  }));
+}
+
+/**
+ * Get the characters under a radical, grouped by residual strokes (strokes
+ * besides the radical), most common first within each group
+ *
+ * @param radical - A Kangxi radical or one of its component forms (氵)
+ * @returns The radical and its characters, or null for an unknown radical
+ */
+export function getRadicalCharacters(
+  radical: string
+): { radical: RadicalInfo; groups: RadicalCharacterGroup[] } | null {
+  const info = getRadicalInfo(radical);
+  if (!info) return null;
+
+  const byResidual = new Map<number, IndexEntry[]>();
+  getCharactersByRadical(info.radical).forEach(entry => {
+    addToGroup(byResidual, Math.max(0, entry.strokeCount - info.strokes), entry);
+  });
+
+  return {
+    radical: info,
+    groups: Array.from(byResidual.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([residualStrokes, entries]) => ({ residualStrokes, entries: [...entries].sort(compareByCommonness) })),
+  };
+}
+
+// ============================================
+// Homophones (同音字)
+// ============================================
+
+/**
+ * Get the homophones of every reading of a character (多音字 have several)
+ *
+ * Homophones share the exact reading, tone included. With tones, characters
+ * with the same syllable in any tone are also returned, grouped by tone, as
+ * these near-homophones are easily mixed up too. The character itself is
+ * left out.
+ *
+ * @returns Homophones per reading, or null when the character is not indexed
+ */
+export function getHomophones(
+  char: string,
+  options: { tones?: boolean } = {}
+): ReadingHomophones[] | null {
+  const lookups = getLookups();
+  const id = lookups?.idByChar.get(char);
+  if (!lookups || !id) return null;
+
+  const entry = lookups.byId.get(id)!;
+  const readings = Array.from(new Set(getEntryReadings(entry)));
+
+  return readings.map(reading => {
+    const syllable = parseSyllable(reading);
+    if (!syllable) {
+      return { jyutping: reading, homophones: [], ...(options.tones ? { tones: [] } : {}) };
+    }
+
+    // Every character with this syllable, by the tones it is read in
+    const byTone = new Map<number | undefined, IndexEntry[]>();
+    const sameSyllable = lookups.bySyllable.get(formatSyllable(syllable, { tone: false })) || [];
+    sameSyllable.forEach(other => {
+      if (other.id === id) return;
+      const tones = new Set<number | undefined>();
+      getEntryReadings(other).forEach(otherReading => {
+        const otherSyllable = parseSyllable(otherReading);
+        if (otherSyllable && otherSyllable.initial === syllable.initial && otherSyllable.final === syllable.final) {
+          tones.add(otherSyllable.tone);
+        }
+      });
+      tones.forEach(tone => addToGroup(byTone, tone, other));
+    });
+
+    const rank = (entries: IndexEntry[]) => [...entries].sort(compareByCommonness);
+    const result: ReadingHomophones = {
+      jyutping: reading,
+      homophones: rank(byTone.get(syllable.tone) || []),
+    };
+    if (options.tones) {
+      result.tones = Array.from(byTone.entries())
+        .sort((a, b) => (a[0] ?? 0) - (b[0] ?? 0))
+        .map(([tone, entries]) => ({
+          jyutping: formatSyllable({ ...syllable, tone, changedTone: undefined }),
+          tone,
+          entries: rank(entries),
+        }));
+    }
+    return result;
+  });
+}
+
 // ============================================
 // Utilities
 // ============================================
 
+/**
+ * Get all readings of an index entry (primary first)
+ */
+export function getEntryReadings(entry: IndexEntry): string[] {
+  return entry.readings && entry.readings.length > 0 ? entry.readings : [entry.jyutping];
+}
+
+/**
+ * Set the character cache caps (in MB of file JSON); omitted caps are unchanged
+ */
+export function configureCharacterCache(options: { metadataMB?: number; strokeVectorsMB?: number }): void {
+  if (options.metadataMB !== undefined) {
+    cache.characters.resize(options.metadataMB * MB);
+  }
+  if (options.strokeVectorsMB !== undefined) {
+    cache.strokeVectors.resize(options.strokeVectorsMB * MB);
+  }
+}
+
+/**
+ * Get hit/miss statistics of the character caches
+ */
+export function getCharacterCacheStats(): { metadata: LRUCacheStats; strokeVectors: LRUCacheStats } {
+  return {
+    metadata: cache.characters.getStats(),
+    strokeVectors: cache.strokeVectors.getStats(),
+  };
+}
+
 /**
  * Fisher-Yates shuffle
  */
@@ -362,8 +977,15 @@ export function clearCache(): void {
   cache.stageWordIndex = null;
   cache.strokesIndex = null;
   cache.radicalIndex = null;
+  cache.phoneticIndex = null;
+  cache.decompositionIndex = null;
+  cache.similarityIndex = null;
   cache.summary = null;
+  cache.lookups = null;
+  cache.decompositionByChar = null;
+  cache.similarByChar = null;
   cache.characters.clear();
+  cache.strokeVectors.clear();
 }
 
 // ============================================
@@ -371,19 +993,10 @@ export function clearCache(): void {
 // ============================================
 
 /**
- * @deprecated Use loadLexicalListsHKIndex() instead. Stage applies to words, not characters.
+ * @deprecated Use loadStageWordIndex() instead (stage.json holds words, not characters).
  */
 export function loadStageIndex(): GroupedWordIndex | null {
-  console.warn("loadStageIndex() is deprecated. Stage applies to words, not characters. Use loadStageWordIndex() instead.");
+  console.warn("loadStageIndex() is deprecated. Use loadStageWordIndex() instead.");
   return loadStageWordIndex();
 }
 
-/**
- * @deprecated Stage applies to words, not characters. Use getWordsByStage() instead.
- */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function getCharactersByStage(_stage: "1" | "2"): IndexEntry[] {
-  console.warn("getCharactersByStage() is deprecated. Stage applies to words, not characters.");
-  // Return empty array - stage no longer applies to characters
-  return [];
-}
@@ -0,0 +1,134 @@
+/**
+ * Size-Aware LRU Cache
+ *
+ * Evicts least recently used entries once the total size of the cached
+ * values exceeds a byte budget. Relies on Map insertion order: the first
+ * key is always the least recently used one.
+ */
+
+/**
+ * Cache statistics
+ */
+export interface LRUCacheStats {
+  /** Number of cached entries */
+  entries: number;
+  /** Total size of cached entries (bytes, as given to set()) */
+  size: number;
+  /** Size cap (bytes) */
+  maxSize: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  /** hits / (hits + misses), 0 when nothing has been requested */
+  hitRate: number;
+}
+
+interface CacheItem<V> {
+  value: V;
+  size: number;
+}
+
+export class LRUCache<V> {
+  private items = new Map<string, CacheItem<V>>();
+  private totalSize = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private maxSize: number) {}
+
+  /**
+   * Get a value and mark it as most recently used
+   */
+  get(key: string): V | undefined {
+    const item = this.items.get(key);
+    if (!item) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.items.delete(key);
+    this.items.set(key, item);
+    return item.value;
+  }
+
+  /**
+   * Check for a key without touching recency or statistics
+   */
+  has(key: string): boolean {
+    return this.items.has(key);
+  }
+
+  /**
+   * Store a value with its size in bytes
+   *
+   * Values larger than the whole cache are not stored.
+   */
+  set(key: string, value: V, size: number): void {
+    this.delete(key);
+    if (size > this.maxSize) return;
+
+    this.items.set(key, { value, size });
+    this.totalSize += size;
+    this.evict();
+  }
+
+  /**
+   * Remove a value
+   */
+  delete(key: string): void {
+    const item = this.items.get(key);
+    if (item) {
+      this.totalSize -= item.size;
+      this.items.delete(key);
+    }
+  }
+
+  /**
+   * Change the size cap, evicting entries if needed
+   */
+  resize(maxSize: number): void {
+    this.maxSize = maxSize;
+    this.evict();
+  }
+
+  /**
+   * Remove all values and reset statistics
+   */
+  clear(): void {
+    this.items.clear();
+    this.totalSize = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): LRUCacheStats {
+    const requests = this.hits + this.misses;
+    return {
+      entries: this.items.size,
+      size: this.totalSize,
+      maxSize: this.maxSize,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: requests > 0 ? this.hits / requests : 0,
+    };
+  }
+
+  /**
+   * Evict least recently used entries until within the size cap
+   */
+  private evict(): void {
+    for (const [key, item] of this.items) {
+      if (this.totalSize <= this.maxSize) break;
+      this.items.delete(key);
+      this.totalSize -= item.size;
+      this.evictions++;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Query Parameters
+ *
+ * Parsing shared by the API routes, so that every route accepts and rejects
+ * the same values.
+ */
+
+/**
+ * Parse an integer query parameter (limit, offset, minStrokes) of at least min
+ *
+ * @returns The value, undefined when the parameter is missing, or null when
+ * it is not a whole number of at least min ("abc", "1.5", "-5", "10abc")
+ */
+export function parseIntegerParam(value: string | null, min: number): number | undefined | null {
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value, 10);
+  return parsed < min ? null : parsed;
+}
@@ -0,0 +1,81 @@
+/**
+ * Character Ranking
+ *
+ * Orders characters by how common they are, for searches where the best
+ * match is the character a child most likely means. Characters ranked in the
+ * corpus frequency list come first, by rank; the rest (and ties) are ordered
+ * with HK lexical list characters first, then by number of stage words.
+ *
+ * Also provides the sort orders of character queries (sort=strokes...).
+ */
+
+import type { IndexEntry } from "@/types/fullCharacter";
+import { getRadicalInfo } from "@/lib/decomposition/radicals";
+
+/**
+ * Compare index entries, most common first (use with a stable sort to keep
+ * the index order for ties)
+ */
+export function compareByCommonness(a: IndexEntry, b: IndexEntry): number {
+  if (a.frequencyRank !== b.frequencyRank) {
+    if (a.frequencyRank === null) return 1;
+    if (b.frequencyRank === null) return -1;
+    return a.frequencyRank - b.frequencyRank;
+  }
+  if (a.inLexicalListsHK !== b.inLexicalListsHK) {
+    return a.inLexicalListsHK ? -1 : 1;
+  }
+  return (b.wordCount || 0) - (a.wordCount || 0);
+}
+
+/**
+ * Keys characters can be sorted by
+ * - strokes: stroke count
+ * - radical: Kangxi radical order, then stroke count
+ * - jyutping: primary reading (characters without one last)
+ * - frequency: most common first (see compareByCommonness)
+ * - difficulty: easiest first (difficulty score)
+ * - id: character ID
+ */
+export type CharacterSortKey = "strokes" | "radical" | "jyutping" | "frequency" | "difficulty" | "id";
+
+export const CHARACTER_SORT_KEYS: CharacterSortKey[] = ["strokes", "radical", "jyutping", "frequency", "difficulty", "id"];
+
+export type SortDirection = "asc" | "desc";
+
+export const SORT_DIRECTIONS: SortDirection[] = ["asc", "desc"];
+
+export interface CharacterSort {
+  key: CharacterSortKey;
+  /** Default: "asc" */
+  direction?: SortDirection;
+}
+
+export function isCharacterSortKey(value: string): value is CharacterSortKey {
+  return (CHARACTER_SORT_KEYS as string[]).includes(value);
+}
+
+export function isSortDirection(value: string): value is SortDirection {
+  return (SORT_DIRECTIONS as string[]).includes(value);
+}
+
+const radicalNumber = (entry: IndexEntry) => getRadicalInfo(entry.radical)?.number ?? Infinity;
+
+const COMPARATORS: Record<CharacterSortKey, (a: IndexEntry, b: IndexEntry) => number> = {
+  strokes: (a, b) => a.strokeCount - b.strokeCount,
+  radical: (a, b) => radicalNumber(a) - radicalNumber(b) || a.strokeCount - b.strokeCount,
+  jyutping: (a, b) =>
+    Number(!a.jyutping) - Number(!b.jyutping) || (a.jyutping < b.jyutping ? -1 : a.jyutping > b.jyutping ? 1 : 0),
+  frequency: compareByCommonness,
+  difficulty: (a, b) => a.difficulty - b.difficulty,
+  id: (a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }),
+};
+
+/**
+ * Get a comparator for a sort order (use with a stable sort to keep the
+ * index order for ties)
+ */
+export function getCharacterComparator(sort: CharacterSort): (a: IndexEntry, b: IndexEntry) => number {
+  const compare = COMPARATORS[sort.key];
+  return sort.direction === "desc" ? (a, b) => compare(b, a) : compare;
+}
@@ -0,0 +1,73 @@
+/**
+ * Character Readings (多音字)
+ *
+ * Derives the readings of a character from the Jyutping of its stage words.
+ * Word Jyutping is stored without separators (e.g. "hang4jan4dou6"), so each
+ * word is split into syllables and aligned with its characters. Alternative
+ * pronunciations are separated by "/" (e.g. "ze3se1/ze5se1").
+ */
+
+import type { CharacterReading, Word } from "@/types/fullCharacter";
+import { splitSyllables } from "@/lib/jyutping";
+
+const HANZI_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]|[\ud840-\ud87f][\udc00-\udfff]/g;
+
+/**
+ * Get the readings of a character within a word
+ *
+ * @returns Unique readings (one per alternative pronunciation), or an empty
+ * array if the word's Jyutping cannot be aligned with its characters
+ */
+export function getWordReadings(character: string, word: Word): string[] {
+  if (!word.jyutping) return [];
+
+  const chars = word.word.match(HANZI_PATTERN) || [];
+  const readings = new Set<string>();
+
+  for (const alternative of word.jyutping.split("/")) {
+    // Optional syllables are bracketed like their characters ("jat1wui6(ji4)" for 一會（兒）)
+    const syllables = splitSyllables(alternative.replace(/[()]/g, " "));
+    if (!syllables || syllables.length !== chars.length) continue;
+
+    chars.forEach((ch, i) => {
+      if (ch === character) readings.add(syllables[i]);
+    });
+  }
+
+  return Array.from(readings);
+}
+
+/**
+ * Derive all readings of a character with their example words
+ *
+ * The primary reading always comes first; other readings are ordered by how
+ * many words use them.
+ */
+export function deriveReadings(
+  character: string,
+  primary: string,
+  words: Word[]
+): CharacterReading[] {
+  const byReading = new Map<string, string[]>();
+  if (primary) {
+    byReading.set(primary, []);
+  }
+
+  for (const word of words) {
+    for (const reading of getWordReadings(character, word)) {
+      const examples = byReading.get(reading) || [];
+      if (!examples.includes(word.word)) {
+        examples.push(word.word);
+      }
+      byReading.set(reading, examples);
+    }
+  }
+
+  return Array.from(byReading.entries())
+    .map(([jyutping, examples]) => ({ jyutping, words: examples }))
+    .sort((a, b) => {
+      if (a.jyutping === primary) return -1;
+      if (b.jyutping === primary) return 1;
+      return b.words.length - a.words.length;
+    });
+}
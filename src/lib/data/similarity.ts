@@ -0,0 +1,142 @@
+/**
+ * Visually Similar Characters (形近字)
+ *
+ * Finds characters that are easily confused with each other (已/巳, 未/末,
+ * 辨/辯) by comparing:
+ * - the rasterized strokes (see rasterOverlap), which carries most weight;
+ *   a pair scores at least its raster overlap less RASTER_FLOOR_MARGIN,
+ *   whatever the other measures say
+ * - the stroke types in stroke order, so that characters differing by a few
+ *   strokes (折/拆) score higher than characters that only cover the same area
+ * - the components, where both characters have a decomposition
+ */
+
+import type { SimilarCharacter, StrokeType } from "@/types/fullCharacter";
+import { dilateRaster, rasterOverlap, type Raster } from "@/lib/strokes/raster";
+
+/**
+ * What is compared of a character
+ */
+export interface CharacterShape {
+  id: string;
+  character: string;
+  /** Rasterized strokes (rasterizeStrokes) */
+  raster: Raster;
+  strokeTypes: StrokeType[];
+  /** Components of the decomposition, if there is one with more than one component */
+  components?: string[];
+}
+
+export interface SimilarityOptions {
+  /** Most similar characters kept per character (default: 8) */
+  limit?: number;
+  /** Lowest similarity kept (default: 0.65) */
+  minScore?: number;
+}
+
+/**
+ * Weights of the raster, stroke and component similarity. Components are
+ * only compared when both characters have them.
+ */
+const WEIGHTS = {
+  withComponents: { raster: 0.55, strokes: 0.3, components: 0.15 },
+  withoutComponents: { raster: 0.65, strokes: 0.35, components: 0 },
+};
+
+/** Largest stroke count difference compared, unless components are shared (辨/辯) */
+const MAX_STROKE_DIFFERENCE = 5;
+
+/** Raster overlap below which a pair cannot reach the default minimum score */
+const MIN_RASTER_OVERLAP = 0.5;
+
+/**
+ * A pair scores at least its raster overlap less this margin, so that
+ * misclassified strokes cannot outvote outlines that nearly coincide
+ */
+const RASTER_FLOOR_MARGIN = 0.2;
+
+/**
+ * Similarity of two stroke type sequences (0-1), from their edit distance
+ */
+export function getStrokeTypeSimilarity(a: StrokeType[], b: StrokeType[]): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / length;
+}
+
+/**
+ * Share of components two characters have in common (0-1), counting
+ * repeated components (林) once per occurrence
+ */
+export function getComponentSimilarity(a: string[], b: string[]): number {
+  const remaining = [...b];
+  let shared = 0;
+  a.forEach(component => {
+    const index = remaining.indexOf(component);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  });
+  const total = a.length + b.length - shared;
+  return total === 0 ? 0 : shared / total;
+}
+
+/**
+ * Find the visually similar characters of every character
+ *
+ * Characters are compared pairwise; pairs whose stroke counts differ by more
+ * than MAX_STROKE_DIFFERENCE are skipped unless they share a component.
+ *
+ * @returns Similar characters by character ID, most similar first; characters
+ * without similar characters are left out
+ */
+export function findSimilarCharacters(
+  shapes: CharacterShape[],
+  options: SimilarityOptions = {}
+): Map<string, SimilarCharacter[]> {
+  const { limit = 8, minScore = 0.65 } = options;
+  const dilated = shapes.map(shape => dilateRaster(shape.raster));
+  const similar = new Map<string, SimilarCharacter[]>();
+  const add = (shape: CharacterShape, other: CharacterShape, score: number) => {
+    const list = similar.get(shape.id) || [];
+    list.push({ id: other.id, character: other.character, score });
+    similar.set(shape.id, list);
+  };
+
+  shapes.forEach((a, i) => {
+    for (let j = i + 1; j < shapes.length; j++) {
+      const b = shapes[j];
+      const sharesComponent = a.components?.some(component => b.components?.includes(component)) ?? false;
+      if (Math.abs(a.strokeTypes.length - b.strokeTypes.length) > MAX_STROKE_DIFFERENCE && !sharesComponent) continue;
+
+      const raster = rasterOverlap(a.raster, b.raster, dilated[i], dilated[j]);
+      if (raster < MIN_RASTER_OVERLAP) continue;
+
+      const weights = a.components && b.components ? WEIGHTS.withComponents : WEIGHTS.withoutComponents;
+      const components = weights.components > 0 ? getComponentSimilarity(a.components!, b.components!) : 0;
+      const blended = weights.raster * raster +
+        weights.strokes * getStrokeTypeSimilarity(a.strokeTypes, b.strokeTypes) +
+        weights.components * components;
+      const score = Math.round(Math.max(blended, raster - RASTER_FLOOR_MARGIN) * 100) / 100;
+      if (score < minScore) continue;
+
+      add(a, b, score);
+      add(b, a, score);
+    }
+  });
+
+  similar.forEach((list, id) => {
+    similar.set(id, list.sort((x, y) => y.score - x.score || x.id.localeCompare(y.id)).slice(0, limit));
+  });
+  return similar;
+}
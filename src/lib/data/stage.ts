@@ -0,0 +1,28 @@
+/**
+ * Learning Stage Parameters
+ *
+ * Pages and routes take the learning stage as ?stage=1|2. Links from before
+ * stages were derived from the word lists use ?grade=KS1|KS2 instead, which
+ * still selects the matching stage.
+ */
+
+import type { WordStage } from "@/types/fullCharacter";
+
+/**
+ * Legacy grade values mapped to word stages
+ */
+export const GRADE_TO_STAGE: Record<string, WordStage> = {
+  KS1: "1",
+  KS2: "2",
+};
+
+/**
+ * Get the stage from ?stage, falling back to the legacy ?grade
+ *
+ * @returns The stage, or null when neither parameter names one
+ */
+export function getStageParam(searchParams: Pick<URLSearchParams, "get">): WordStage | null {
+  const stage = searchParams.get("stage");
+  if (stage === "1" || stage === "2") return stage;
+  return GRADE_TO_STAGE[searchParams.get("grade")?.toUpperCase() ?? ""] ?? null;
+}
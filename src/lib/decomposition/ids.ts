@@ -0,0 +1,215 @@
+/**
+ * Ideographic Description Sequence (IDS) Parser
+ *
+ * Parses IDS strings (e.g. "⿰日月") into component trees and derives the
+ * top-level components and structure type used by the decomposition game.
+ *
+ * Source files follow the cjkvi-ids layout:
+ *   U+660E<TAB>明<TAB>⿰日月[GTJKV]<TAB>...
+ */
+
+import type { StructureType } from "@/types/character";
+import type { CharacterDecomposition } from "@/types/fullCharacter";
+
+/**
+ * Ideographic Description Characters and their arity
+ */
+const IDC_ARITY: Record<string, number> = {
+  "⿰": 2, // left to right
+  "⿱": 2, // above to below
+  "⿲": 3, // left to middle and right
+  "⿳": 3, // above to middle and below
+  "⿴": 2, // full surround
+  "⿵": 2, // surround from above
+  "⿶": 2, // surround from below
+  "⿷": 2, // surround from left
+  "⿸": 2, // surround from upper left
+  "⿹": 2, // surround from upper right
+  "⿺": 2, // surround from lower left
+  "⿻": 2, // overlaid
+};
+
+/**
+ * Structure type for each top-level operator
+ */
+const IDC_STRUCTURE: Record<string, StructureType> = {
+  "⿰": "左右",
+  "⿲": "左右",
+  "⿱": "上下",
+  "⿳": "上下",
+  "⿴": "包圍",
+  "⿵": "半包圍",
+  "⿶": "半包圍",
+  "⿷": "半包圍",
+  "⿸": "半包圍",
+  "⿹": "半包圍",
+  "⿺": "半包圍",
+  // Overlaid components read as a single body
+  "⿻": "獨體",
+};
+
+/**
+ * Parsed IDS node: a component string or an operator with children
+ */
+export type IdsNode =
+  | string
+  | {
+      operator: string;
+      children: IdsNode[];
+    };
+
+/**
+ * Check if a token is an Ideographic Description Character
+ */
+export function isIdc(token: string): boolean {
+  return token in IDC_ARITY;
+}
+
+/**
+ * Split an IDS string into tokens
+ *
+ * Handles astral-plane characters and entity references such as
+ * "&CDP-8B7C;" or "{123}" used for unencoded components.
+ */
+function tokenize(sequence: string): string[] {
+  const tokens: string[] = [];
+  const chars = Array.from(sequence.trim());
+
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const closing = ch === "&" ? ";" : ch === "{" ? "}" : null;
+    if (closing) {
+      const end = chars.indexOf(closing, i);
+      if (end > i) {
+        tokens.push(chars.slice(i, end + 1).join(""));
+        i = end;
+        continue;
+      }
+    }
+    tokens.push(ch);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an IDS string into a component tree
+ *
+ * @returns The parsed tree, or null if the sequence is malformed
+ */
+export function parseIds(sequence: string): IdsNode | null {
+  const tokens = tokenize(sequence);
+  if (tokens.length === 0) return null;
+
+  let pos = 0;
+
+  const parseNode = (): IdsNode | null => {
+    const token = tokens[pos++];
+    if (token === undefined) return null;
+    if (!isIdc(token)) return token;
+
+    const children: IdsNode[] = [];
+    for (let i = 0; i < IDC_ARITY[token]; i++) {
+      const child = parseNode();
+      if (child === null) return null;
+      children.push(child);
+    }
+    return { operator: token, children };
+  };
+
+  const node = parseNode();
+  // Trailing tokens mean the sequence is malformed
+  return node !== null && pos === tokens.length ? node : null;
+}
+
+/**
+ * Collect the leaf components of a node in reading order
+ */
+function leaves(node: IdsNode): string[] {
+  if (typeof node === "string") return [node];
+  return node.children.flatMap(leaves);
+}
+
+/**
+ * Get the top-level components of a character
+ *
+ * Every nested sub-sequence is flattened into its leaves, even where it
+ * writes a character of its own (份 ⿰亻⿱人刀 gives 亻, 人 and 刀), so every
+ * component can be shown as a puzzle piece.
+ */
+export function getComponents(character: string, node: IdsNode): string[] {
+  return typeof node === "string" ? [character] : leaves(node);
+}
+
+/**
+ * Derive the structure type of a character from its IDS tree
+ */
+export function getStructureType(node: IdsNode): StructureType {
+  if (typeof node === "string") return "獨體";
+
+  // 品字: three identical components (品, 晶, 森)
+  const parts = leaves(node);
+  if (parts.length === 3 && parts.every(p => p === parts[0])) {
+    return "品字";
+  }
+
+  return IDC_STRUCTURE[node.operator] || "獨體";
+}
+
+/**
+ * Pick the preferred sequence from a cjkvi-ids line
+ *
+ * Prefers sequences tagged for Taiwan (T) or Hong Kong (H) glyph shapes,
+ * falling back to the first untagged or tagged sequence.
+ */
+function pickSequence(sequences: string[]): string | null {
+  const parsed = sequences.map(raw => {
+    const match = raw.match(/^(.*?)(?:\[([A-Z]+)\])?$/);
+    return { ids: match?.[1] || raw, regions: match?.[2] || "" };
+  });
+
+  const preferred = parsed.find(s => /[TH]/.test(s.regions))
+    || parsed.find(s => s.regions === "")
+    || parsed[0];
+
+  return preferred?.ids || null;
+}
+
+/**
+ * Parse an IDS source file into a character -> IDS map
+ *
+ * Lines starting with ";;" or "#" are comments.
+ */
+export function parseIdsFile(content: string): Map<string, string> {
+  const result = new Map<string, string>();
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith(";;") || line.startsWith("#")) continue;
+
+    const [, character, ...sequences] = line.split("\t");
+    if (!character || sequences.length === 0) continue;
+
+    const ids = pickSequence(sequences.filter(Boolean));
+    if (ids) {
+      result.set(character, ids);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the decomposition of a character from its IDS
+ *
+ * @returns The decomposition, or null if the sequence cannot be parsed
+ */
+export function decomposeIds(character: string, ids: string): CharacterDecomposition | null {
+  const node = parseIds(ids);
+  if (node === null) return null;
+
+  return {
+    ids,
+    components: getComponents(character, node),
+    structureType: getStructureType(node),
+  };
+}
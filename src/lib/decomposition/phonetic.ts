@@ -0,0 +1,102 @@
+/**
+ * Phonetic Series (聲旁家族)
+ *
+ * Most characters of two components combine a semantic radical with a
+ * phonetic component (聲旁) hinting at the reading: 清, 晴, 請 and 精 all
+ * contain 青 (cing1). The hint is loose in modern Cantonese — the final
+ * usually survives while initials and tones drift (包 baau1: 泡 paau1,
+ * 跑 paau2) — so a series keeps the members that rhyme with the phonetic,
+ * labelled with whether the initial matches too. Members that no longer
+ * rhyme (抱 pou5), or that only share a component with it (式 under 工),
+ * give no hint and are left out.
+ */
+
+import type { CharacterDecomposition, JyutpingPattern, PhoneticRelation } from "@/types/fullCharacter";
+import { parseSyllable, type JyutpingSyllable } from "@/lib/jyutping";
+
+/** Relations from closest to loosest */
+export const PHONETIC_RELATIONS: PhoneticRelation[] = ["same", "rhyme"];
+
+/**
+ * Get the phonetic component of a character: the component next to the
+ * radical, for characters made of a radical and one other component
+ *
+ * @returns The phonetic component, or null when there is none
+ */
+export function getPhoneticComponent(
+  decomposition: Pick<CharacterDecomposition, "components" | "radicalComponent">
+): string | null {
+  const { components, radicalComponent } = decomposition;
+  if (components.length !== 2 || radicalComponent === undefined || radicalComponent < 0) return null;
+  const phonetic = components[1 - radicalComponent];
+  return phonetic === components[radicalComponent] ? null : phonetic;
+}
+
+/**
+ * How close a syllable is to a reference syllable, ignoring tones
+ *
+ * @returns The relation, or null when the finals differ
+ */
+function relate(syllable: JyutpingSyllable, reference: Pick<JyutpingSyllable, "final"> & { initial?: string }): PhoneticRelation | null {
+  if (syllable.final !== reference.final) return null;
+  return reference.initial !== undefined && syllable.initial === reference.initial ? "same" : "rhyme";
+}
+
+/**
+ * Get how the readings of a character relate to the reading of its phonetic
+ * (the closest of all its readings)
+ *
+ * @param reference - Reading of the phonetic, or just the final when the
+ * phonetic is not a character of its own (艮)
+ * @returns The relation, or null when no reading rhymes with the phonetic
+ */
+export function getPhoneticRelation(
+  readings: string[],
+  reference: Pick<JyutpingSyllable, "final"> & { initial?: string }
+): PhoneticRelation | null {
+  const relations = readings
+    .map(parseSyllable)
+    .filter((syllable): syllable is JyutpingSyllable => syllable !== null)
+    .map(syllable => relate(syllable, reference));
+  return PHONETIC_RELATIONS.find(relation => relations.includes(relation)) ?? null;
+}
+
+/**
+ * Count values, most frequent first (ties in first-seen order)
+ */
+function byFrequency<T>(values: T[]): T[] {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
+/**
+ * Summarize the readings of a phonetic series: the final most of them share,
+ * and the initials and tones they vary in
+ */
+export function getJyutpingPattern(readings: string[]): JyutpingPattern {
+  const syllables = readings
+    .map(parseSyllable)
+    .filter((syllable): syllable is JyutpingSyllable => syllable !== null);
+  const [final = ""] = byFrequency(syllables.map(s => s.final));
+
+  return {
+    final,
+    finalShare: syllables.length > 0
+      ? Math.round((syllables.filter(s => s.final === final).length / syllables.length) * 100) / 100
+      : 0,
+    initials: byFrequency(syllables.map(s => s.initial)),
+    tones: Array.from(new Set(syllables.flatMap(s => (s.tone === undefined ? [] : [s.tone])))).sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Format a pattern for display, e.g. "(c/z)ing 1/2/4"
+ */
+export function formatJyutpingPattern(pattern: JyutpingPattern): string {
+  const initials = pattern.initials.map(initial => initial || "∅");
+  const initial = initials.length > 1 ? `(${initials.join("/")})` : pattern.initials[0] ?? "";
+  return `${initial}${pattern.final} ${pattern.tones.join("/")}`.trim();
+}
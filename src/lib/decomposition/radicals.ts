@@ -0,0 +1,319 @@
+/**
+ * Kangxi Radicals
+ *
+ * The 214 Kangxi radicals in Kangxi order (by stroke count), with their
+ * component forms and a short meaning for children in both UI languages.
+ * Radicals are written as in the character data (户 rather than 戶).
+ */
+
+import type { RadicalInfo } from "@/types/fullCharacter";
+
+/**
+ * Radical, stroke count, meaning (zh-HK), meaning (en), in Kangxi order
+ */
+const RADICAL_TABLE: Array<[string, number, string, string]> = [
+  // 1 畫
+  ["一", 1, "一、橫線", "one"],
+  ["丨", 1, "直線", "line"],
+  ["丶", 1, "點", "dot"],
+  ["丿", 1, "撇", "slash"],
+  ["乙", 1, "彎彎的線", "bent line"],
+  ["亅", 1, "鈎", "hook"],
+  // 2 畫
+  ["二", 2, "二", "two"],
+  ["亠", 2, "蓋子", "lid"],
+  ["人", 2, "人", "person"],
+  ["儿", 2, "人的雙腿", "legs"],
+  ["入", 2, "進入", "enter"],
+  ["八", 2, "八、分開", "eight; divide"],
+  ["冂", 2, "遠方的邊界", "borders"],
+  ["冖", 2, "蓋着的布", "cover"],
+  ["冫", 2, "冰", "ice"],
+  ["几", 2, "小桌子", "small table"],
+  ["凵", 2, "張開口的盒子", "open box"],
+  ["刀", 2, "刀", "knife"],
+  ["力", 2, "力氣", "strength"],
+  ["勹", 2, "包起來", "wrap"],
+  ["匕", 2, "匙羹", "spoon"],
+  ["匚", 2, "方形的箱子", "box"],
+  ["匸", 2, "收藏起來", "hiding place"],
+  ["十", 2, "十", "ten"],
+  ["卜", 2, "占卜", "fortune telling"],
+  ["卩", 2, "跪着的人", "kneeling person"],
+  ["厂", 2, "山崖", "cliff"],
+  ["厶", 2, "自己的、私下的", "private"],
+  ["又", 2, "右手、再一次", "right hand; again"],
+  // 3 畫
+  ["口", 3, "嘴巴", "mouth"],
+  ["囗", 3, "圍起來", "enclosure"],
+  ["土", 3, "泥土", "earth"],
+  ["士", 3, "讀書人", "scholar"],
+  ["夂", 3, "從後面走來", "go (from behind)"],
+  ["夊", 3, "慢慢走", "walk slowly"],
+  ["夕", 3, "黃昏、晚上", "evening"],
+  ["大", 3, "大", "big"],
+  ["女", 3, "女子", "woman"],
+  ["子", 3, "孩子", "child"],
+  ["宀", 3, "屋頂", "roof"],
+  ["寸", 3, "一寸、手", "inch; hand"],
+  ["小", 3, "小", "small"],
+  ["尢", 3, "跛腳", "lame leg"],
+  ["尸", 3, "身體、屋子", "body; house"],
+  ["屮", 3, "小草芽", "sprout"],
+  ["山", 3, "山", "mountain"],
+  ["巛", 3, "河流", "river"],
+  ["工", 3, "工作", "work"],
+  ["己", 3, "自己", "oneself"],
+  ["巾", 3, "毛巾、布", "cloth"],
+  ["干", 3, "盾牌", "shield"],
+  ["幺", 3, "細小", "tiny"],
+  ["广", 3, "靠着山崖的屋子", "shelter"],
+  ["廴", 3, "走遠路", "long stride"],
+  ["廾", 3, "雙手捧着", "two hands"],
+  ["弋", 3, "綁着繩子的箭", "arrow with string"],
+  ["弓", 3, "弓", "bow"],
+  ["彐", 3, "豬頭", "pig's head"],
+  ["彡", 3, "花紋、毛髮", "pattern; hair"],
+  ["彳", 3, "小步走", "small step"],
+  // 4 畫
+  ["心", 4, "心", "heart"],
+  ["戈", 4, "古代的兵器", "halberd"],
+  ["户", 4, "門戶", "door"],
+  ["手", 4, "手", "hand"],
+  ["支", 4, "樹枝", "branch"],
+  ["攴", 4, "輕輕敲打", "tap"],
+  ["文", 4, "文字、花紋", "writing"],
+  ["斗", 4, "量米的斗", "dipper"],
+  ["斤", 4, "斧頭", "axe"],
+  ["方", 4, "方形、方向", "square; direction"],
+  ["无", 4, "沒有", "not have"],
+  ["日", 4, "太陽", "sun"],
+  ["曰", 4, "說", "say"],
+  ["月", 4, "月亮", "moon"],
+  ["木", 4, "樹木", "tree"],
+  ["欠", 4, "張口呼氣", "yawn"],
+  ["止", 4, "腳、停下來", "foot; stop"],
+  ["歹", 4, "壞、死亡", "bad; death"],
+  ["殳", 4, "長棍兵器", "club"],
+  ["毋", 4, "不要", "do not"],
+  ["比", 4, "比較", "compare"],
+  ["毛", 4, "毛髮", "fur"],
+  ["氏", 4, "家族", "clan"],
+  ["气", 4, "空氣、雲氣", "air; steam"],
+  ["水", 4, "水", "water"],
+  ["火", 4, "火", "fire"],
+  ["爪", 4, "爪", "claw"],
+  ["父", 4, "父親", "father"],
+  ["爻", 4, "交叉的線", "crossing lines"],
+  ["爿", 4, "木板", "split wood"],
+  ["片", 4, "薄片", "slice"],
+  ["牙", 4, "牙齒", "tooth"],
+  ["牛", 4, "牛", "cow"],
+  ["犬", 4, "狗", "dog"],
+  // 5 畫
+  ["玄", 5, "深黑色", "dark"],
+  ["玉", 5, "玉石", "jade"],
+  ["瓜", 5, "瓜", "melon"],
+  ["瓦", 5, "瓦片", "tile"],
+  ["甘", 5, "甜", "sweet"],
+  ["生", 5, "生長", "grow; life"],
+  ["用", 5, "使用", "use"],
+  ["田", 5, "田地", "field"],
+  ["疋", 5, "腳", "foot"],
+  ["疒", 5, "生病", "sickness"],
+  ["癶", 5, "雙腳張開", "footsteps"],
+  ["白", 5, "白色", "white"],
+  ["皮", 5, "皮膚", "skin"],
+  ["皿", 5, "碗碟", "dish"],
+  ["目", 5, "眼睛", "eye"],
+  ["矛", 5, "長矛", "spear"],
+  ["矢", 5, "箭", "arrow"],
+  ["石", 5, "石頭", "stone"],
+  ["示", 5, "拜神", "worship"],
+  ["禸", 5, "野獸的腳印", "animal track"],
+  ["禾", 5, "禾苗", "grain"],
+  ["穴", 5, "洞", "cave"],
+  ["立", 5, "站立", "stand"],
+  // 6 畫
+  ["竹", 6, "竹子", "bamboo"],
+  ["米", 6, "米", "rice"],
+  ["糸", 6, "絲線", "silk thread"],
+  ["缶", 6, "瓦罐", "jar"],
+  ["网", 6, "網", "net"],
+  ["羊", 6, "羊", "sheep"],
+  ["羽", 6, "羽毛", "feather"],
+  ["老", 6, "年老", "old"],
+  ["而", 6, "鬍鬚", "beard"],
+  ["耒", 6, "犁田的工具", "plough"],
+  ["耳", 6, "耳朵", "ear"],
+  ["聿", 6, "毛筆", "brush"],
+  ["肉", 6, "肉", "meat"],
+  ["臣", 6, "大臣", "minister"],
+  ["自", 6, "鼻子、自己", "nose; self"],
+  ["至", 6, "到達", "arrive"],
+  ["臼", 6, "舂米的石臼", "mortar"],
+  ["舌", 6, "舌頭", "tongue"],
+  ["舛", 6, "雙腳相背", "opposite feet"],
+  ["舟", 6, "小船", "boat"],
+  ["艮", 6, "停下來", "stopping"],
+  ["色", 6, "顏色", "colour"],
+  ["艸", 6, "草", "grass"],
+  ["虍", 6, "老虎的花紋", "tiger stripes"],
+  ["虫", 6, "蟲", "insect"],
+  ["血", 6, "血", "blood"],
+  ["行", 6, "行走", "walk"],
+  ["衣", 6, "衣服", "clothes"],
+  ["襾", 6, "蓋起來", "cover"],
+  // 7 畫
+  ["見", 7, "看見", "see"],
+  ["角", 7, "動物的角", "horn"],
+  ["言", 7, "說話", "speech"],
+  ["谷", 7, "山谷", "valley"],
+  ["豆", 7, "豆", "bean"],
+  ["豕", 7, "豬", "pig"],
+  ["豸", 7, "野獸", "beast"],
+  ["貝", 7, "貝殼、錢", "shell; money"],
+  ["赤", 7, "紅色", "red"],
+  ["走", 7, "跑", "run"],
+  ["足", 7, "腳", "foot"],
+  ["身", 7, "身體", "body"],
+  ["車", 7, "車", "cart"],
+  ["辛", 7, "辣、辛苦", "bitter"],
+  ["辰", 7, "時辰", "time"],
+  ["辵", 7, "走路", "walk"],
+  ["邑", 7, "城市", "city"],
+  ["酉", 7, "酒罈", "wine jar"],
+  ["釆", 7, "分辨", "distinguish"],
+  ["里", 7, "鄉里", "village"],
+  // 8 畫
+  ["金", 8, "金屬", "metal; gold"],
+  ["長", 8, "長", "long"],
+  ["門", 8, "門", "gate"],
+  ["阜", 8, "土山", "mound"],
+  ["隶", 8, "捉住", "catch"],
+  ["隹", 8, "短尾巴的鳥", "short-tailed bird"],
+  ["雨", 8, "雨", "rain"],
+  ["青", 8, "青色", "blue-green"],
+  ["非", 8, "不是", "not"],
+  // 9 畫
+  ["面", 9, "臉", "face"],
+  ["革", 9, "皮革", "leather"],
+  ["韋", 9, "柔軟的皮", "soft leather"],
+  ["韭", 9, "韭菜", "chives"],
+  ["音", 9, "聲音", "sound"],
+  ["頁", 9, "頭", "head"],
+  ["風", 9, "風", "wind"],
+  ["飛", 9, "飛", "fly"],
+  ["食", 9, "食物", "food"],
+  ["首", 9, "頭", "head"],
+  ["香", 9, "香", "fragrant"],
+  // 10 畫
+  ["馬", 10, "馬", "horse"],
+  ["骨", 10, "骨頭", "bone"],
+  ["高", 10, "高", "tall"],
+  ["髟", 10, "長頭髮", "long hair"],
+  ["鬥", 10, "打鬥", "fight"],
+  ["鬯", 10, "祭祀用的香酒", "sacrificial wine"],
+  ["鬲", 10, "古代的鍋", "cauldron"],
+  ["鬼", 10, "鬼", "ghost"],
+  // 11 畫
+  ["魚", 11, "魚", "fish"],
+  ["鳥", 11, "鳥", "bird"],
+  ["鹵", 11, "鹽", "salt"],
+  ["鹿", 11, "鹿", "deer"],
+  ["麥", 11, "麥", "wheat"],
+  ["麻", 11, "麻", "hemp"],
+  // 12 畫
+  ["黃", 12, "黃色", "yellow"],
+  ["黍", 12, "黍米", "millet"],
+  ["黑", 12, "黑色", "black"],
+  ["黹", 12, "刺繡", "embroidery"],
+  // 13 畫
+  ["黽", 13, "青蛙", "frog"],
+  ["鼎", 13, "三隻腳的鍋", "tripod cauldron"],
+  ["鼓", 13, "鼓", "drum"],
+  ["鼠", 13, "老鼠", "mouse"],
+  // 14 畫
+  ["鼻", 14, "鼻子", "nose"],
+  ["齊", 14, "整齊", "even"],
+  // 15 畫
+  ["齒", 15, "牙齒", "teeth"],
+  // 16 畫
+  ["龍", 16, "龍", "dragon"],
+  ["龜", 16, "烏龜", "turtle"],
+  // 17 畫
+  ["龠", 17, "笛子", "flute"],
+];
+
+/**
+ * Component forms of radicals, e.g. 氵 for 水
+ */
+const RADICAL_VARIANTS: Record<string, string[]> = {
+  "人": ["亻"],
+  "刀": ["刂"],
+  "匸": ["匚"],
+  "卩": ["㔾"],
+  "小": ["⺌"],
+  "尢": ["尣"],
+  "巛": ["川"],
+  "彐": ["彑"],
+  "心": ["忄", "⺗"],
+  "户": ["戶"],
+  "手": ["扌"],
+  "攴": ["攵"],
+  "歹": ["歺"],
+  "水": ["氵", "氺"],
+  "火": ["灬"],
+  "爪": ["爫"],
+  "牛": ["牜"],
+  "犬": ["犭"],
+  "玉": ["王"],
+  "示": ["礻"],
+  "竹": ["⺮"],
+  "糸": ["糹"],
+  "网": ["罒"],
+  "老": ["耂"],
+  "肉": ["月"],
+  "艸": ["艹"],
+  "衣": ["衤"],
+  "言": ["訁"],
+  "足": ["⻊"],
+  "辵": ["辶"],
+  "邑": ["阝"],
+  "阜": ["阝"],
+  "金": ["釒"],
+  "食": ["飠"],
+};
+
+/** The 214 Kangxi radicals, in Kangxi order */
+export const KANGXI_RADICALS: RadicalInfo[] = RADICAL_TABLE.map(([radical, strokes, zh, en], i) => ({
+  number: i + 1,
+  radical,
+  strokes,
+  variants: RADICAL_VARIANTS[radical] || [],
+  meaning: { "zh-HK": zh, en },
+}));
+
+const RADICALS_BY_CHAR = new Map(KANGXI_RADICALS.map(info => [info.radical, info]));
+
+/**
+ * Get a Kangxi radical by its character or one of its component forms
+ * (氵 → 水). Forms shared by two radicals (阝) resolve to the first.
+ */
+export function getRadicalInfo(radical: string): RadicalInfo | null {
+  return RADICALS_BY_CHAR.get(radical) ?? KANGXI_RADICALS.find(info => info.variants.includes(radical)) ?? null;
+}
+
+/**
+ * Get the stroke count of a radical (0 when it is not a Kangxi radical)
+ */
+export function getRadicalStrokeCount(radical: string): number {
+  return RADICALS_BY_CHAR.get(radical)?.strokes ?? 0;
+}
+
+/**
+ * Get a radical and its component forms (e.g. 水, 氵, 氺)
+ */
+export function getRadicalForms(radical: string): string[] {
+  return [radical, ...(RADICAL_VARIANTS[radical] || [])];
+}
@@ -0,0 +1,140 @@
+/**
+ * Stroke to Component Mapping
+ *
+ * Works out which component of a decomposition each stroke belongs to,
+ * from the stroke count of every component and the stroke bounding boxes.
+ *
+ * Components are written one after another in reading order (清 = 氵
+ * then 青), except for surrounding components, which follow the usual
+ * stroke order rules:
+ * - 辶, 廴 and bottom surrounds (凶) are written after what they enclose (這)
+ * - full, left and upper-right surrounds are split around what they enclose
+ *   (國 = two strokes of 囗, 或, the closing stroke of 囗; 區, 可). Where to
+ *   split is decided by the stroke bounding boxes: the enclosed components
+ *   should be as small as possible.
+ */
+
+import type { CharacterDecomposition } from "@/types/fullCharacter";
+import { boundsArea, mergeBounds, type Bounds } from "@/lib/strokes/bounds";
+import { getRadicalForms } from "./radicals";
+
+/**
+ * Writing order of surrounding components, by top-level IDS operator
+ * - outerFirst: the surrounding component, then the rest
+ * - innerFirst: the enclosed components, then the surrounding one
+ * - split: part of the surrounding component, the rest, then the remainder
+ */
+const SURROUND_ORDER: Record<string, "outerFirst" | "innerFirst" | "split"> = {
+  "⿴": "split",
+  "⿵": "outerFirst",
+  "⿶": "innerFirst",
+  "⿷": "split",
+  "⿸": "outerFirst",
+  "⿹": "split",
+  "⿺": "outerFirst",
+};
+
+/** Surrounding components written last (這, 建) */
+const WRITTEN_LAST = ["辶", "廴"];
+
+/**
+ * Find the component that is the radical of a character
+ *
+ * @returns Index into components, or -1 when the radical is not a component
+ */
+export function findRadicalComponent(radical: string, components: string[]): number {
+  const forms = getRadicalForms(radical);
+  return components.findIndex(component => forms.includes(component));
+}
+
+/**
+ * Learn stroke counts of components that are not characters of their own
+ * (e.g. 氵, 辶) from decompositions where they are the only unknown part
+ *
+ * Counts are voted on across characters and the most common one wins; newly
+ * learned counts can resolve further characters, so this repeats until
+ * nothing changes.
+ *
+ * @param decompositions - Components and total stroke count of characters
+ * @param known - Known stroke counts (characters and radicals)
+ * @returns Known and learned stroke counts
+ */
+export function inferComponentStrokeCounts(
+  decompositions: Array<{ components: string[]; strokeCount: number }>,
+  known: Map<string, number>
+): Map<string, number> {
+  const counts = new Map(known);
+
+  for (;;) {
+    const votes = new Map<string, Map<number, number>>();
+    decompositions.forEach(({ components, strokeCount }) => {
+      // One unknown component, possibly repeated (e.g. 林 if 木 were unknown)
+      const unknown = components.filter(c => !counts.has(c));
+      if (components.length < 2 || unknown.length === 0 || unknown.some(c => c !== unknown[0])) return;
+
+      const knownStrokes = components.reduce((sum, c) => sum + (counts.get(c) ?? 0), 0);
+      const residual = (strokeCount - knownStrokes) / unknown.length;
+      if (residual <= 0 || !Number.isInteger(residual)) return;
+
+      const componentVotes = votes.get(unknown[0]) || new Map<number, number>();
+      componentVotes.set(residual, (componentVotes.get(residual) || 0) + 1);
+      votes.set(unknown[0], componentVotes);
+    });
+
+    if (votes.size === 0) return counts;
+    votes.forEach((componentVotes, component) => {
+      const [best] = Array.from(componentVotes.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+      counts.set(component, best[0]);
+    });
+  }
+}
+
+/**
+ * Map each stroke of a character to the component it belongs to
+ *
+ * @param decomposition - Decomposition of the character
+ * @param componentStrokes - Stroke count of each component
+ * @param strokeBounds - Bounding box of each stroke, in stroke order
+ * @returns Component index of each stroke, or null when the component stroke
+ * counts do not add up to the strokes of the character
+ */
+export function mapStrokesToComponents(
+  decomposition: CharacterDecomposition,
+  componentStrokes: number[],
+  strokeBounds: Bounds[]
+): number[] | null {
+  const { components } = decomposition;
+  if (components.length === 1) return strokeBounds.map(() => 0);
+
+  const total = componentStrokes.reduce((sum, count) => sum + count, 0);
+  if (componentStrokes.length !== components.length || total !== strokeBounds.length) return null;
+
+  const block = (component: number, count: number) => Array<number>(count).fill(component);
+  const inner = components.slice(1).flatMap((_, i) => block(i + 1, componentStrokes[i + 1]));
+  const outerStrokes = componentStrokes[0];
+
+  const order = decomposition.structureType === "包圍" || decomposition.structureType === "半包圍"
+    ? WRITTEN_LAST.includes(components[0]) ? "innerFirst" : SURROUND_ORDER[Array.from(decomposition.ids)[0]]
+    : undefined;
+
+  if (order === "innerFirst") {
+    return [...inner, ...block(0, outerStrokes)];
+  }
+  if (order !== "split") {
+    return [...block(0, outerStrokes), ...inner];
+  }
+
+  // Split the surrounding component where the enclosed strokes are most compact
+  let best: number[] = [];
+  let bestArea = Infinity;
+  for (let before = outerStrokes; before >= 1; before--) {
+    const assignment = [...block(0, before), ...inner, ...block(0, outerStrokes - before)];
+    const enclosed = strokeBounds.filter((_, stroke) => assignment[stroke] !== 0);
+    const area = boundsArea(mergeBounds(enclosed));
+    if (area < bestArea) {
+      best = assignment;
+      bestArea = area;
+    }
+  }
+  return best;
+}
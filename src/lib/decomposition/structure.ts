@@ -0,0 +1,306 @@
+/**
+ * Structure Inference
+ *
+ * Infers the structure type (左右/上下/包圍/半包圍/品字/獨體) of a character
+ * from its stroke geometry, for characters without an IDS decomposition.
+ * Only the layout is inferred, not the components.
+ *
+ * Components are written one after another, so candidate components are
+ * runs of consecutive strokes. In order:
+ * - 左右/上下: the first strokes and the rest are separated by a vertical or
+ *   horizontal cut through the stroke bounding boxes
+ * - 品字: a 上下 cut whose bottom splits into two groups side by side, all
+ *   three of similar size
+ * - 包圍/半包圍: the first and/or last strokes (the frame) run along the
+ *   sides of the remaining strokes without reaching into them; the stroke
+ *   medians are used here, since the bounding box of a bent stroke (𠃌)
+ *   does not tell which sides it covers
+ * - 獨體: none of the above
+ *
+ * Checked against the IDS decompositions of all 4762 characters, 81% of the
+ * structure types match. By inferred type, 左右 is right 96% of the time,
+ * 上下 80%, 包圍 13 of 18, 半包圍 62% and 獨體 only 30%; of the characters
+ * the IDS calls 半包圍 or 獨體, only 41% and 44% are found, as open frames
+ * (司, 周) and 獨體 made of separate parts (小, 心) look like cuts. The
+ * confidence is the share of matches among inferences like it, in the
+ * buckets below.
+ */
+
+import type { InferredStructure, StrokeVector } from "@/types/fullCharacter";
+import type { StructureType } from "@/types/character";
+import { getStrokeBounds, mergeBounds, type Bounds } from "@/lib/strokes/bounds";
+import { groupStrokes } from "@/lib/strokes/groups";
+import { getStrokeMedians, resamplePoints, type Point } from "@/lib/strokes/trace";
+
+/** Structure types of decompositions and inferred structures */
+export const STRUCTURE_TYPES: StructureType[] = ["獨體", "左右", "上下", "包圍", "半包圍", "品字"];
+
+export function isStructureType(value: string): value is StructureType {
+  return (STRUCTURE_TYPES as string[]).includes(value);
+}
+
+type Axis = "x" | "y";
+type Side = "left" | "top" | "right" | "bottom";
+
+const SIDES: Side[] = ["left", "top", "right", "bottom"];
+
+/**
+ * Best split of the strokes into the first strokes and the rest, along one axis
+ */
+interface Cut {
+  axis: Axis;
+  /** Number of strokes before the cut */
+  split: number;
+  /** How far the two groups overlap, as a fraction of the character size (negative: gap) */
+  overlap: number;
+}
+
+/**
+ * Frame strokes around the remaining strokes
+ */
+interface Enclosure {
+  /** Sides of the enclosed strokes covered by the frame */
+  sides: Side[];
+  /** Smallest space between the frame and the enclosed strokes, as a fraction of the character size */
+  margin: number;
+}
+
+/** Overlap of stroke bounding boxes still accepted between the two groups of a cut */
+const MAX_CUT_OVERLAP = 0.12;
+
+/** Smallest share of the character size each group of a cut (or enclosed group) must take up */
+const MIN_PART_SIZE = 0.25;
+
+/** Share of a side of the enclosed strokes the frame must run along to cover it */
+const MIN_SIDE_COVERAGE = 0.6;
+
+/** Most strokes of a surrounding component (門, 走) */
+const MAX_FRAME_STROKES = 10;
+
+/** Most closing strokes of a surrounding component written around its content (囗) */
+const MAX_CLOSING_STROKES = 2;
+
+/** Smallest size similarity of the three groups of 品字 */
+const MIN_PIN_SIMILARITY = 0.6;
+
+/** Points per stroke median */
+const MEDIAN_POINTS = 24;
+
+/**
+ * Confidence of a cut by its overlap: [largest overlap, confidence] in
+ * ascending order. Wide gaps match less often, as parts of a 獨體 can stand
+ * apart; 上下 is less reliable than 左右 overall.
+ */
+const CUT_CONFIDENCE: Record<Axis, Array<[number, number]>> = {
+  x: [[-0.1, 0.45], [-0.05, 0.88], [MAX_CUT_OVERLAP, 0.96]],
+  y: [[-0.05, 0.65], [0.04, 0.85], [0.08, 0.78], [MAX_CUT_OVERLAP, 0.65]],
+};
+
+/**
+ * Confidence of a cut whose groups both consist of single-segment strokes:
+ * such strokes are often cut short in the stroke data (己), leaving gaps
+ */
+const SINGLE_SEGMENT_CUT_CONFIDENCE = 0.4;
+
+/** Confidence of 包圍 and 半包圍, which do not improve with the margin */
+const ENCLOSURE_CONFIDENCE = { full: 0.7, half: 0.6 };
+
+/** Confidence of 獨體 by how close the nearest cut came: [largest overlap, confidence] */
+const SINGLE_CONFIDENCE: Array<[number, number]> = [[0.2, 0.1], [0.3, 0.2], [0.4, 0.4], [0.6, 0.55], [Infinity, 0.9]];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Confidence of the first bucket a value falls into */
+const fromBuckets = (value: number, buckets: Array<[number, number]>) =>
+  (buckets.find(([limit]) => value <= limit) ?? buckets[buckets.length - 1])[1];
+
+const low = (box: Bounds, axis: Axis) => (axis === "x" ? box.minX : box.minY);
+
+const high = (box: Bounds, axis: Axis) => (axis === "x" ? box.maxX : box.maxY);
+
+const size = (box: Bounds, axis: Axis) => high(box, axis) - low(box, axis);
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+/**
+ * Find where to split a run of strokes into the strokes before and after,
+ * so that the two groups overlap least along an axis
+ *
+ * Both groups must take up at least MIN_PART_SIZE of the run along the axis.
+ */
+function findCut(boxes: Bounds[], from: number, to: number, axis: Axis): Cut | null {
+  const extent = Math.max(1, size(mergeBounds(boxes.slice(from, to)), axis));
+
+  let best: Cut | null = null;
+  for (let split = from + 1; split < to; split++) {
+    const first = mergeBounds(boxes.slice(from, split));
+    const second = mergeBounds(boxes.slice(split, to));
+    if (size(first, axis) < MIN_PART_SIZE * extent || size(second, axis) < MIN_PART_SIZE * extent) continue;
+
+    const overlap = (high(first, axis) - low(second, axis)) / extent;
+    if (!best || overlap < best.overlap) {
+      best = { axis, split, overlap };
+    }
+  }
+  return best;
+}
+
+/**
+ * How far a point lies beyond a side of a box (negative: inside)
+ */
+function beyondSide(point: Point, box: Bounds, side: Side): number {
+  switch (side) {
+    case "left": return box.minX - point.x;
+    case "top": return box.minY - point.y;
+    case "right": return point.x - box.maxX;
+    case "bottom": return point.y - box.maxY;
+  }
+}
+
+/**
+ * Check how the frame strokes run around the enclosed strokes
+ *
+ * A side is covered when frame median points beyond the enclosed strokes on
+ * that side span at least MIN_SIDE_COVERAGE of it. Frame points within the
+ * bounding box of the enclosed strokes give a negative margin.
+ */
+function getEnclosure(inner: Bounds, frame: Point[][], characterSize: number): Enclosure {
+  const points = frame.flat();
+  const sides: Side[] = [];
+  let margin = Infinity;
+
+  SIDES.forEach(side => {
+    const across: Axis = side === "left" || side === "right" ? "y" : "x";
+    const outside = points.filter(p =>
+      beyondSide(p, inner, side) > 0 && p[across] >= low(inner, across) && p[across] <= high(inner, across)
+    );
+    if (outside.length === 0) return;
+
+    const spanned = Math.max(...outside.map(p => p[across])) - Math.min(...outside.map(p => p[across]));
+    if (spanned < MIN_SIDE_COVERAGE * size(inner, across)) return;
+
+    sides.push(side);
+    margin = Math.min(margin, ...outside.map(p => beyondSide(p, inner, side)));
+  });
+
+  points.forEach(p => {
+    const depth = Math.min(...SIDES.map(side => -beyondSide(p, inner, side)));
+    if (depth >= 0) margin = Math.min(margin, -depth);
+  });
+
+  return { sides, margin: margin / characterSize };
+}
+
+/**
+ * Check whether the sides covered by a frame make a surround: all four
+ * sides, three sides, or two adjacent sides
+ */
+function isSurround(sides: Side[]): boolean {
+  if (sides.length !== 2) return sides.length >= 3;
+  return !(sides.includes("left") && sides.includes("right")) && !(sides.includes("top") && sides.includes("bottom"));
+}
+
+/**
+ * Find the frame that best encloses the other strokes: the first strokes,
+ * the last strokes (辶), or the first strokes and the closing strokes (囗)
+ */
+function findEnclosure(boxes: Bounds[], medians: Point[][], characterSize: number): Enclosure | null {
+  const n = boxes.length;
+  const candidates: Array<[number, number]> = [];
+  for (let before = 0; before <= Math.min(MAX_FRAME_STROKES, n - 1); before++) {
+    for (let after = 0; after <= Math.min(MAX_FRAME_STROKES, n - 1 - before); after++) {
+      if (before + after === 0 || (before > 0 && after > MAX_CLOSING_STROKES)) continue;
+      candidates.push([before, after]);
+    }
+  }
+
+  let best: Enclosure | null = null;
+  candidates.forEach(([before, after]) => {
+    const inner = mergeBounds(boxes.slice(before, n - after));
+    if (size(inner, "x") < MIN_PART_SIZE * characterSize || size(inner, "y") < MIN_PART_SIZE * characterSize) return;
+
+    const frame = [...range(0, before), ...range(n - after, n)].map(i => medians[i]);
+    const enclosure = getEnclosure(inner, frame, characterSize);
+    if (!isSurround(enclosure.sides) || enclosure.margin < 0) return;
+
+    if (
+      !best ||
+      enclosure.sides.length > best.sides.length ||
+      (enclosure.sides.length === best.sides.length && enclosure.margin > best.margin)
+    ) {
+      best = enclosure;
+    }
+  });
+  return best;
+}
+
+/**
+ * Check whether a cut into top and bottom splits further into 品字
+ *
+ * @returns Size similarity of the three groups (0-1), or 0 when not 品字
+ */
+function getPinSimilarity(boxes: Bounds[], cut: Cut): number {
+  if (cut.axis !== "y") return 0;
+  const n = boxes.length;
+  const topCut = findCut(boxes, 0, cut.split, "x");
+  const bottomCut = findCut(boxes, cut.split, n, "x");
+  if (!bottomCut || bottomCut.overlap > MAX_CUT_OVERLAP) return 0;
+  if (topCut && topCut.overlap <= MAX_CUT_OVERLAP) return 0;
+
+  const groups: Array<[number, number]> = [[0, cut.split], [cut.split, bottomCut.split], [bottomCut.split, n]];
+  const parts = groups.map(([from, to]) => mergeBounds(boxes.slice(from, to)));
+  const similarity = (values: number[]) => Math.min(...values) / Math.max(1, ...values);
+  return Math.min(
+    similarity(parts.map(part => size(part, "x"))),
+    similarity(parts.map(part => size(part, "y"))),
+    similarity(groups.map(([from, to]) => to - from))
+  );
+}
+
+/**
+ * Infer the structure type of a character from its strokes
+ *
+ * The confidence is calibrated against the IDS decompositions: by the
+ * overlap of the cut, by the type of enclosure, and for 獨體 by how far the
+ * strokes are from a clean cut.
+ */
+export function inferStructureType(strokeVectors: StrokeVector[]): InferredStructure {
+  const strokeBounds = getStrokeBounds(strokeVectors);
+  const strokeMedians = getStrokeMedians(strokeVectors).map(median => resamplePoints(median.points, MEDIAN_POINTS));
+  const strokes = range(0, strokeBounds.length).filter(i => strokeMedians[i].length > 0);
+  const boxes = strokes.map(i => strokeBounds[i]);
+  const medians = strokes.map(i => strokeMedians[i]);
+  const segmentCounts = groupStrokes(strokeVectors).map(group => group.segments.length);
+  const singleSegments = strokes.map(i => segmentCounts[i] === 1);
+  if (boxes.length < 2) {
+    return { structureType: "獨體", confidence: 1 };
+  }
+
+  const whole = mergeBounds(boxes);
+  const characterSize = Math.max(1, size(whole, "x"), size(whole, "y"));
+
+  const cuts = [findCut(boxes, 0, boxes.length, "x"), findCut(boxes, 0, boxes.length, "y")]
+    .filter((cut): cut is Cut => cut !== null)
+    .sort((a, b) => a.overlap - b.overlap);
+  const [cut] = cuts;
+  if (cut && cut.overlap <= MAX_CUT_OVERLAP) {
+    const singleSegmentCut = singleSegments.every(Boolean);
+    const confidence = singleSegmentCut ? SINGLE_SEGMENT_CUT_CONFIDENCE : fromBuckets(cut.overlap, CUT_CONFIDENCE[cut.axis]);
+    const pin = getPinSimilarity(boxes, cut);
+    if (pin >= MIN_PIN_SIMILARITY) {
+      return { structureType: "品字", confidence: round(Math.min(confidence, pin)) };
+    }
+    return { structureType: cut.axis === "x" ? "左右" : "上下", confidence: round(confidence) };
+  }
+
+  const enclosure = findEnclosure(boxes, medians, characterSize);
+  if (enclosure) {
+    return enclosure.sides.length === 4
+      ? { structureType: "包圍", confidence: ENCLOSURE_CONFIDENCE.full }
+      : { structureType: "半包圍", confidence: ENCLOSURE_CONFIDENCE.half };
+  }
+
+  // The closer the strokes came to a clean cut, the less certain
+  const nearest = cut ? cut.overlap : 1;
+  return { structureType: "獨體", confidence: fromBuckets(nearest, SINGLE_CONFIDENCE) };
+}
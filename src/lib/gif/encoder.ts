@@ -0,0 +1,231 @@
+/**
+ * GIF Encoder
+ *
+ * Minimal GIF89a encoder for animations with a single global palette of up
+ * to 256 colors. Frames are given as palette indices; use quantizeToPalette
+ * to convert RGBA pixels (e.g. canvas image data) to indices.
+ */
+
+/**
+ * One animation frame
+ */
+export interface GifFrame {
+  /** Palette index of every pixel, row by row */
+  indices: Uint8Array;
+  /** How long the frame is shown, in milliseconds */
+  delay: number;
+}
+
+export interface GifOptions {
+  width: number;
+  height: number;
+  /** Colors as 0xRRGGBB; at most 256 */
+  palette: number[];
+  frames: GifFrame[];
+  /** Repeat forever instead of playing once (default: true) */
+  loop?: boolean;
+}
+
+/** Maximum number of LZW codes */
+const MAX_CODES = 4096;
+
+/** Shortest frame delay (in 1/100 s) that browsers respect */
+const MIN_DELAY = 2;
+
+/**
+ * Parse a "#RRGGBB" color
+ */
+export function parseHexColor(hex: string): number {
+  return parseInt(hex.replace("#", ""), 16);
+}
+
+/**
+ * Map RGBA pixels to the index of the nearest palette color (alpha is ignored)
+ */
+export function quantizeToPalette(rgba: Uint8ClampedArray, palette: number[]): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  // Rendered images contain few distinct colors, so nearest colors are cached
+  const cache = new Map<number, number>();
+
+  for (let i = 0; i < indices.length; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = 0;
+      let best = Infinity;
+      palette.forEach((color, p) => {
+        const dr = r - ((color >> 16) & 0xff);
+        const dg = g - ((color >> 8) & 0xff);
+        const db = b - (color & 0xff);
+        const d = dr * dr + dg * dg + db * db;
+        if (d < best) {
+          best = d;
+          index = p;
+        }
+      });
+      cache.set(key, index);
+    }
+    indices[i] = index;
+  }
+
+  return indices;
+}
+
+/**
+ * Byte writer with little-endian helpers
+ */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  text(value: string) {
+    for (const ch of value) this.byte(ch.charCodeAt(0));
+  }
+
+  /** Write data as length-prefixed sub-blocks of up to 255 bytes */
+  subBlocks(data: number[]) {
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      this.byte(block.length);
+      block.forEach(b => this.byte(b));
+    }
+    this.byte(0);
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Compress palette indices with GIF's variable-length LZW
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      // Table full: start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+
+  return output;
+}
+
+/**
+ * Encode an animated GIF
+ */
+export function encodeGif({ width, height, palette, frames, loop = true }: GifOptions): Uint8Array {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error("GIF palette must have 1-256 colors");
+  }
+
+  // The color table size is a power of two, at least 4 colors
+  const tableBits = Math.max(2, Math.ceil(Math.log2(palette.length)));
+  const tableSize = 1 << tableBits;
+
+  const out = new ByteWriter();
+  out.text("GIF89a");
+
+  // Logical screen descriptor with a global color table
+  out.word(width);
+  out.word(height);
+  out.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1));
+  out.byte(0); // background color index
+  out.byte(0); // pixel aspect ratio
+
+  for (let i = 0; i < tableSize; i++) {
+    const color = palette[i] ?? 0;
+    out.byte(color >> 16);
+    out.byte(color >> 8);
+    out.byte(color);
+  }
+
+  if (loop) {
+    // NETSCAPE2.0 extension: repeat forever
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text("NETSCAPE2.0");
+    out.byte(3);
+    out.byte(1);
+    out.word(0);
+    out.byte(0);
+  }
+
+  frames.forEach(frame => {
+    // Graphic control extension: delay, no transparency
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0x04); // disposal: leave in place
+    out.word(Math.max(MIN_DELAY, Math.round(frame.delay / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor covering the whole screen, using the global table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+
+    out.byte(tableBits);
+    out.subBlocks(lzwEncode(frame.indices, tableBits));
+  });
+
+  out.byte(0x3b);
+  return out.toUint8Array();
+}
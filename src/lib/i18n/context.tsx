@@ -2,19 +2,27 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { translations, Language, TranslationKey } from "./translations";
+import { convertJyutping, isRomanization, type Romanization } from "@/lib/jyutping";
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
   t: (key: TranslationKey) => string;
+  /** Romanization used to display pronunciation */
+  romanization: Romanization;
+  setRomanization: (system: Romanization) => void;
+  /** Render Jyutping in the selected romanization */
+  romanize: (jyutping: string) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 const STORAGE_KEY = "canto-hanzi-language";
+const ROMANIZATION_STORAGE_KEY = "canto-hanzi-romanization";
 
 export function LanguageProvider({ children }: { children: ReactNode }) {
   const [language, setLanguageState] = useState<Language>("zh-HK");
+  const [romanization, setRomanizationState] = useState<Romanization>("jyutping");
   const [mounted, setMounted] = useState(false);
 
   // Load saved language preference on mount
@@ -26,6 +34,12 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
         setLanguageState(saved);
       }, 0);
     }
+    const savedRomanization = localStorage.getItem(ROMANIZATION_STORAGE_KEY);
+    if (savedRomanization && isRomanization(savedRomanization)) {
+      setTimeout(() => {
+        setRomanizationState(savedRomanization);
+      }, 0);
+    }
     // Schedule mounted state update to avoid synchronous setState in effect
     setTimeout(() => {
       setMounted(true);
@@ -38,6 +52,17 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
     localStorage.setItem(STORAGE_KEY, lang);
   };
 
+  // Save romanization preference
+  const setRomanization = (system: Romanization) => {
+    setRomanizationState(system);
+    localStorage.setItem(ROMANIZATION_STORAGE_KEY, system);
+  };
+
+  // Pronunciation display function
+  const romanize = (jyutping: string): string => {
+    return convertJyutping(jyutping, romanization);
+  };
+
   // Translation function
   const t = (key: TranslationKey): string => {
     return translations[language][key] || translations["zh-HK"][key] || key;
@@ -46,14 +71,23 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
   // Avoid hydration mismatch by not rendering until mounted
   if (!mounted) {
     return (
-      <LanguageContext.Provider value={{ language: "zh-HK", setLanguage, t: (key) => translations["zh-HK"][key] || key }}>
+      <LanguageContext.Provider
+        value={{
+          language: "zh-HK",
+          setLanguage,
+          t: (key) => translations["zh-HK"][key] || key,
+          romanization: "jyutping",
+          setRomanization,
+          romanize: (jyutping) => jyutping,
+        }}
+      >
         {children}
       </LanguageContext.Provider>
     );
   }
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, romanization, setRomanization, romanize }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -48,6 +48,13 @@ export const translations = {
     strokeCount: "筆畫",
     strokeCountLabel: "筆劃數目",
     jyutping: "粵拼",
+    jyutpingMode: "粵拼配對方式",
+    jyutpingModeExact: "完全相同",
+    jyutpingModeToneless: "不計聲調",
+    jyutpingModeInitial: "相同聲母",
+    jyutpingModeFinal: "相同韻母",
+    strokeSequence: "筆順",
+    deleteStroke: "刪除一筆",
     all: "全部",
     clear: "清除",
     noResults: "找不到符合條件的漢字",
@@ -63,6 +70,11 @@ export const translations = {
     listenPronunciation: "聽發音",
     playPronunciation: "播放讀音",
     mandarinPronunciation: "普通話",
+    polyphonic: "多音字",
+    homophones: "同音字",
+    otherTones: "其他聲調",
+    noHomophones: "沒有同音字",
+    similarCharacters: "易混淆字",
     
     // Related words
     commonWords: "常用詞語",
@@ -82,6 +94,33 @@ export const translations = {
     playing: "播放中",
     stop: "停止",
     showStrokes: "顯示筆順",
+    writeStrokes: "寫寫看",
+    traceInstruction: "跟住灰色字，一筆一筆寫",
+    traceWrongOrder: "筆順不對，想想下一筆先",
+    traceWrongDirection: "方向反了，由另一頭開始寫",
+    traceWrongStart: "起筆位置不對",
+    traceWrongPosition: "沿住灰色筆畫寫",
+    traceHint: "提示：由圓點開始寫紅色嗰筆",
+    strokeTypeHeng: "橫",
+    strokeTypeTi: "提",
+    strokeTypeShu: "豎",
+    strokeTypePie: "撇",
+    strokeTypeDian: "點",
+    strokeTypeNa: "捺",
+    strokeTypeZhe: "折",
+    strokeTypeGou: "鈎",
+    previousStroke: "上一筆",
+    nextStroke: "下一筆",
+    playerSettings: "播放設定",
+    playbackSpeed: "速度",
+    loopAnimation: "重複播放",
+    showStrokeNumbers: "顯示筆畫編號",
+    highlightRadical: "標示部首",
+    gridStyle: "格子",
+    gridNone: "無格",
+    downloadSvg: "下載 SVG",
+    downloadGif: "下載 GIF",
+    exporting: "製作中…",
     
     // Loading & errors
     loading: "正在載入...",
@@ -98,6 +137,11 @@ export const translations = {
     english: "English",
     switchToDark: "切換深色模式",
     switchToLight: "切換淺色模式",
+    romanization: "拼音方案",
+    romanizationJyutping: "粵拼",
+    romanizationYale: "耶魯",
+    romanizationYaleNumbered: "耶魯（數字）",
+    romanizationIpa: "國際音標",
     
     // Flashcard
     flashcardSettings: "字卡設定",
@@ -133,11 +177,55 @@ export const translations = {
     dropHere: "放到這裏：",
     byComponent: "按部件",
     availableComponents: "可用部件：",
+    components: "部件",
+    tapComponent: "按部件看看佢嘅筆畫",
     checkAnswer: "檢查答案",
     correctAnswer: "答對了！",
     tryAgainAnswer: "再試一次",
     correctIs: "正確",
     
+    // Stroke order quiz
+    strokeOrderQuiz: "筆順測驗",
+    strokeOrderQuizDesc: "睇吓個字寫到邊，揀出下一筆",
+    whichStrokeNext: "下一筆係邊一筆？",
+    strokeOption: "選項",
+    maxStrokesOption: "最多筆畫",
+    
+    // Worksheet
+    worksheet: "習字練習紙",
+    worksheetDesc: "輸入要練習的字，列印田字格或米字格練習紙",
+    worksheetTitle: "習字練習",
+    worksheetName: "姓名",
+    worksheetDate: "日期",
+    worksheetChars: "練習的字",
+    worksheetGrid: "格子",
+    gridTian: "田字格",
+    gridMi: "米字格",
+    gridJiu: "九宮格",
+    traceCopies: "描紅次數",
+    emptyRows: "空白行數",
+    printWorksheet: "列印 / 另存 PDF",
+    moreTools: "更多工具",
+    
+    // Phonetic series
+    phoneticSeries: "聲旁家族",
+    phoneticSeriesDesc: "同一聲旁的字，讀音往往相近",
+    phoneticComponent: "聲旁",
+    readingPattern: "讀音規律",
+    initialsLabel: "聲母",
+    finalLabel: "韻母",
+    tonesLabel: "聲調",
+    relationSame: "同音",
+    relationRhyme: "同韻",
+    
+    // Radical chart
+    radicalBrowser: "部首表",
+    radicalBrowserDesc: "每個字都有部首，部首常常告訴我們字的意思",
+    kangxiNumber: "康熙部首",
+    variantForms: "變形",
+    meaningLabel: "意思",
+    residualStrokes: "部首以外的筆畫",
+    
     // Mascot
     pandaName: "小熊貓",
     pandaMessage: "一起學習漢字！",
@@ -194,6 +282,13 @@ export const translations = {
     strokeCount: "Strokes",
     strokeCountLabel: "Stroke Count",
     jyutping: "Jyutping",
+    jyutpingMode: "Jyutping match",
+    jyutpingModeExact: "Exact",
+    jyutpingModeToneless: "Any tone",
+    jyutpingModeInitial: "Same initial",
+    jyutpingModeFinal: "Same final",
+    strokeSequence: "Stroke Order",
+    deleteStroke: "Delete stroke",
     all: "All",
     clear: "Clear",
     noResults: "No characters found",
@@ -209,6 +304,11 @@ export const translations = {
     listenPronunciation: "Listen",
     playPronunciation: "Play Sound",
     mandarinPronunciation: "Mandarin",
+    polyphonic: "Multiple readings",
+    homophones: "Homophones",
+    otherTones: "Other tones",
+    noHomophones: "No homophones",
+    similarCharacters: "Look-alike Characters",
     
     // Related words
     commonWords: "Common Words",
@@ -228,6 +328,33 @@ export const translations = {
     playing: "Playing",
     stop: "Stop",
     showStrokes: "Show Strokes",
+    writeStrokes: "Write It",
+    traceInstruction: "Trace the grey character stroke by stroke",
+    traceWrongOrder: "Wrong stroke order - which stroke comes next?",
+    traceWrongDirection: "Wrong direction - start from the other end",
+    traceWrongStart: "Start the stroke from the right place",
+    traceWrongPosition: "Follow the grey stroke",
+    traceHint: "Hint: write the red stroke, starting at the dot",
+    strokeTypeHeng: "Horizontal (橫)",
+    strokeTypeTi: "Rising (提)",
+    strokeTypeShu: "Vertical (豎)",
+    strokeTypePie: "Left-falling (撇)",
+    strokeTypeDian: "Dot (點)",
+    strokeTypeNa: "Right-falling (捺)",
+    strokeTypeZhe: "Turning (折)",
+    strokeTypeGou: "Hook (鈎)",
+    previousStroke: "Previous stroke",
+    nextStroke: "Next stroke",
+    playerSettings: "Player settings",
+    playbackSpeed: "Speed",
+    loopAnimation: "Loop",
+    showStrokeNumbers: "Stroke numbers",
+    highlightRadical: "Color the radical",
+    gridStyle: "Grid",
+    gridNone: "No grid",
+    downloadSvg: "Download SVG",
+    downloadGif: "Download GIF",
+    exporting: "Exporting…",
     
     // Loading & errors
     loading: "Loading...",
@@ -244,6 +371,11 @@ export const translations = {
     english: "English",
     switchToDark: "Switch to dark mode",
     switchToLight: "Switch to light mode",
+    romanization: "Romanization",
+    romanizationJyutping: "Jyutping",
+    romanizationYale: "Yale",
+    romanizationYaleNumbered: "Yale (numbers)",
+    romanizationIpa: "IPA",
     
     // Flashcard
     flashcardSettings: "Flashcard Settings",
@@ -279,11 +411,55 @@ export const translations = {
     dropHere: "Drop here:",
     byComponent: "By component",
     availableComponents: "Available components:",
+    components: "Components",
+    tapComponent: "Tap a component to see its strokes",
     checkAnswer: "Check Answer",
     correctAnswer: "Correct!",
     tryAgainAnswer: "Try again",
     correctIs: "Correct answer",
     
+    // Stroke order quiz
+    strokeOrderQuiz: "Stroke Order Quiz",
+    strokeOrderQuizDesc: "See how far the character is written and pick the next stroke",
+    whichStrokeNext: "Which stroke comes next?",
+    strokeOption: "Option",
+    maxStrokesOption: "Max strokes",
+    
+    // Worksheet
+    worksheet: "Practice Worksheets",
+    worksheetDesc: "Enter characters to print a practice sheet with a 田 or 米 grid",
+    worksheetTitle: "Writing Practice",
+    worksheetName: "Name",
+    worksheetDate: "Date",
+    worksheetChars: "Characters",
+    worksheetGrid: "Grid",
+    gridTian: "田 grid",
+    gridMi: "米 grid",
+    gridJiu: "9-square grid",
+    traceCopies: "Tracing copies",
+    emptyRows: "Empty rows",
+    printWorksheet: "Print / Save as PDF",
+    moreTools: "More tools",
+    
+    // Phonetic series
+    phoneticSeries: "Phonetic Families",
+    phoneticSeriesDesc: "Characters sharing a phonetic component often sound alike",
+    phoneticComponent: "Phonetic",
+    readingPattern: "Reading pattern",
+    initialsLabel: "Initials",
+    finalLabel: "Final",
+    tonesLabel: "Tones",
+    relationSame: "Same sound",
+    relationRhyme: "Rhymes",
+    
+    // Radical chart
+    radicalBrowser: "Radical Chart",
+    radicalBrowserDesc: "Every character has a radical, which often hints at what it means",
+    kangxiNumber: "Kangxi radical",
+    variantForms: "Other forms",
+    meaningLabel: "Meaning",
+    residualStrokes: "Strokes besides the radical",
+    
     // Mascot
     pandaName: "Panda",
     pandaMessage: "Let's learn Chinese!",
@@ -0,0 +1,30 @@
+export {
+  INITIALS,
+  FINALS,
+  normalizeJyutping,
+  parseSyllable,
+  splitSyllables,
+  parseJyutping,
+  isValidJyutping,
+  isInitial,
+  isFinal,
+  formatSyllable,
+} from "./parser";
+export type { Initial, Final, JyutpingSyllable } from "./parser";
+export {
+  JYUTPING_MATCH_MODES,
+  isJyutpingMatchMode,
+  parseJyutpingQuery,
+  matchesJyutpingQuery,
+  matchesJyutping,
+} from "./match";
+export type { JyutpingMatchMode, JyutpingQuery } from "./match";
+export {
+  ROMANIZATIONS,
+  isRomanization,
+  convertJyutping,
+  toYale,
+  toYaleNumbered,
+  toIpa,
+} from "./romanization";
+export type { Romanization } from "./romanization";
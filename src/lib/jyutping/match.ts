@@ -0,0 +1,105 @@
+/**
+ * Jyutping Matching
+ *
+ * Compares a search query with character readings syllable by syllable,
+ * so "si" matches "si1" and "si6" but never "sik1".
+ */
+
+import { isFinal, isInitial, parseSyllable, splitSyllables, type JyutpingSyllable } from "./parser";
+
+/**
+ * Search modes
+ * - exact: initial, final and tone must match (a query without a tone matches any tone)
+ * - toneless: initial and final must match, tones are ignored
+ * - initial: initial must match (query may be a bare initial, e.g. "gw")
+ * - final: final must match (query may be a bare final, e.g. "ik")
+ */
+export type JyutpingMatchMode = "exact" | "toneless" | "initial" | "final";
+
+export const JYUTPING_MATCH_MODES: JyutpingMatchMode[] = ["exact", "toneless", "initial", "final"];
+
+/**
+ * A parsed search query
+ */
+export type JyutpingQuery =
+  | { mode: "exact" | "toneless"; syllable: JyutpingSyllable }
+  | { mode: "initial"; initial: string }
+  | { mode: "final"; final: string };
+
+/**
+ * Check if a string is a supported match mode
+ */
+export function isJyutpingMatchMode(value: string): value is JyutpingMatchMode {
+  return (JYUTPING_MATCH_MODES as string[]).includes(value);
+}
+
+/**
+ * Parse a search query for the given mode
+ *
+ * @returns The parsed query, or null if the query is not valid Jyutping for the mode
+ */
+export function parseJyutpingQuery(
+  query: string,
+  mode: JyutpingMatchMode = "exact"
+): JyutpingQuery | null {
+  const [text, ...rest] = splitSyllables(query) || [];
+  if (!text || rest.length > 0) return null;
+
+  // Bare initials/finals are only meaningful in their own modes;
+  // "ng" and "m" are both initials and syllabic finals
+  if (mode === "initial" && isInitial(text)) {
+    return { mode, initial: text };
+  }
+  if (mode === "final" && isFinal(text)) {
+    return { mode, final: text };
+  }
+
+  const syllable = parseSyllable(text);
+  if (!syllable) return null;
+
+  switch (mode) {
+    case "initial":
+      return { mode, initial: syllable.initial };
+    case "final":
+      return { mode, final: syllable.final };
+    default:
+      return { mode, syllable };
+  }
+}
+
+/**
+ * Check if a reading matches a parsed query
+ */
+export function matchesJyutpingQuery(reading: string, query: JyutpingQuery): boolean {
+  const syllable = parseSyllable(reading);
+  if (!syllable) return false;
+
+  switch (query.mode) {
+    case "initial":
+      return syllable.initial === query.initial;
+    case "final":
+      return syllable.final === query.final;
+    case "toneless":
+      return syllable.initial === query.syllable.initial
+        && syllable.final === query.syllable.final;
+    case "exact":
+      return syllable.initial === query.syllable.initial
+        && syllable.final === query.syllable.final
+        && (query.syllable.tone === undefined || syllable.tone === query.syllable.tone);
+  }
+}
+
+/**
+ * Check if any of the readings matches a search query
+ *
+ * Invalid queries match nothing.
+ */
+export function matchesJyutping(
+  readings: string[],
+  query: string,
+  mode: JyutpingMatchMode = "exact"
+): boolean {
+  const parsed = parseJyutpingQuery(query, mode);
+  if (!parsed) return false;
+  return readings.some(reading => matchesJyutpingQuery(reading, parsed));
+}
@@ -0,0 +1,182 @@
+/**
+ * Jyutping Parser
+ *
+ * Splits Jyutping into syllables and each syllable into initial, final and
+ * tone, validated against the LSHK (Linguistic Society of Hong Kong) scheme.
+ *
+ * Changed tones (變調) are accepted in the common notations:
+ * - "sik6-2" / "sik6*2": base tone 6 changed to tone 2
+ * - "maa1*": changed tone without a target tone
+ */
+
+/**
+ * LSHK initials (聲母), longest first so "gw"/"kw"/"ng" win over "g"/"k"/"n"
+ */
+export const INITIALS = [
+  "gw", "kw", "ng",
+  "b", "p", "m", "f", "d", "t", "n", "l", "g", "k", "h", "w", "z", "c", "s", "j",
+] as const;
+
+/**
+ * LSHK finals (韻母), including the syllabic nasals m and ng
+ */
+export const FINALS = [
+  "aa", "aai", "aau", "aam", "aan", "aang", "aap", "aat", "aak",
+  "a", "ai", "au", "am", "an", "ang", "ap", "at", "ak",
+  "e", "ei", "eu", "em", "en", "eng", "ep", "et", "ek",
+  "i", "iu", "im", "in", "ing", "ip", "it", "ik",
+  "o", "oi", "ou", "on", "ong", "ot", "ok",
+  "oe", "oeng", "oek",
+  "eoi", "eon", "eot",
+  "u", "ui", "un", "ung", "ut", "uk",
+  "yu", "yun", "yut",
+  "m", "ng",
+] as const;
+
+export type Initial = typeof INITIALS[number];
+export type Final = typeof FINALS[number];
+
+/**
+ * A parsed Jyutping syllable
+ */
+export interface JyutpingSyllable {
+  /** Initial (empty string for null-initial syllables such as "aa3") */
+  initial: Initial | "";
+  /** Final */
+  final: Final;
+  /** Tone 1-6 (undefined if the syllable was written without a tone) */
+  tone?: number;
+  /** Changed tone (變調) target; 0 if marked with "*" but no target */
+  changedTone?: number;
+}
+
+const INITIAL_SET = new Set<string>(INITIALS);
+const FINAL_SET = new Set<string>(FINALS);
+
+/** Syllabic nasals only combine with a null initial or h (e.g. "hm4", "hng6") */
+const SYLLABIC_NASALS = new Set<string>(["m", "ng"]);
+
+const SYLLABLE_PATTERN = /^([a-z]+)(?:([1-6])(?:[-*]([1-6])?)?)?$/;
+const SPLIT_PATTERN = /[a-z]+(?:[1-6](?:[-*][1-6]?)?)?/g;
+
+/**
+ * Normalize raw Jyutping input (lowercase, trimmed)
+ */
+export function normalizeJyutping(input: string): string {
+  return input.trim().toLowerCase();
+}
+
+/**
+ * Split the letters of a syllable into initial and final
+ */
+function splitInitialFinal(letters: string): { initial: Initial | ""; final: Final } | null {
+  // Try the longest matching initial first, then a null initial
+  for (const initial of [...INITIALS, ""] as const) {
+    if (!letters.startsWith(initial)) continue;
+
+    const final = letters.slice(initial.length);
+    if (!FINAL_SET.has(final)) continue;
+    if (SYLLABIC_NASALS.has(final) && initial !== "" && initial !== "h") continue;
+
+    return { initial, final: final as Final };
+  }
+  return null;
+}
+
+/**
+ * Parse a single Jyutping syllable
+ *
+ * @returns The parsed syllable, or null if it is not a valid LSHK syllable
+ */
+export function parseSyllable(input: string): JyutpingSyllable | null {
+  const match = normalizeJyutping(input).match(SYLLABLE_PATTERN);
+  if (!match) return null;
+
+  const [, letters, tone, changedTone] = match;
+  const parts = splitInitialFinal(letters);
+  if (!parts) return null;
+
+  const syllable: JyutpingSyllable = { ...parts };
+  if (tone) {
+    syllable.tone = parseInt(tone, 10);
+  }
+  if (/[-*]/.test(input)) {
+    syllable.changedTone = changedTone ? parseInt(changedTone, 10) : 0;
+  }
+  return syllable;
+}
+
+/**
+ * Split a Jyutping string into syllable strings
+ *
+ * Works with space-separated ("hang4 jan4") and concatenated ("hang4jan4")
+ * input; concatenated syllables must carry tones to be split.
+ *
+ * @returns Syllable strings, or null if anything other than spaces is left
+ * between them (a tone on its own as in "si 1", punctuation)
+ */
+export function splitSyllables(input: string): string[] | null {
+  const normalized = normalizeJyutping(input);
+  if (/\S/.test(normalized.replace(SPLIT_PATTERN, ""))) return null;
+  return normalized.match(SPLIT_PATTERN) || [];
+}
+
+/**
+ * Parse a Jyutping string into syllables
+ *
+ * @returns Parsed syllables, or null if any syllable is invalid
+ */
+export function parseJyutping(input: string): JyutpingSyllable[] | null {
+  const parts = splitSyllables(input);
+  if (!parts || parts.length === 0) return null;
+
+  const syllables: JyutpingSyllable[] = [];
+  for (const part of parts) {
+    const syllable = parseSyllable(part);
+    if (!syllable) return null;
+    syllables.push(syllable);
+  }
+  return syllables;
+}
+
+/**
+ * Check if a string is valid LSHK Jyutping
+ */
+export function isValidJyutping(input: string): boolean {
+  return parseJyutping(input) !== null;
+}
+
+/**
+ * Check if a string is a valid initial
+ */
+export function isInitial(input: string): input is Initial {
+  return INITIAL_SET.has(input);
+}
+
+/**
+ * Check if a string is a valid final
+ */
+export function isFinal(input: string): input is Final {
+  return FINAL_SET.has(input);
+}
+
+/**
+ * Format a parsed syllable back into Jyutping
+ *
+ * @param options.tone - Include the tone number (default: true)
+ */
+export function formatSyllable(
+  syllable: JyutpingSyllable,
+  options: { tone?: boolean } = {}
+): string {
+  const { tone = true } = options;
+  let result = `${syllable.initial}${syllable.final}`;
+
+  if (tone && syllable.tone !== undefined) {
+    result += syllable.tone;
+    if (syllable.changedTone !== undefined) {
+      result += syllable.changedTone ? `-${syllable.changedTone}` : "*";
+    }
+  }
+  return result;
+}
@@ -0,0 +1,198 @@
+/**
+ * Romanization Conversion
+ *
+ * Renders Jyutping as Yale (tone diacritics), numbered Yale or IPA.
+ * Any text that is not a valid syllable (separators such as "/", spaces,
+ * parentheses) is kept as is, so whole word readings can be converted.
+ */
+
+import { parseSyllable, type JyutpingSyllable } from "./parser";
+
+/**
+ * Supported display systems
+ */
+export type Romanization = "jyutping" | "yale" | "yaleNumbered" | "ipa";
+
+export const ROMANIZATIONS: Romanization[] = ["jyutping", "yale", "yaleNumbered", "ipa"];
+
+/**
+ * Jyutping initials that are spelled differently in Yale
+ */
+const YALE_INITIALS: Record<string, string> = {
+  j: "y",
+  z: "j",
+  c: "ch",
+};
+
+/**
+ * Jyutping finals that are spelled differently in Yale
+ */
+const YALE_FINALS: Record<string, string> = {
+  aa: "a",
+  oe: "eu",
+  oeng: "eung",
+  oek: "euk",
+  eoi: "eui",
+  eon: "eun",
+  eot: "eut",
+};
+
+/** Combining marks for Yale tones 1, 2, 4 and 5 */
+const YALE_TONE_MARKS: Record<number, string> = {
+  1: "̄", // macron: sī
+  2: "́", // acute: sí
+  4: "̀", // grave: sìh
+  5: "́", // acute: síh
+};
+
+/** Low tones (4-6) are marked with an "h" after the vowel */
+const YALE_LOW_TONES = new Set([4, 5, 6]);
+
+const IPA_INITIALS: Record<string, string> = {
+  b: "p", p: "pʰ", m: "m", f: "f",
+  d: "t", t: "tʰ", n: "n", l: "l",
+  g: "k", k: "kʰ", ng: "ŋ", h: "h",
+  gw: "kʷ", kw: "kʷʰ", w: "w",
+  z: "t͡s", c: "t͡sʰ", s: "s", j: "j",
+};
+
+const IPA_FINALS: Record<string, string> = {
+  aa: "aː", aai: "aːi̯", aau: "aːu̯", aam: "aːm", aan: "aːn", aang: "aːŋ", aap: "aːp̚", aat: "aːt̚", aak: "aːk̚",
+  a: "ɐ", ai: "ɐi̯", au: "ɐu̯", am: "ɐm", an: "ɐn", ang: "ɐŋ", ap: "ɐp̚", at: "ɐt̚", ak: "ɐk̚",
+  e: "ɛː", ei: "ei̯", eu: "ɛːu̯", em: "ɛːm", en: "ɛːn", eng: "ɛːŋ", ep: "ɛːp̚", et: "ɛːt̚", ek: "ɛːk̚",
+  i: "iː", iu: "iːu̯", im: "iːm", in: "iːn", ing: "ɪŋ", ip: "iːp̚", it: "iːt̚", ik: "ɪk̚",
+  o: "ɔː", oi: "ɔːy̯", ou: "ou̯", on: "ɔːn", ong: "ɔːŋ", ot: "ɔːt̚", ok: "ɔːk̚",
+  oe: "œː", oeng: "œːŋ", oek: "œːk̚",
+  eoi: "ɵy̯", eon: "ɵn", eot: "ɵt̚",
+  u: "uː", ui: "uːy̯", un: "uːn", ung: "ʊŋ", ut: "uːt̚", uk: "ʊk̚",
+  yu: "yː", yun: "yːn", yut: "yːt̚",
+  m: "m̩", ng: "ŋ̍",
+};
+
+/** Chao tone letters for tones 1-6 */
+const IPA_TONES: Record<number, string> = {
+  1: "˥",
+  2: "˧˥",
+  3: "˧",
+  4: "˨˩",
+  5: "˩˧",
+  6: "˨",
+};
+
+const SYLLABLE_PATTERN = /[a-z]+[1-6](?:[-*][1-6]?)?/gi;
+
+/**
+ * Tone to display: the changed tone (變調) if one is given, else the base tone
+ */
+function spokenTone(syllable: JyutpingSyllable): number | undefined {
+  return syllable.changedTone || syllable.tone;
+}
+
+/**
+ * Spell the initial and final of a syllable in Yale
+ */
+function yaleLetters(syllable: JyutpingSyllable): { initial: string; final: string } {
+  const final = YALE_FINALS[syllable.final] || syllable.final;
+  // Jyutping "jyu" is Yale "yu", not "yyu"
+  const initial = syllable.initial === "j" && final.startsWith("y")
+    ? ""
+    : YALE_INITIALS[syllable.initial] ?? syllable.initial;
+  return { initial, final };
+}
+
+/**
+ * Convert a parsed syllable to Yale with tone diacritics
+ */
+function syllableToYale(syllable: JyutpingSyllable): string {
+  const { initial, final } = yaleLetters(syllable);
+  const tone = spokenTone(syllable);
+  if (tone === undefined) return initial + final;
+
+  // Syllabic nasals carry the mark on their first letter ("m̀h", "ńgh");
+  // every other final has at least one vowel
+  const syllabic = final === "m" || final === "ng";
+  const nucleus = syllabic ? 0 : final.search(/[aeiou]/);
+  const vowelEnd = syllabic
+    ? final.length
+    : nucleus + (final.slice(nucleus).match(/^[aeiou]+/)?.[0].length ?? 1);
+
+  const marked = final.slice(0, nucleus + 1) + (YALE_TONE_MARKS[tone] || "") + final.slice(nucleus + 1, vowelEnd);
+  // Low tones: "h" follows the vowels, before any final consonant
+  const h = YALE_LOW_TONES.has(tone) ? "h" : "";
+
+  return (initial + marked + h + final.slice(vowelEnd)).normalize("NFC");
+}
+
+/**
+ * Convert a parsed syllable to numbered Yale
+ */
+function syllableToYaleNumbered(syllable: JyutpingSyllable): string {
+  const { initial, final } = yaleLetters(syllable);
+  return `${initial}${final}${spokenTone(syllable) ?? ""}`;
+}
+
+/**
+ * Convert a parsed syllable to IPA with Chao tone letters
+ */
+function syllableToIpa(syllable: JyutpingSyllable): string {
+  // The glide of "jyu" is part of the vowel
+  const initial = syllable.initial === "j" && syllable.final.startsWith("yu")
+    ? ""
+    : IPA_INITIALS[syllable.initial] || "";
+  const tone = spokenTone(syllable);
+  return `${initial}${IPA_FINALS[syllable.final]}${tone ? IPA_TONES[tone] : ""}`;
+}
+
+const CONVERTERS: Record<Exclude<Romanization, "jyutping">, (syllable: JyutpingSyllable) => string> = {
+  yale: syllableToYale,
+  yaleNumbered: syllableToYaleNumbered,
+  ipa: syllableToIpa,
+};
+
+/**
+ * Check if a string is a supported romanization
+ */
+export function isRomanization(value: string): value is Romanization {
+  return (ROMANIZATIONS as string[]).includes(value);
+}
+
+/**
+ * Convert Jyutping text to another romanization
+ *
+ * Syllables written together ("hang4jan4") are separated by a space in
+ * the output; invalid syllables are left unchanged.
+ */
+export function convertJyutping(jyutping: string, system: Romanization): string {
+  if (system === "jyutping" || !jyutping) return jyutping;
+
+  const convert = CONVERTERS[system];
+  let lastEnd = -1;
+
+  return jyutping.replace(SYLLABLE_PATTERN, (match, offset: number) => {
+    const syllable = parseSyllable(match);
+    const separator = offset === lastEnd ? " " : "";
+    lastEnd = offset + match.length;
+    return separator + (syllable ? convert(syllable) : match);
+  });
+}
+
+/**
+ * Convert Jyutping to Yale with tone diacritics (e.g. "hang4" -> "hàhng")
+ */
+export function toYale(jyutping: string): string {
+  return convertJyutping(jyutping, "yale");
+}
+
+/**
+ * Convert Jyutping to numbered Yale (e.g. "zung1" -> "jung1")
+ */
+export function toYaleNumbered(jyutping: string): string {
+  return convertJyutping(jyutping, "yaleNumbered");
+}
+
+/**
+ * Convert Jyutping to IPA (e.g. "si1" -> "siː˥")
+ */
+export function toIpa(jyutping: string): string {
+  return convertJyutping(jyutping, "ipa");
+}
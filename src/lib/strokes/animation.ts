@@ -0,0 +1,79 @@
+/**
+ * Stroke Animation Timing
+ *
+ * Shared by StrokeAnimation and the animated SVG/GIF exports, so an exported
+ * animation plays exactly like the one on screen. An animation is a
+ * timeline of frames; each frame shows one animation segment of one stroke
+ * (with all earlier strokes complete) for a number of milliseconds.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import { groupStrokes } from "./groups";
+
+/** Minimum duration of one stroke at normal speed */
+export const STROKE_DURATION_MS = 800;
+
+/** Minimum duration of one animation segment at normal speed (20fps) */
+const MIN_SEGMENT_MS = 50;
+
+/** Pause between strokes at normal speed */
+const STROKE_PAUSE_MS = 150;
+
+/** Time the complete character is shown before a loop restarts */
+export const LOOP_HOLD_MS = 1200;
+
+/** Playback speeds offered in the player */
+export const ANIMATION_SPEEDS = [0.5, 1, 1.5, 2];
+
+/**
+ * One frame of a stroke animation
+ */
+export interface AnimationFrame {
+  /** Index of the stroke being drawn (0-based) */
+  stroke: number;
+  /** Index of the animation segment of that stroke (0-based) */
+  segment: number;
+  /** How long the frame is shown, in milliseconds */
+  duration: number;
+}
+
+/**
+ * Duration of each animation segment of a stroke
+ */
+export function getSegmentDuration(segmentCount: number, speed: number = 1): number {
+  const ms = Math.max(MIN_SEGMENT_MS, Math.floor(STROKE_DURATION_MS / Math.max(1, segmentCount)));
+  return Math.round(ms / speed);
+}
+
+/**
+ * Build the animation timeline from the number of segments of each stroke
+ *
+ * The last frame of every stroke but the final one includes the pause
+ * before the next stroke.
+ */
+export function getAnimationTimeline(segmentCounts: number[], speed: number = 1): AnimationFrame[] {
+  const pause = Math.round(STROKE_PAUSE_MS / speed);
+  const frames: AnimationFrame[] = [];
+
+  segmentCounts.forEach((count, stroke) => {
+    const duration = getSegmentDuration(count, speed);
+    for (let segment = 0; segment < count; segment++) {
+      const isLastSegment = segment === count - 1;
+      const isLastStroke = stroke === segmentCounts.length - 1;
+      frames.push({
+        stroke,
+        segment,
+        duration: isLastSegment && !isLastStroke ? duration + pause : duration,
+      });
+    }
+  });
+
+  return frames;
+}
+
+/**
+ * Build the animation timeline of a character from its stroke vectors
+ */
+export function getStrokeTimeline(strokeVectors: StrokeVector[], speed: number = 1): AnimationFrame[] {
+  return getAnimationTimeline(groupStrokes(strokeVectors).map(group => group.segments.length), speed);
+}
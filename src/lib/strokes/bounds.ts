@@ -0,0 +1,63 @@
+/**
+ * Stroke Bounding Boxes
+ *
+ * Axis-aligned bounding boxes of complete strokes, in the 1080x1080 stroke
+ * data space. Used to relate strokes to the components and layout of a
+ * character.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import { getStrokeOutlines } from "./groups";
+import { decodePath } from "./pathDecoder";
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Get the bounding box of each stroke, in stroke order
+ *
+ * Strokes whose outline cannot be decoded get an empty box at the origin.
+ */
+export function getStrokeBounds(strokeVectors: StrokeVector[]): Bounds[] {
+  return getStrokeOutlines(strokeVectors).map(sv => {
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    try {
+      decodePath(sv.pathData).forEach(command => {
+        for (let i = 0; i < command.points.length; i += 2) {
+          const x = command.points[i] + sv.transform.x;
+          const y = command.points[i + 1] + sv.transform.y;
+          bounds.minX = Math.min(bounds.minX, x);
+          bounds.minY = Math.min(bounds.minY, y);
+          bounds.maxX = Math.max(bounds.maxX, x);
+          bounds.maxY = Math.max(bounds.maxY, y);
+        }
+      });
+    } catch {
+      // Malformed outline: treated as empty below
+    }
+    return bounds.minX === Infinity ? { minX: 0, minY: 0, maxX: 0, maxY: 0 } : bounds;
+  });
+}
+
+/**
+ * Smallest box containing all given boxes
+ */
+export function mergeBounds(boxes: Bounds[]): Bounds {
+  return boxes.reduce(
+    (merged, box) => ({
+      minX: Math.min(merged.minX, box.minX),
+      minY: Math.min(merged.minY, box.minY),
+      maxX: Math.max(merged.maxX, box.maxX),
+      maxY: Math.max(merged.maxY, box.maxY),
+    }),
+    boxes[0] ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+  );
+}
+
+export function boundsArea(box: Bounds): number {
+  return Math.max(0, box.maxX - box.minX) * Math.max(0, box.maxY - box.minY);
+}
@@ -0,0 +1,267 @@
+/**
+ * Stroke Type Classification
+ *
+ * Labels each stroke with its basic stroke type (橫、提、豎、撇、點、捺、折、鈎)
+ * from the geometry of its median (see trace.ts): the overall direction,
+ * the length, and sharp turns along the way. Medians join the centres of the
+ * areas the animation segments reveal, so they round off short features; the
+ * stroke outline decides those:
+ * - hooks drawn in the same segment as the end of the stroke (小, 子), whose
+ *   tip sticks out sideways well beyond the width of the stroke
+ * - short left-falling dots (心) against short 撇, which taper to a point
+ * - long right-falling dots (不) against 捺, whose foot widens
+ *
+ * Angles are in degrees in screen space (y down): 0 points right,
+ * 90 points down, 180 points left and -90 points up.
+ */
+
+import type { StrokeType, StrokeVector } from "@/types/fullCharacter";
+import { getStrokeSegments, toMedian, type Point, type StrokeSegments } from "./trace";
+import type { ReferenceStroke } from "./reference";
+
+export const STROKE_TYPES: StrokeType[] = ["heng", "ti", "shu", "pie", "dian", "na", "zhe", "gou"];
+
+/** Strokes shorter than this are dots */
+const DOT_LENGTH = 100;
+
+/** Right-falling strokes shorter than this are dots (e.g. 心) */
+const NA_LENGTH = 300;
+
+/** Change of direction (degrees) that counts as a turn */
+const TURN_ANGLE = 55;
+
+/** Change of direction (degrees) at the end of a stroke that counts as a hook */
+const HOOK_ANGLE = 40;
+
+/** A hook is shorter than this share of the stroke */
+const HOOK_RATIO = 0.25;
+
+/** A hook rising from a bottom leg is shorter than this share of the stroke: the last segment draws it with part of the leg */
+const BENT_HOOK_RATIO = 0.35;
+
+/** ...turns up by less than this... */
+const BENT_HOOK_TURN = 90;
+
+/** ...from a bottom leg at least this share of its length */
+const BENT_HOOK_LEG = 0.75;
+
+/** A hook is at least this long (shorter tails are wobbles, e.g. at the end of 提) */
+const MIN_HOOK_LENGTH = 60;
+
+/** A hook tip sticks out at least this many half stroke widths from the stroke */
+const HOOK_TIP_WIDTHS = 2.5;
+
+/** A hook tip lies at least this far back from the end of the stroke */
+const HOOK_TIP_BACK = 40;
+
+/** Left-falling strokes shorter than this are dots unless they taper (e.g. 心) */
+const SHORT_PIE_LENGTH = 330;
+
+/** A stroke tapers when its end is narrower than this share of its start */
+const TAPER_RATIO = 0.5;
+
+/** The foot of a 捺 is at least this wide; long right-falling strokes with a narrower end are dots (e.g. 不) */
+const NA_FOOT_WIDTH = 100;
+
+/** A stroke that turns back (撇點 in 女) runs at least this far left... */
+const TURN_BACK_LEFT = 30;
+
+/** ...and then at least this far right */
+const TURN_BACK_RIGHT = 100;
+
+function angleOf(from: Point, to: Point): number {
+  return (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+}
+
+/** Smallest difference between two angles, 0-180 */
+function angleDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function centroid(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function pathLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Drop a last point that turns away over less than a hook length: the end
+ * of the stroke outline wobbles (e.g. at the tip of 提 in 耳)
+ */
+function trimWobble(points: Point[]): Point[] {
+  if (points.length < 3) return points;
+
+  const [before, corner, end] = points.slice(-3);
+  const tailLength = Math.hypot(end.x - corner.x, end.y - corner.y);
+  const turns = angleDifference(angleOf(before, corner), angleOf(corner, end)) >= HOOK_ANGLE;
+  return tailLength < MIN_HOOK_LENGTH && turns ? points.slice(0, -1) : points;
+}
+
+/**
+ * Whether a stroke ends in a hook: a short last segment that turns away
+ * from the stroke, to the left or upwards (a downward tail is a turn)
+ */
+function endsInHook(points: Point[], length: number): boolean {
+  if (points.length < 3) return false;
+
+  const [before, corner, end] = points.slice(-3);
+  const tailAngle = angleOf(corner, end);
+  const tailLength = Math.hypot(end.x - corner.x, end.y - corner.y);
+  const turn = angleDifference(angleOf(before, corner), tailAngle);
+  const continuesDown = tailAngle >= 20 && tailAngle <= 110;
+  // The hook of 豎彎鈎 rises from a bottom leg (乙), where 撇折 and 豎提 turn up
+  // sharply or from a short rounded corner
+  const bentHook = tailAngle < -10 && turn < BENT_HOOK_TURN
+    && Math.hypot(corner.x - before.x, corner.y - before.y) >= tailLength * BENT_HOOK_LEG;
+
+  return tailLength < length * (bentHook ? BENT_HOOK_RATIO : HOOK_RATIO)
+    && turn >= HOOK_ANGLE
+    && !continuesDown;
+}
+
+/**
+ * Whether the outline has a hook tip next to the end of a downward stroke
+ *
+ * The last segment reveals the end of the stroke; a hook drawn with it has
+ * its tip behind the end and far to the side of the stroke, compared with
+ * the half width of the stroke in the segment before.
+ */
+function hasHookTip(segments: StrokeSegments): boolean {
+  const areas = segments.revealed.filter(points => points.length > 0);
+  if (areas.length < 3) return false;
+
+  const [earlier, before, last] = areas.slice(-3);
+  const from = centroid(earlier);
+  const to = centroid(before);
+  const angle = angleOf(from, to);
+  if (angle < 60 || angle > 150) return false;
+
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  const dx = (to.x - from.x) / length;
+  const dy = (to.y - from.y) / length;
+  const along = (p: Point) => p.x * dx + p.y * dy;
+  const aside = (p: Point) => Math.abs((p.x - to.x) * dy - (p.y - to.y) * dx);
+
+  const halfWidth = Math.max(...before.map(aside));
+  const end = Math.max(...last.map(along));
+  return last.some(p =>
+    end - along(p) >= HOOK_TIP_BACK && aside(p) >= HOOK_TIP_WIDTHS * halfWidth
+  );
+}
+
+/**
+ * Width of the outline across the stroke (from start to end) near its start
+ * and near its end
+ */
+function getEndWidths(points: Point[], outline: Point[]): { start: number; end: number } {
+  const start = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - start.x, last.y - start.y) || 1;
+  const dx = (last.x - start.x) / length;
+  const dy = (last.y - start.y) / length;
+
+  const projected = outline.map(p => ({
+    along: (p.x - start.x) * dx + (p.y - start.y) * dy,
+    across: (p.x - start.x) * dy - (p.y - start.y) * dx,
+  }));
+  const min = Math.min(...projected.map(p => p.along));
+  const max = Math.max(...projected.map(p => p.along));
+
+  // Spread across the stroke within a share of its length
+  const widthBetween = (from: number, to: number) => {
+    const across = projected
+      .filter(p => p.along >= min + from * (max - min) && p.along <= min + to * (max - min))
+      .map(p => p.across);
+    return across.length > 0 ? Math.max(...across) - Math.min(...across) : 0;
+  };
+
+  return { start: widthBetween(0, 0.3), end: widthBetween(0.7, 1) };
+}
+
+/**
+ * Whether a stroke runs left and then back right (撇點 in 女, 撇折 in 么),
+ * a turn the median rounds off when both legs are steep
+ */
+function turnsBack(points: Point[]): boolean {
+  const leftmost = points.reduce((min, p) => (p.x < min.x ? p : min));
+  return points[0].x - leftmost.x >= TURN_BACK_LEFT
+    && points[points.length - 1].x - leftmost.x >= TURN_BACK_RIGHT
+    && points[points.length - 1].y > points[0].y;
+}
+
+/**
+ * Whether a stroke has a sharp turn
+ *
+ * Each interior point is compared by the direction from the start to it and
+ * from it to the end, which is less sensitive to small wobbles than
+ * comparing neighbouring segments.
+ */
+function hasTurn(points: Point[]): boolean {
+  const start = points[0];
+  const end = points[points.length - 1];
+  return points.slice(1, -1).some(point =>
+    angleDifference(angleOf(start, point), angleOf(point, end)) >= TURN_ANGLE
+  );
+}
+
+/**
+ * Classify a stroke from its median (points from start to end), and its
+ * segment outlines where they are known
+ */
+export function classifyStroke(median: Point[], segments?: StrokeSegments): StrokeType {
+  if (median.length < 2) return "dian";
+
+  const points = trimWobble(median);
+  const length = pathLength(points);
+  if (length < DOT_LENGTH) return "dian";
+  if (endsInHook(points, length) || (segments && hasHookTip(segments))) return "gou";
+  if (hasTurn(points) || turnsBack(points)) return "zhe";
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const angle = angleOf(start, end);
+  const endAngle = angleOf(points[points.length - 2], end);
+  const outline = segments?.segments[segments.segments.length - 1];
+  const widths = outline ? getEndWidths(points, outline) : null;
+
+  if (angle >= -20 && angle <= 20) return "heng";
+  if (angle < -20 && angle >= -75) return "ti";
+  if (angle > 20 && angle < 70) {
+    if (length < NA_LENGTH) return "dian";
+    return widths && widths.end < NA_FOOT_WIDTH ? "dian" : "na";
+  }
+  // Short left-falling strokes that do not taper are dots (e.g. 心)
+  if (angle >= 100 && angle <= 160 && length < SHORT_PIE_LENGTH
+    && widths && widths.end >= widths.start * TAPER_RATIO) {
+    return "dian";
+  }
+  // Vertical strokes that sweep to the left at the end are 撇 (e.g. 月)
+  if (angle >= 70 && angle <= 105) return endAngle > 115 ? "pie" : "shu";
+  if (angle > 105 || angle < -160) return "pie";
+  // Remaining strokes point up-left, which no basic stroke does
+  return "ti";
+}
+
+/**
+ * Classify every stroke of a character, in stroke order
+ *
+ * @param references - Whole strokes for strokes cut short in the stroke data
+ * (see reference.ts), classified from their median instead
+ */
+export function classifyStrokes(strokeVectors: StrokeVector[], references: ReferenceStroke[] = []): StrokeType[] {
+  const byStroke = new Map(references.map(reference => [reference.strokeNumber, reference]));
+  return getStrokeSegments(strokeVectors).map(segments => {
+    const reference = byStroke.get(segments.strokeNumber);
+    return reference
+      ? classifyStroke(reference.median)
+      : classifyStroke(toMedian(segments).points, segments);
+  });
+}
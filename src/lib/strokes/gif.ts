@@ -0,0 +1,122 @@
+/**
+ * Animated GIF Export
+ *
+ * Renders every frame of the stroke animation timeline (see animation.ts)
+ * with renderCharacterSvg, rasterizes it on a canvas and encodes the frames
+ * as a GIF. Runs in the browser only, since it needs a canvas.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import type { Theme } from "@/lib/theme";
+import { encodeGif, parseHexColor, quantizeToPalette } from "@/lib/gif/encoder";
+import { getStrokeTimeline, LOOP_HOLD_MS } from "./animation";
+import { getCanvasColors, renderCharacterSvg, type CanvasColors, type GridStyle } from "./render";
+
+export interface GifExportOptions {
+  /** Grid style (default: "tian") */
+  grid?: GridStyle;
+  /** Number each drawn stroke at its start point (default: false) */
+  strokeNumbers?: boolean;
+  /** Playback speed, 1 being normal (default: 1) */
+  speed?: number;
+  /** Repeat the animation after a short hold (default: true) */
+  loop?: boolean;
+  /** Color theme (default: "light") */
+  theme?: Theme;
+  /** Output width and height in pixels (default: 360) */
+  size?: number;
+}
+
+/** Shades between two palette colors, for anti-aliased edges */
+const BLEND_STEPS = 14;
+
+/**
+ * Build a palette of the canvas colors and the shades between colors that
+ * touch each other in a rendered frame
+ */
+function getFramePalette(colors: CanvasColors): number[] {
+  const white = 0xffffff;
+  const base = [colors.background, colors.grid, colors.guide, colors.stroke, colors.highlight].map(parseHexColor);
+  const [background, grid, guide, stroke, highlight] = base;
+  const pairs: [number, number][] = [
+    [background, grid],
+    [background, guide],
+    [background, stroke],
+    [background, highlight],
+    [grid, guide],
+    [grid, stroke],
+    [guide, stroke],
+    [guide, highlight],
+    [stroke, highlight],
+    [highlight, white],
+  ];
+
+  const palette = new Set<number>([...base, white]);
+  pairs.forEach(([a, b]) => {
+    for (let step = 1; step <= BLEND_STEPS; step++) {
+      const t = step / (BLEND_STEPS + 1);
+      const mix = (shift: number) => Math.round(((a >> shift) & 0xff) * (1 - t) + ((b >> shift) & 0xff) * t);
+      palette.add((mix(16) << 16) | (mix(8) << 8) | mix(0));
+    }
+  });
+
+  return Array.from(palette);
+}
+
+function loadSvgImage(svg: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to render animation frame"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/**
+ * Render the stroke animation of a character as an animated GIF
+ */
+export async function renderAnimatedGif(strokeVectors: StrokeVector[], options: GifExportOptions = {}): Promise<Blob> {
+  const {
+    grid = "tian",
+    strokeNumbers = false,
+    speed = 1,
+    loop = true,
+    theme = "light",
+    size = 360,
+  } = options;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Canvas is not supported");
+  }
+
+  const palette = getFramePalette(getCanvasColors(theme));
+  const timeline = getStrokeTimeline(strokeVectors, speed);
+
+  const frames = [];
+  for (const [i, frame] of timeline.entries()) {
+    const svg = renderCharacterSvg(strokeVectors, {
+      grid,
+      upToStroke: frame.stroke + 1,
+      segment: frame.segment,
+      guide: true,
+      strokeNumbers,
+      theme,
+      size,
+    });
+    const image = await loadSvgImage(svg);
+    context.drawImage(image, 0, 0, size, size);
+
+    const isLast = i === timeline.length - 1;
+    frames.push({
+      indices: quantizeToPalette(context.getImageData(0, 0, size, size).data, palette),
+      delay: isLast && loop ? frame.duration + LOOP_HOLD_MS : frame.duration,
+    });
+  }
+
+  const bytes = encodeGif({ width: size, height: size, palette, frames, loop });
+  return new Blob([bytes.buffer as ArrayBuffer], { type: "image/gif" });
+}
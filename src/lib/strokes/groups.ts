@@ -0,0 +1,42 @@
+/**
+ * Stroke Grouping
+ *
+ * Stroke vectors store every animation segment of every stroke; these
+ * helpers group them per stroke in drawing order.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+
+/**
+ * Segments of one stroke, ordered by animation frame
+ */
+export interface StrokeGroup {
+  strokeNumber: number;
+  segments: StrokeVector[];
+}
+
+/**
+ * Group stroke vectors by stroke number
+ */
+export function groupStrokes(strokeVectors: StrokeVector[]): StrokeGroup[] {
+  const groups = new Map<number, StrokeVector[]>();
+  strokeVectors.forEach(sv => {
+    const existing = groups.get(sv.strokeNumber) || [];
+    existing.push(sv);
+    groups.set(sv.strokeNumber, existing);
+  });
+
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([strokeNumber, segments]) => ({
+      strokeNumber,
+      segments: [...segments].sort((a, b) => a.frame - b.frame),
+    }));
+}
+
+/**
+ * Get the complete outline of each stroke (its last segment)
+ */
+export function getStrokeOutlines(strokeVectors: StrokeVector[]): StrokeVector[] {
+  return groupStrokes(strokeVectors).map(group => group.segments[group.segments.length - 1]);
+}
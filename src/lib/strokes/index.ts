@@ -0,0 +1,49 @@
+export { decodePath, encodePath, commandsToSvgPath, toSvgPath } from "./pathDecoder";
+export type { PathCommand } from "./pathDecoder";
+export { groupStrokes, getStrokeOutlines } from "./groups";
+export type { StrokeGroup } from "./groups";
+export { getStrokeBounds, mergeBounds, boundsArea } from "./bounds";
+export type { Bounds } from "./bounds";
+export {
+  CANVAS_SIZE,
+  GRID_STYLES,
+  getCanvasColors,
+  getGridPath,
+  renderCharacterSvg,
+  renderAnimatedSvg,
+} from "./render";
+export type { GridStyle, CanvasColors, RenderOptions, AnimatedRenderOptions } from "./render";
+export {
+  STROKE_DURATION_MS,
+  LOOP_HOLD_MS,
+  ANIMATION_SPEEDS,
+  getSegmentDuration,
+  getAnimationTimeline,
+  getStrokeTimeline,
+} from "./animation";
+export type { AnimationFrame } from "./animation";
+export {
+  TRACE_TOLERANCE,
+  HINT_AFTER_MISTAKES,
+  getStrokeMedians,
+  resamplePoints,
+  checkStroke,
+  scoreStroke,
+  scoreCharacter,
+} from "./trace";
+export type { Point, StrokeMedian, StrokeSegments, StrokeIssue, StrokeCheckResult } from "./trace";
+export { STROKE_TYPES, classifyStroke, classifyStrokes } from "./classify";
+export { parseReferenceStrokes, applyReferenceStrokes } from "./reference";
+export type { ReferenceStroke } from "./reference";
+export {
+  STROKE_CLASSES,
+  STROKE_CLASS_NAMES,
+  toStrokeSequence,
+  parseStrokeSequence,
+  formatStrokeSequence,
+} from "./sequence";
+export type { StrokeClass } from "./sequence";
+export { renderAnimatedGif } from "./gif";
+export type { GifExportOptions } from "./gif";
+export { RASTER_SIZE, rasterizeStrokes, countPixels, dilateRaster, rasterOverlap } from "./raster";
+export type { Raster } from "./raster";
@@ -0,0 +1,166 @@
+/**
+ * EaselJS Path Decoder
+ *
+ * Decodes the compact path encoding used by EaselJS Graphics.decodePath()
+ * (e.g. "AnfgdQgDjmhCimQ...") into standard SVG path data.
+ *
+ * Encoding: each instruction starts with one base64 header character.
+ * - bits 3-5: operation (0 moveTo, 1 lineTo, 2 quadraticCurveTo, 3 bezierCurveTo, 4 closePath)
+ * - bit 2: parameter width (0 = 2 characters, 1 = 3 characters)
+ * - bits 0-1: unused, must be 0
+ * Each parameter is a signed value in tenths of a pixel, relative to the
+ * previous point; moveTo resets the reference point to the origin.
+ */
+
+/**
+ * A decoded path command with absolute coordinates
+ */
+export interface PathCommand {
+  type: "M" | "L" | "Q" | "C" | "Z";
+  /** Coordinates as x, y pairs */
+  points: number[];
+}
+
+const BASE_64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE_64_VALUES = new Map(Array.from(BASE_64).map((ch, i) => [ch, i]));
+
+const COMMAND_TYPES: PathCommand["type"][] = ["M", "L", "Q", "C", "Z"];
+const PARAM_COUNTS = [2, 2, 4, 6, 0];
+
+/**
+ * Read a base64 digit
+ */
+function digit(pathData: string, index: number): number {
+  const value = BASE_64_VALUES.get(pathData.charAt(index));
+  if (value === undefined) {
+    throw new Error(`Bad path data (@${index}): ${pathData.charAt(index) || "end of data"}`);
+  }
+  return value;
+}
+
+/**
+ * Decode EaselJS compact path data into commands with absolute coordinates
+ *
+ * @throws Error if the path data is malformed
+ */
+export function decodePath(pathData: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let i = 0;
+
+  while (i < pathData.length) {
+    const header = digit(pathData, i);
+    const op = header >> 3;
+    if (op >= COMMAND_TYPES.length || (header & 3)) {
+      throw new Error(`Bad path data (@${i}): ${pathData.charAt(i)}`);
+    }
+
+    // Move operations reset the reference point
+    if (op === 0) {
+      x = 0;
+      y = 0;
+    }
+    i++;
+
+    const width = ((header >> 2) & 1) + 2;
+    const points: number[] = [];
+    for (let p = 0; p < PARAM_COUNTS[op]; p++) {
+      const first = digit(pathData, i);
+      const sign = first >> 5 ? -1 : 1;
+      let value = ((first & 31) << 6) | digit(pathData, i + 1);
+      if (width === 3) {
+        value = (value << 6) | digit(pathData, i + 2);
+      }
+      value = (sign * value) / 10;
+
+      if (p % 2) {
+        y = value += y;
+      } else {
+        x = value += x;
+      }
+      points.push(value);
+      i += width;
+    }
+
+    commands.push({ type: COMMAND_TYPES[op], points });
+  }
+
+  return commands;
+}
+
+/**
+ * Encode commands with absolute coordinates as EaselJS compact path data
+ * (the inverse of decodePath; coordinates are rounded to tenths)
+ */
+export function encodePath(commands: PathCommand[]): string {
+  let x = 0;
+  let y = 0;
+
+  return commands.map(({ type, points }) => {
+    const op = COMMAND_TYPES.indexOf(type);
+    if (op === 0) {
+      x = 0;
+      y = 0;
+    }
+
+    // Parameters in tenths, relative to the previous point
+    const deltas = points.map((value, p) => {
+      const tenths = Math.round(value * 10);
+      const delta = tenths - (p % 2 ? y : x);
+      if (p % 2) {
+        y = tenths;
+      } else {
+        x = tenths;
+      }
+      return delta;
+    });
+
+    const width = deltas.some(delta => Math.abs(delta) >= 1 << 11) ? 3 : 2;
+    const header = BASE_64[(op << 3) | ((width - 2) << 2)];
+    return header + deltas.map(delta => {
+      const magnitude = Math.abs(delta);
+      const sign = delta < 0 ? 32 : 0;
+      const digits = Array.from({ length: width }, (_, k) => (magnitude >> (6 * (width - 1 - k))) & 63);
+      digits[0] |= sign;
+      return digits.map(value => BASE_64[value]).join("");
+    }).join("");
+  }).join("");
+}
+
+/**
+ * Format a coordinate (values are in tenths, so one decimal is exact)
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Convert decoded commands to an SVG path string, translated by an offset
+ */
+export function commandsToSvgPath(
+  commands: PathCommand[],
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): string {
+  return commands
+    .map(({ type, points }) => {
+      const coords = points.map((value, i) => formatNumber(value + (i % 2 ? offset.y : offset.x)));
+      return coords.length > 0 ? `${type}${coords.join(" ")}` : type;
+    })
+    .join("");
+}
+
+/**
+ * Decode EaselJS path data into an SVG path string
+ *
+ * @param offset - Shape position (StrokeVector.transform), applied to every point
+ * @returns SVG path data, or an empty string if the path data is malformed
+ */
+export function toSvgPath(pathData: string, offset?: { x: number; y: number }): string {
+  try {
+    return commandsToSvgPath(decodePath(pathData), offset);
+  } catch (error) {
+    console.warn("Could not decode stroke path:", error);
+    return "";
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Stroke Rasterization
+ *
+ * Fills the stroke outlines of a character into a small 1-bit bitmap, so
+ * the shapes of characters can be compared pixel by pixel. Characters keep
+ * their position in the 1080x1080 stroke data space, so 已 and 巳 overlap
+ * almost everywhere while 日 and 曰 differ in their proportions.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import { getStrokeOutlines } from "./groups";
+import { decodePath } from "./pathDecoder";
+import type { Point } from "./trace";
+
+/**
+ * A square 1-bit bitmap, one 32-bit word per row (bit i is column i)
+ */
+export type Raster = Uint32Array;
+
+/** Width and height of a raster in pixels (at most 32) */
+export const RASTER_SIZE = 32;
+
+/** Size of the stroke data space */
+const DATA_SIZE = 1080;
+
+/** Line segments each curve is flattened into */
+const CURVE_STEPS = 6;
+
+/**
+ * Flatten a stroke outline into closed polygons, in raster pixels
+ */
+function getOutlinePolygons(outline: StrokeVector, scale: number): Point[][] {
+  const polygons: Point[][] = [];
+  let current: Point[] = [];
+  const toPoint = (points: number[], i: number): Point => ({
+    x: (points[i] + outline.transform.x) * scale,
+    y: (points[i + 1] + outline.transform.y) * scale,
+  });
+
+  try {
+    decodePath(outline.pathData).forEach(({ type, points }) => {
+      const last = current[current.length - 1];
+      switch (type) {
+        case "M":
+          if (current.length > 2) polygons.push(current);
+          current = [toPoint(points, 0)];
+          break;
+        case "L":
+          current.push(toPoint(points, 0));
+          break;
+        case "Q":
+        case "C": {
+          const controls = Array.from({ length: points.length / 2 }, (_, i) => toPoint(points, i * 2));
+          const start = last ?? controls[0];
+          for (let step = 1; step <= CURVE_STEPS; step++) {
+            const t = step / CURVE_STEPS;
+            // De Casteljau: interpolate between the control points until one is left
+            let level = [start, ...controls];
+            while (level.length > 1) {
+              level = level.slice(1).map((p, i) => ({
+                x: level[i].x + (p.x - level[i].x) * t,
+                y: level[i].y + (p.y - level[i].y) * t,
+              }));
+            }
+            current.push(level[0]);
+          }
+          break;
+        }
+        case "Z":
+          if (current.length > 2) polygons.push(current);
+          current = [];
+          break;
+      }
+    });
+  } catch {
+    // Malformed outline: the stroke is left out
+    return [];
+  }
+
+  if (current.length > 2) polygons.push(current);
+  return polygons;
+}
+
+/**
+ * Fill the stroke outlines of a character into a raster
+ *
+ * Pixels whose center lies inside an outline are set (even-odd rule per
+ * stroke; overlapping strokes are combined).
+ */
+export function rasterizeStrokes(strokeVectors: StrokeVector[], size = RASTER_SIZE): Raster {
+  const raster: Raster = new Uint32Array(size);
+  const scale = size / DATA_SIZE;
+
+  getStrokeOutlines(strokeVectors).forEach(outline => {
+    const polygons = getOutlinePolygons(outline, scale);
+    const edges = polygons.flatMap(polygon => polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]]));
+
+    for (let row = 0; row < size; row++) {
+      const y = row + 0.5;
+      const crossings = edges
+        .filter(([a, b]) => (a.y <= y) !== (b.y <= y))
+        .map(([a, b]) => a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x))
+        .sort((a, b) => a - b);
+
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.ceil(crossings[i] - 0.5));
+        const to = Math.min(size - 1, Math.floor(crossings[i + 1] - 0.5));
+        for (let column = from; column <= to; column++) {
+          raster[row] = (raster[row] | (1 << column)) >>> 0;
+        }
+      }
+    }
+  });
+
+  return raster;
+}
+
+/**
+ * Number of set pixels in a 32-bit row
+ */
+function countBits(word: number): number {
+  let bits = word - ((word >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Number of set pixels in a raster
+ */
+export function countPixels(raster: Raster): number {
+  return raster.reduce((sum, row) => sum + countBits(row), 0);
+}
+
+/**
+ * Grow the set pixels of a raster by one pixel in every direction
+ */
+export function dilateRaster(raster: Raster): Raster {
+  const spread = (row: number) => (row | (row << 1) | (row >>> 1)) >>> 0;
+  return raster.map((row, i) => spread(row) | spread(raster[i - 1] ?? 0) | spread(raster[i + 1] ?? 0));
+}
+
+/**
+ * How much two rasters overlap (0-1)
+ *
+ * Pixels set in both rasters count fully; pixels with a pixel of the other
+ * raster one pixel away count half, so strokes drawn slightly longer or
+ * shifted still match, without dense characters matching everything.
+ *
+ * @param dilatedA - dilateRaster(a), when comparing a with many rasters
+ * @param dilatedB - dilateRaster(b)
+ */
+export function rasterOverlap(a: Raster, b: Raster, dilatedA = dilateRaster(a), dilatedB = dilateRaster(b)): number {
+  let exact = 0;
+  let near = 0;
+  for (let row = 0; row < a.length; row++) {
+    exact += countBits(a[row] & b[row]);
+    near += countBits(a[row] & dilatedB[row]) + countBits(b[row] & dilatedA[row]);
+  }
+  const total = countPixels(a) + countPixels(b);
+  return total === 0 ? 0 : (2 * exact + near) / (2 * total);
+}
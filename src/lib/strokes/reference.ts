@@ -0,0 +1,80 @@
+/**
+ * Reference Strokes
+ *
+ * The stroke data of some characters holds only the first animation frame
+ * of a stroke, so the stroke is cut short: 己 is drawn as three short bars.
+ * data/sources/reference-strokes.txt supplies those strokes whole, from
+ * Make Me a Hanzi (see scripts/import-reference-strokes.ts), for what the
+ * index script derives from the geometry: stroke types, inferred structure
+ * and similar characters. The character files keep their own stroke data.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import type { Point } from "./trace";
+
+/**
+ * A whole stroke standing in for a stroke cut short in the stroke data
+ */
+export interface ReferenceStroke {
+  strokeNumber: number;
+  /** Path of the stroke from start to end, in the 1080x1080 stroke data space */
+  median: Point[];
+  /** Outline of the stroke, as a single animation segment */
+  outline: StrokeVector;
+}
+
+/**
+ * Parse a reference stroke file into a character -> strokes map
+ *
+ * Lines are `<character>TAB<stroke number>TAB<median>TAB<path data>`, where
+ * the median lists `x,y` points separated by spaces and the path data is
+ * the outline in the EaselJS compact encoding. Lines starting with ";;" or
+ * "#" are comments.
+ */
+export function parseReferenceStrokes(content: string): Map<string, ReferenceStroke[]> {
+  const references = new Map<string, ReferenceStroke[]>();
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith(";;") || line.startsWith("#")) continue;
+
+    const [character, strokeColumn, medianColumn, pathData] = line.split("\t");
+    const strokeNumber = parseInt(strokeColumn, 10);
+    if (!character || isNaN(strokeNumber) || !medianColumn || !pathData) continue;
+
+    const median = medianColumn.split(" ").map(pair => {
+      const [x, y] = pair.split(",").map(Number);
+      return { x, y };
+    });
+    const outline: StrokeVector = {
+      strokeNumber,
+      segment: 1,
+      frame: 0,
+      pathData,
+      transform: { x: 0, y: 0 },
+      color: "#000000",
+    };
+    references.set(character, [...(references.get(character) || []), { strokeNumber, median, outline }]);
+  }
+
+  return references;
+}
+
+/**
+ * Replace the strokes that have a reference stroke by its outline, as a
+ * single segment in the frame of the stroke's last segment
+ */
+export function applyReferenceStrokes(strokeVectors: StrokeVector[], references: ReferenceStroke[]): StrokeVector[] {
+  if (references.length === 0) return strokeVectors;
+
+  const byStroke = new Map(references.map(reference => [reference.strokeNumber, reference]));
+  const replaced = new Set<number>();
+  return strokeVectors.flatMap(vector => {
+    const reference = byStroke.get(vector.strokeNumber);
+    if (!reference) return [vector];
+    if (replaced.has(vector.strokeNumber)) return [];
+
+    replaced.add(vector.strokeNumber);
+    const frame = Math.max(...strokeVectors.filter(v => v.strokeNumber === vector.strokeNumber).map(v => v.frame));
+    return [{ ...reference.outline, frame }];
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Character Rendering
+ *
+ * Builds standalone SVG images of a character from its stroke vectors,
+ * using the same colors and 1080x1080 coordinate space as StrokeAnimation.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import type { Theme } from "@/lib/theme";
+import { getAnimationTimeline, LOOP_HOLD_MS } from "./animation";
+import { groupStrokes } from "./groups";
+import { toSvgPath } from "./pathDecoder";
+import { getStrokeMedians, type Point } from "./trace";
+
+/** Size of the stroke data coordinate space */
+export const CANVAS_SIZE = 1080;
+
+/**
+ * Practice grid styles
+ * - tian: 田字格 (center cross)
+ * - mi: 米字格 (center cross and diagonals)
+ * - jiu: 九宮格 (3x3 cells)
+ * - none: no grid
+ */
+export type GridStyle = "tian" | "mi" | "jiu" | "none";
+
+export const GRID_STYLES: GridStyle[] = ["tian", "mi", "jiu", "none"];
+
+/**
+ * Theme colors for stroke rendering
+ */
+export interface CanvasColors {
+  background: string;
+  grid: string;
+  guide: string;
+  stroke: string;
+  highlight: string;
+  /** Strokes of the radical (部首) */
+  radical: string;
+}
+
+/**
+ * Get the stroke rendering colors for a theme
+ */
+export function getCanvasColors(theme: Theme): CanvasColors {
+  return {
+    background: theme === "dark" ? "#3D3D3D" : "#FFFBF0",
+    grid: theme === "dark" ? "#5A5A5A" : "#E8D5C4",
+    guide: theme === "dark" ? "#666666" : "#CCCCCC",
+    stroke: theme === "dark" ? "#E8E0D8" : "#2D3436",
+    highlight: theme === "dark" ? "#FF7B7B" : "#FF6B6B",
+    radical: theme === "dark" ? "#6BC8E8" : "#3FA9D0",
+  };
+}
+
+/**
+ * Get the SVG path data of grid lines in the 1080x1080 space
+ */
+export function getGridPath(grid: GridStyle): string {
+  const half = CANVAS_SIZE / 2;
+  const third = CANVAS_SIZE / 3;
+  switch (grid) {
+    case "tian":
+      return `M${half} 0V${CANVAS_SIZE}M0 ${half}H${CANVAS_SIZE}`;
+    case "mi":
+      return `M${half} 0V${CANVAS_SIZE}M0 ${half}H${CANVAS_SIZE}M0 0L${CANVAS_SIZE} ${CANVAS_SIZE}M${CANVAS_SIZE} 0L0 ${CANVAS_SIZE}`;
+    case "jiu":
+      return `M${third} 0V${CANVAS_SIZE}M${2 * third} 0V${CANVAS_SIZE}M0 ${third}H${CANVAS_SIZE}M0 ${2 * third}H${CANVAS_SIZE}`;
+    case "none":
+      return "";
+  }
+}
+
+export interface RenderOptions {
+  /** Grid style (default: "tian") */
+  grid?: GridStyle;
+  /** Only draw strokes 1..upToStroke (default: all strokes) */
+  upToStroke?: number;
+  /** Animation segment (0-based) of the last drawn stroke, for animation frames (default: complete stroke) */
+  segment?: number;
+  /** Stroke number to draw in the highlight color */
+  highlight?: number;
+  /** Draw every stroke in the guide color, for tracing (default: false) */
+  trace?: boolean;
+  /** Draw the complete character in the guide color behind the strokes (default: false) */
+  guide?: boolean;
+  /** Number each drawn stroke at its start point (default: false) */
+  strokeNumbers?: boolean;
+  /** Color theme (default: "light") */
+  theme?: Theme;
+  /** Fill the background with the theme color (default: true) */
+  background?: boolean;
+  /** Output width and height in pixels (default: 1080) */
+  size?: number;
+}
+
+export interface AnimatedRenderOptions {
+  /** Grid style (default: "tian") */
+  grid?: GridStyle;
+  /** Number each stroke at its start point (default: false) */
+  strokeNumbers?: boolean;
+  /** Playback speed, 1 being normal (default: 1) */
+  speed?: number;
+  /** Repeat the animation after a short hold (default: true) */
+  loop?: boolean;
+  /** Color theme (default: "light") */
+  theme?: Theme;
+  /** Fill the background with the theme color (default: true) */
+  background?: boolean;
+  /** Output width and height in pixels (default: 1080) */
+  size?: number;
+}
+
+/** Radius of the stroke number markers */
+const NUMBER_RADIUS = 36;
+
+function pathElement(sv: StrokeVector, fill: string, children: string = ""): string {
+  const d = sv.svgPath ?? toSvgPath(sv.pathData, sv.transform);
+  return children
+    ? `<path d="${d}" fill="${fill}">${children}</path>`
+    : `<path d="${d}" fill="${fill}"/>`;
+}
+
+function strokeNumberElement(position: Point, strokeNumber: number, colors: CanvasColors, children: string = ""): string {
+  const x = Math.round(position.x);
+  const y = Math.round(position.y);
+  return `<g>${children}<circle cx="${x}" cy="${y}" r="${NUMBER_RADIUS}" fill="${colors.highlight}"/>`
+    + `<text x="${x}" y="${y}" font-family="sans-serif" font-size="44" font-weight="bold" fill="#FFFFFF" text-anchor="middle" dominant-baseline="central">${strokeNumber}</text></g>`;
+}
+
+/**
+ * Wrap drawn elements in an SVG document with background and grid
+ */
+function svgDocument(elements: string[], grid: GridStyle, colors: CanvasColors, background: boolean, size: number): string {
+  const gridPath = getGridPath(grid);
+  const gridElement = gridPath
+    ? `<path d="${gridPath}" stroke="${colors.grid}" stroke-width="2" stroke-dasharray="12 8" fill="none"/>`
+    : "";
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}" width="${size}" height="${size}">`,
+    background ? `<rect width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" fill="${colors.background}"/>` : "",
+    gridElement,
+    ...elements,
+    `</svg>`,
+  ].join("");
+}
+
+/**
+ * Render a character as a standalone SVG document
+ */
+export function renderCharacterSvg(strokeVectors: StrokeVector[], options: RenderOptions = {}): string {
+  const {
+    grid = "tian",
+    upToStroke,
+    segment,
+    highlight,
+    trace = false,
+    guide = false,
+    strokeNumbers = false,
+    theme = "light",
+    background = true,
+    size = CANVAS_SIZE,
+  } = options;
+  const colors = getCanvasColors(theme);
+
+  const groups = groupStrokes(strokeVectors);
+  const visible = upToStroke === undefined ? groups : groups.slice(0, upToStroke);
+
+  const guideElements = guide
+    ? groups.map(group => pathElement(group.segments[group.segments.length - 1], colors.guide))
+    : [];
+
+  const strokeElements = visible.map((group, i) => {
+    const last = group.segments.length - 1;
+    const segmentIndex = segment !== undefined && i === visible.length - 1 ? Math.min(segment, last) : last;
+    const fill = trace
+      ? colors.guide
+      : group.strokeNumber === highlight ? colors.highlight : colors.stroke;
+    return pathElement(group.segments[segmentIndex], fill);
+  });
+
+  const numberElements = strokeNumbers
+    ? getStrokeMedians(strokeVectors)
+      .slice(0, visible.length)
+      .filter(median => median.points.length > 0)
+      .map(median => strokeNumberElement(median.points[0], median.strokeNumber, colors))
+    : [];
+
+  return svgDocument([...guideElements, ...strokeElements, ...numberElements], grid, colors, background, size);
+}
+
+/**
+ * Render the stroke animation of a character as an animated SVG document
+ *
+ * Every animation segment appears at its time in the animation timeline
+ * (see animation.ts) using SMIL, so the file plays in browsers without
+ * any script.
+ */
+export function renderAnimatedSvg(strokeVectors: StrokeVector[], options: AnimatedRenderOptions = {}): string {
+  const {
+    grid = "tian",
+    strokeNumbers = false,
+    speed = 1,
+    loop = true,
+    theme = "light",
+    background = true,
+    size = CANVAS_SIZE,
+  } = options;
+  const colors = getCanvasColors(theme);
+
+  const groups = groupStrokes(strokeVectors);
+  const timeline = getAnimationTimeline(groups.map(group => group.segments.length), speed);
+  const playTime = timeline.reduce((sum, frame) => sum + frame.duration, 0);
+  const total = Math.max(1, playTime + (loop ? LOOP_HOLD_MS : 0));
+
+  // Hidden until the given time, then shown until the end of the animation
+  const appearAt = (start: number) => {
+    const repeat = loop ? `repeatCount="indefinite"` : `fill="freeze"`;
+    return `<animate attributeName="opacity" values="0;1" keyTimes="0;${(start / total).toFixed(4)}" calcMode="discrete" dur="${total}ms" ${repeat}/>`;
+  };
+
+  const strokeStarts: number[] = [];
+  const strokeElements: string[] = [];
+  let time = 0;
+  timeline.forEach(frame => {
+    if (frame.segment === 0) strokeStarts[frame.stroke] = time;
+    strokeElements.push(pathElement(groups[frame.stroke].segments[frame.segment], colors.stroke, appearAt(time)));
+    time += frame.duration;
+  });
+
+  const guideElements = groups.map(group => pathElement(group.segments[group.segments.length - 1], colors.guide));
+
+  const numberElements = strokeNumbers
+    ? getStrokeMedians(strokeVectors)
+      .map((median, i) => ({ median, start: strokeStarts[i] ?? 0 }))
+      .filter(({ median }) => median.points.length > 0)
+      .map(({ median, start }) => strokeNumberElement(median.points[0], median.strokeNumber, colors, appearAt(start)))
+    : [];
+
+  return svgDocument([...guideElements, ...strokeElements, ...numberElements], grid, colors, background, size);
+}
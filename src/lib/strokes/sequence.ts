@@ -0,0 +1,87 @@
+/**
+ * Stroke Sequence Search (筆順輸入)
+ *
+ * Stroke sequences use the five stroke classes of stroke-order input:
+ * h 橫, s 豎, p 撇, d 點, z 折. Each character's stroke types are reduced
+ * to these classes (提 counts as 橫, 捺 as 點, 鈎 as 折), so a child can
+ * describe a character by its first few strokes, e.g. "h-s-p" or "橫豎撇".
+ */
+
+import type { StrokeType } from "@/types/fullCharacter";
+
+/**
+ * Stroke class of stroke-order input
+ */
+export type StrokeClass = "h" | "s" | "p" | "d" | "z";
+
+export const STROKE_CLASSES: StrokeClass[] = ["h", "s", "p", "d", "z"];
+
+/** Chinese name of each stroke class */
+export const STROKE_CLASS_NAMES: Record<StrokeClass, string> = {
+  h: "橫",
+  s: "豎",
+  p: "撇",
+  d: "點",
+  z: "折",
+};
+
+const STROKE_TYPE_CLASSES: Record<StrokeType, StrokeClass> = {
+  heng: "h",
+  ti: "h",
+  shu: "s",
+  pie: "p",
+  dian: "d",
+  na: "d",
+  zhe: "z",
+  gou: "z",
+};
+
+/**
+ * Accepted input tokens: class letters, stroke names (traditional and
+ * simplified) and stroke-shaped characters
+ */
+const TOKEN_CLASSES: Record<string, StrokeClass> = {
+  h: "h", t: "h", "橫": "h", "横": "h", "提": "h", "一": "h",
+  s: "s", "豎": "s", "竖": "s", "丨": "s",
+  p: "p", "撇": "p", "丿": "p",
+  d: "d", n: "d", "點": "d", "点": "d", "捺": "d", "丶": "d", "㇏": "d",
+  z: "z", g: "z", "折": "z", "鈎": "z", "鉤": "z", "钩": "z", "乙": "z", "亅": "z", "𠃍": "z",
+};
+
+/** Separators allowed between strokes */
+const SEPARATORS = /[\s\-,，、/]+/g;
+
+/**
+ * Reduce stroke types to a stroke sequence string (e.g. "hspdz")
+ */
+export function toStrokeSequence(strokeTypes: StrokeType[]): string {
+  return strokeTypes.map(type => STROKE_TYPE_CLASSES[type]).join("");
+}
+
+/**
+ * Parse a stroke sequence such as "h-s-p-d-z", "hspdz" or "橫豎撇點折"
+ *
+ * @returns Normalized sequence (e.g. "hspdz"), or null if the input contains
+ * anything other than strokes and separators
+ */
+export function parseStrokeSequence(input: string): string | null {
+  const compact = input.toLowerCase().replace(SEPARATORS, "");
+  if (!compact) return null;
+
+  let sequence = "";
+  for (const ch of Array.from(compact)) {
+    const strokeClass = TOKEN_CLASSES[ch];
+    if (!strokeClass) return null;
+    sequence += strokeClass;
+  }
+  return sequence;
+}
+
+/**
+ * Format a stroke sequence with Chinese stroke names (e.g. "橫豎撇")
+ */
+export function formatStrokeSequence(sequence: string): string {
+  return Array.from(sequence)
+    .map(ch => STROKE_CLASS_NAMES[ch as StrokeClass] ?? ch)
+    .join("");
+}
@@ -0,0 +1,263 @@
+/**
+ * Handwriting Trace Checking
+ *
+ * Compares strokes drawn by a learner against the expected strokes of a
+ * character. The stroke data only stores filled outlines, so the expected
+ * path of each stroke (its median) is derived from its animation segments:
+ * every segment reveals a little more of the stroke, and the newly revealed
+ * area moves from the start of the stroke to its end.
+ *
+ * All coordinates are in the 1080x1080 stroke data space.
+ */
+
+import type { StrokeVector } from "@/types/fullCharacter";
+import { groupStrokes } from "./groups";
+import { decodePath } from "./pathDecoder";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Expected path of one stroke
+ */
+export interface StrokeMedian {
+  strokeNumber: number;
+  /** Points from the start to the end of the stroke */
+  points: Point[];
+}
+
+/**
+ * Outline points of the animation segments of one stroke
+ */
+export interface StrokeSegments {
+  strokeNumber: number;
+  /** Outline of each segment, in drawing order (the last one is the whole stroke) */
+  segments: Point[][];
+  /** Outline points each segment adds to the previous one */
+  revealed: Point[][];
+}
+
+/**
+ * Problems found in a drawn stroke
+ * - order: the stroke matches a later stroke instead of the expected one
+ * - direction: the stroke was drawn backwards
+ * - start: the stroke starts too far from the expected start point
+ * - position: the stroke is too far from the expected stroke
+ */
+export type StrokeIssue = "order" | "direction" | "start" | "position";
+
+export interface StrokeCheckResult {
+  /** True when the drawn stroke has no issues */
+  correct: boolean;
+  issues: StrokeIssue[];
+  /** Stroke number the drawn stroke resembles most */
+  matchedStroke: number;
+}
+
+/** Maximum distance between a drawn and an expected point */
+export const TRACE_TOLERANCE = 140;
+
+/** Mistakes on one stroke before a hint is shown */
+export const HINT_AFTER_MISTAKES = 2;
+
+/** Number of points drawn strokes and medians are resampled to */
+const SAMPLE_POINTS = 16;
+
+/** Minimum distance for outline points to count as newly revealed */
+const REVEAL_DISTANCE = 20;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function centroid(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+/**
+ * Get the end point of every command of a segment outline
+ */
+function getOutlinePoints(segment: StrokeVector): Point[] {
+  try {
+    return decodePath(segment.pathData)
+      .filter(command => command.points.length >= 2)
+      .map(command => ({
+        x: command.points[command.points.length - 2] + segment.transform.x,
+        y: command.points[command.points.length - 1] + segment.transform.y,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Derive the median of a stroke that has a single animation segment
+ *
+ * Without animation progress the direction is unknown, so the two farthest
+ * outline points are used, ordered top-to-bottom / left-to-right.
+ */
+function getSingleSegmentMedian(points: Point[]): Point[] {
+  let best: [Point, Point] = [points[0], points[0]];
+  let bestDistance = -1;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const d = distance(points[i], points[j]);
+      if (d > bestDistance) {
+        bestDistance = d;
+        best = [points[i], points[j]];
+      }
+    }
+  }
+  const [a, b] = best;
+  return a.y + a.x <= b.y + b.x ? [a, b] : [b, a];
+}
+
+/**
+ * Get the outline of every animation segment of each stroke, with the area
+ * each segment reveals
+ */
+export function getStrokeSegments(strokeVectors: StrokeVector[]): StrokeSegments[] {
+  return groupStrokes(strokeVectors).map(group => {
+    const segments = group.segments.map(getOutlinePoints).filter(points => points.length > 0);
+    const revealed = segments.map((outline, k) => k === 0
+      ? outline
+      : outline.filter(p => segments[k - 1].every(q => distance(p, q) > REVEAL_DISTANCE))
+    );
+    return { strokeNumber: group.strokeNumber, segments, revealed };
+  });
+}
+
+/**
+ * Derive the expected path of each stroke from its animation segments
+ */
+export function getStrokeMedians(strokeVectors: StrokeVector[]): StrokeMedian[] {
+  return getStrokeSegments(strokeVectors).map(toMedian);
+}
+
+/**
+ * Derive the median of a stroke from the areas its segments reveal
+ */
+export function toMedian({ strokeNumber, segments, revealed }: StrokeSegments): StrokeMedian {
+  if (segments.length === 0) {
+    return { strokeNumber, points: [] };
+  }
+  if (segments.length === 1) {
+    return { strokeNumber, points: getSingleSegmentMedian(segments[0]) };
+  }
+
+  // Centre of the area revealed by each segment
+  const centres: Point[] = revealed.filter(points => points.length > 0).map(centroid);
+
+  // The stroke starts at the edge of the first segment away from the growth
+  const growth = centres[1] ?? centroid(segments[segments.length - 1]);
+  const start = segments[0].reduce((far, p) => (distance(p, growth) > distance(far, growth) ? p : far));
+  const startCentre = { x: (start.x + centres[0].x) / 2, y: (start.y + centres[0].y) / 2 };
+
+  return { strokeNumber, points: [startCentre, ...centres.slice(1)] };
+}
+
+/**
+ * Resample a polyline to evenly spaced points
+ */
+export function resamplePoints(points: Point[], count: number = SAMPLE_POINTS): Point[] {
+  if (points.length < 2) return points.length === 1 ? Array(count).fill(points[0]) : [];
+
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const total = lengths[lengths.length - 1];
+  if (total === 0) return Array(count).fill(points[0]);
+
+  const result: Point[] = [];
+  let segment = 1;
+  for (let n = 0; n < count; n++) {
+    const target = (total * n) / (count - 1);
+    while (segment < points.length - 1 && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1];
+    const t = span > 0 ? (target - lengths[segment - 1]) / span : 0;
+    const a = points[segment - 1];
+    const b = points[segment];
+    result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return result;
+}
+
+/**
+ * Average distance between two resampled paths, point by point
+ */
+function pathDistance(a: Point[], b: Point[]): number {
+  return a.reduce((sum, p, i) => sum + distance(p, b[i]), 0) / a.length;
+}
+
+/**
+ * Check a drawn stroke against the expected stroke
+ *
+ * @param drawn - Points of the drawn stroke, in drawing order
+ * @param medians - Medians of all strokes of the character
+ * @param expectedIndex - Index of the stroke that should be drawn next
+ */
+export function checkStroke(drawn: Point[], medians: StrokeMedian[], expectedIndex: number): StrokeCheckResult {
+  const expected = medians[expectedIndex];
+  const sampled = resamplePoints(drawn);
+  const target = resamplePoints(expected.points);
+
+  // Strokes without decodable outlines cannot be checked
+  if (target.length === 0) {
+    return { correct: true, issues: [], matchedStroke: expected.strokeNumber };
+  }
+  const reversed = [...target].reverse();
+
+  // Position and direction are judged by the closer of both orientations
+  const forwardDistance = pathDistance(sampled, target);
+  const backwardDistance = pathDistance(sampled, reversed);
+  const bestDistance = Math.min(forwardDistance, backwardDistance);
+
+  // A later stroke that fits clearly better means the order is wrong
+  let matchedIndex = expectedIndex;
+  let matchedDistance = bestDistance;
+  for (let i = expectedIndex + 1; i < medians.length; i++) {
+    const candidate = resamplePoints(medians[i].points);
+    const d = Math.min(pathDistance(sampled, candidate), pathDistance(sampled, [...candidate].reverse()));
+    if (d < matchedDistance) {
+      matchedIndex = i;
+      matchedDistance = d;
+    }
+  }
+
+  const issues: StrokeIssue[] = [];
+  if (matchedIndex !== expectedIndex && matchedDistance <= TRACE_TOLERANCE && bestDistance > matchedDistance * 1.5) {
+    issues.push("order");
+  } else if (bestDistance > TRACE_TOLERANCE) {
+    issues.push("position");
+  } else if (backwardDistance < forwardDistance) {
+    issues.push("direction");
+  } else if (distance(sampled[0], target[0]) > TRACE_TOLERANCE) {
+    issues.push("start");
+  }
+
+  return {
+    correct: issues.length === 0,
+    issues,
+    matchedStroke: medians[matchedIndex].strokeNumber,
+  };
+}
+
+/**
+ * Score one stroke from the number of mistakes made before getting it right
+ */
+export function scoreStroke(mistakes: number): number {
+  return Math.max(0, 1 - mistakes / (HINT_AFTER_MISTAKES + 1));
+}
+
+/**
+ * Score a character from 0 to 100 from the mistakes made on each stroke
+ */
+export function scoreCharacter(mistakesPerStroke: number[]): number {
+  if (mistakesPerStroke.length === 0) return 0;
+  const total = mistakesPerStroke.reduce((sum, mistakes) => sum + scoreStroke(mistakes), 0);
+  return Math.round((total / mistakesPerStroke.length) * 100);
+}
@@ -8,7 +8,10 @@ const VALID_STAGES: LearningStage[] = ["KS1", "KS2"];
 /**
  * Valid structure types
  */
-const VALID_STRUCTURE_TYPES: StructureType[] = ["left-right", "top-bottom", "surround", "single", "other"];
+const VALID_STRUCTURE_TYPES: StructureType[] = [
+  "left-right", "top-bottom", "surround", "single", "other",
+  "獨體", "左右", "上下", "包圍", "半包圍", "品字",
+];
 
 /**
  * Valid audio categories
@@ -0,0 +1,184 @@
+/**
+ * Stroke-Order Practice Worksheets (習字紙)
+ *
+ * Builds printable A4 worksheets: for each character a caption (jyutping and
+ * one stage word), its stroke-by-stroke sequence, grey tracing copies and
+ * empty practice cells on a 田字格 or 米字格 grid.
+ *
+ * Each character is defined once, as an SVG `<symbol>` holding one path per
+ * stroke; the cells draw it (or single strokes of it) with `<use>`, so the
+ * document grows with the number of characters rather than cells. Worksheets
+ * are HTML only: PDFs come from the browser's print dialog.
+ */
+
+import type { FullCharacterData } from "@/types/fullCharacter";
+import { translations, type Language } from "@/lib/i18n/translations";
+import { CANVAS_SIZE, getCanvasColors, getGridPath, groupStrokes, toSvgPath, type GridStyle } from "@/lib/strokes";
+
+/** Cells per row (18mm cells fit the printable width of A4) */
+export const CELLS_PER_ROW = 10;
+
+export interface WorksheetOptions {
+  /** Practice grid, defined once by renderWorksheetHtml (default: "tian") */
+  grid?: Exclude<GridStyle, "none">;
+  /** Number of grey tracing copies (default: 3) */
+  traceCopies?: number;
+  /** Number of empty practice rows after the tracing copies (default: 1) */
+  emptyRows?: number;
+  /** Language of headings (default: "zh-HK") */
+  language?: Language;
+}
+
+/**
+ * One character block on a worksheet
+ */
+export interface WorksheetEntry {
+  character: string;
+  jyutping: string;
+  /** Example stage word (stage 1 preferred) */
+  word?: string;
+  /** `<symbol>` with one path per stroke, referenced by the cells */
+  symbol: string;
+  /** Cell SVGs: stroke sequence, tracing copies, empty cells */
+  cells: string[];
+}
+
+/** Id of the grid symbol, defined once per worksheet */
+const GRID_SYMBOL_ID = "ws-grid";
+
+/** Worksheets print in the light theme */
+const COLORS = getCanvasColors("light");
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Id of the symbol of a character (characters are unique on a worksheet)
+ */
+function symbolId(character: string): string {
+  return `ws-${character.codePointAt(0)!.toString(16)}`;
+}
+
+/**
+ * A cell on the grid, drawing the given `<use>` elements
+ */
+function cellSvg(uses: string[] = []): string {
+  return `<svg viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}"><use href="#${GRID_SYMBOL_ID}" width="${CANVAS_SIZE}" height="${CANVAS_SIZE}"/>${uses.join("")}</svg>`;
+}
+
+/**
+ * Build the symbol and cells for one character
+ *
+ * The stroke sequence shows strokes 1..n with the newest stroke highlighted,
+ * followed by tracing copies; the last row is padded with empty cells and
+ * further empty rows are appended.
+ */
+export function buildWorksheetEntry(
+  data: FullCharacterData,
+  options: WorksheetOptions = {}
+): WorksheetEntry {
+  const { traceCopies = 3, emptyRows = 1 } = options;
+  const id = symbolId(data.character);
+
+  // The complete stroke is the last animation segment of each stroke
+  const strokes = groupStrokes(data.strokeVectors || []).map(group => {
+    const sv = group.segments[group.segments.length - 1];
+    return sv.svgPath ?? toSvgPath(sv.pathData, sv.transform);
+  });
+  const paths = strokes.map((d, i) => `<path id="${id}-${i + 1}" d="${d}"/>`).join("");
+  const symbol = `<symbol id="${id}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">${paths}</symbol>`;
+  const strokeUse = (strokeNumber: number, fill: string) => `<use href="#${id}-${strokeNumber}" fill="${fill}"/>`;
+
+  const cells: string[] = [];
+  for (let n = 1; n <= strokes.length; n++) {
+    const drawn = Array.from({ length: n - 1 }, (_, i) => strokeUse(i + 1, COLORS.stroke));
+    cells.push(cellSvg([...drawn, strokeUse(n, COLORS.highlight)]));
+  }
+
+  // Tracing copies start on a new row
+  const tracing = cellSvg([`<use href="#${id}" width="${CANVAS_SIZE}" height="${CANVAS_SIZE}" fill="${COLORS.guide}"/>`]);
+  const sequenceCells = Math.ceil(cells.length / CELLS_PER_ROW) * CELLS_PER_ROW;
+  const empty = cellSvg();
+  while (cells.length < sequenceCells) cells.push(empty);
+  for (let i = 0; i < traceCopies; i++) cells.push(tracing);
+
+  const rowEnd = Math.ceil(cells.length / CELLS_PER_ROW) * CELLS_PER_ROW;
+  while (cells.length < rowEnd + emptyRows * CELLS_PER_ROW) cells.push(empty);
+
+  const word = data.stage1Words?.[0]?.word || data.stage2Words?.[0]?.word;
+
+  return {
+    character: data.character,
+    jyutping: data.jyutping,
+    word,
+    symbol,
+    cells,
+  };
+}
+
+/**
+ * Render worksheet entries as a standalone, print-ready A4 HTML document
+ */
+export function renderWorksheetHtml(entries: WorksheetEntry[], options: WorksheetOptions = {}): string {
+  const { grid = "tian", language = "zh-HK" } = options;
+  const t = translations[language];
+
+  const gridSymbol = `<symbol id="${GRID_SYMBOL_ID}" viewBox="0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}">`
+    + `<path d="${getGridPath(grid)}" stroke="${COLORS.grid}" stroke-width="2" stroke-dasharray="12 8" fill="none"/></symbol>`;
+  const defs = [gridSymbol, ...entries.map(entry => entry.symbol)].join("\n");
+
+  const blocks = entries.map(entry => {
+    const caption = [entry.jyutping, entry.word].filter(Boolean).map(text => escapeHtml(text!)).join(" · ");
+    const cells = entry.cells.map(svg => `<div class="cell">${svg}</div>`).join("");
+    return `<section class="entry">
+<div class="caption"><span class="char">${escapeHtml(entry.character)}</span> ${caption}</div>
+<div class="grid">${cells}</div>
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t.worksheetTitle)}</title>
+<style>
+@page { size: A4; margin: 12mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: "Free HK Kai", "Kaiti TC", "DFKai-SB", serif; color: #2D3436; }
+.sheet { width: 186mm; margin: 0 auto; }
+header { display: flex; justify-content: space-between; align-items: baseline; margin-bottom: 4mm; }
+h1 { font-size: 18pt; margin: 0; }
+.fields { font-size: 11pt; }
+.fields span { display: inline-block; min-width: 40mm; border-bottom: 1px solid #2D3436; margin-left: 2mm; }
+.entry { break-inside: avoid; margin-bottom: 5mm; }
+.caption { font-size: 11pt; margin-bottom: 1.5mm; }
+.caption .char { font-size: 14pt; font-weight: bold; }
+.grid { display: grid; grid-template-columns: repeat(${CELLS_PER_ROW}, 18mm); border-top: 1px solid #B8A99A; border-left: 1px solid #B8A99A; }
+.cell { width: 18mm; height: 18mm; border-right: 1px solid #B8A99A; border-bottom: 1px solid #B8A99A; }
+.cell svg { display: block; width: 100%; height: 100%; }
+.defs { position: absolute; width: 0; height: 0; }
+@media screen { body { background: #F5F0EA; padding: 8mm 0; } .sheet { background: #FFFFFF; padding: 12mm; width: 210mm; } }
+</style>
+</head>
+<body>
+<svg class="defs" aria-hidden="true"><defs>
+${defs}
+</defs></svg>
+<div class="sheet">
+<header>
+<h1>${escapeHtml(t.worksheetTitle)}</h1>
+<div class="fields">${escapeHtml(t.worksheetName)}<span></span> ${escapeHtml(t.worksheetDate)}<span></span></div>
+</header>
+${blocks.join("\n")}
+</div>
+</body>
+</html>`;
+}
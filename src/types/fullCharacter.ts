@@ -5,6 +5,8 @@
  * including stroke animations, related words, and phrases.
  */
 
+import type { StructureType } from "./character";
+
 /**
  * Stroke vector data for animation rendering
  */
@@ -15,8 +17,10 @@ export interface StrokeVector {
   segment: number;
   /** Animation frame number */
   frame: number;
-  /** SVG path data (base64 encoded or raw SVG path) */
+  /** Path data in the EaselJS compact encoding */
   pathData: string;
+  /** Decoded SVG path with the transform applied (added by /api/characters/strokes) */
+  svgPath?: string;
   /** Transform position */
   transform: {
     x: number;
@@ -26,6 +30,19 @@ export interface StrokeVector {
   color: string;
 }
 
+/**
+ * Basic stroke type (筆形), classified from stroke geometry
+ * - heng: 橫 (horizontal)
+ * - ti: 提 (rising)
+ * - shu: 豎 (vertical)
+ * - pie: 撇 (left-falling)
+ * - dian: 點 (dot)
+ * - na: 捺 (right-falling)
+ * - zhe: 折 (turning)
+ * - gou: 鈎 (hook)
+ */
+export type StrokeType = "heng" | "ti" | "shu" | "pie" | "dian" | "na" | "zhe" | "gou";
+
 /**
  * Word entry with pronunciation (for character data)
  */
@@ -38,6 +55,18 @@ export interface Word {
   pinyin?: string;
   /** Learning stage ("1" or "2") */
   stage?: string;
+  /** Reading of the character within this word (generated, for 多音字) */
+  reading?: string;
+}
+
+/**
+ * A reading (讀音) of a character with the words that use it
+ */
+export interface CharacterReading {
+  /** Jyutping of this reading */
+  jyutping: string;
+  /** Stage words using this reading */
+  words: string[];
 }
 
 /**
@@ -48,6 +77,32 @@ export interface Phrase {
   word: string;
 }
 
+/**
+ * Character decomposition (generated from IDS source data)
+ */
+export interface CharacterDecomposition {
+  /** Ideographic Description Sequence (e.g. "⿰日月") */
+  ids: string;
+  /** Components in reading order */
+  components: string[];
+  /** Structure type (左右/上下/包圍/半包圍/品字/獨體) */
+  structureType: StructureType;
+  /** Index into components of each stroke, in stroke order (generated from stroke geometry) */
+  strokeComponents?: number[];
+  /** Index into components of the radical (部首), when it is one of the components */
+  radicalComponent?: number;
+}
+
+/**
+ * Structure type inferred from stroke geometry (generated, for every character)
+ */
+export interface InferredStructure {
+  /** Structure type (左右/上下/包圍/半包圍/品字/獨體) */
+  structureType: StructureType;
+  /** How certain the inference is, from 0 to 1 */
+  confidence: number;
+}
+
 /**
  * Full character data from individual JSON files
  */
@@ -62,14 +117,18 @@ export interface FullCharacterData {
   radical: string;
   /** Total stroke count */
   strokeCount: number;
-  /** Cantonese romanization (粵拼) */
+  /** Cantonese romanization (粵拼) - primary reading */
   jyutping: string;
+  /** All readings with example words, primary first (generated) */
+  readings?: CharacterReading[];
   /** Mandarin pinyin */
   pinyin?: string;
   /** URLs to stroke animation HTML pages */
   strokeOrderImages?: string[];
   /** Vector graphics data for stroke animations */
   strokeVectors?: StrokeVector[];
+  /** Type of each stroke, in stroke order (generated) */
+  strokeTypes?: StrokeType[];
   /** Whether in HK lexical lists */
   inLexicalListsHK?: boolean;
   /** Stage 1 (第一學習階段) words */
@@ -86,10 +145,14 @@ export interface FullCharacterData {
   properNouns?: Phrase[];
   /** 音譯詞 (transliterated words) */
   transliteratedWords?: Phrase[];
+  /** Component decomposition (generated) */
+  decomposition?: CharacterDecomposition;
+  /** Structure type inferred from the strokes (generated) */
+  inferredStructure?: InferredStructure;
 }
 
 /**
- * Character index entry (no stage field - stage applies to words only)
+ * Character index entry
  */
 export interface IndexEntry {
   /** Key for grouping */
@@ -102,10 +165,26 @@ export interface IndexEntry {
   radical: string;
   /** Stroke count */
   strokeCount: number;
-  /** Jyutping */
+  /** Jyutping (primary reading) */
   jyutping: string;
+  /** All readings, primary first (多音字) */
+  readings: string[];
   /** In HK lexical lists */
   inLexicalListsHK: boolean;
+  /** Stroke classes in stroke order, e.g. "hspdz" (橫豎撇點折) */
+  strokeSequence: string;
+  /** Number of stage words using the character, a proxy for how common it is */
+  wordCount: number;
+  /** Structure type: from the decomposition when there is one, otherwise inferred from the strokes */
+  structureType: StructureType;
+  /** Confidence of the structure type (1 for decompositions) */
+  structureConfidence: number;
+  /** Rank in the corpus frequency list (1 = most frequent), null when not listed */
+  frequencyRank: number | null;
+  /** How hard the character is to learn, 0 (easiest) to 100 (hardest) */
+  difficulty: number;
+  /** Learning stage that first introduces the character (its first stage word), null without stage words */
+  stage: WordStage | null;
 }
 
 /**
@@ -124,6 +203,163 @@ export interface WordIndexEntry {
   character: string;
 }
 
+/**
+ * Characters sharing one reading
+ */
+export interface HomophoneGroup {
+  /** The shared reading (e.g. "si1") */
+  jyutping: string;
+  /** Tone of the reading (1-6) */
+  tone?: number;
+  /** Characters with this reading, most common first */
+  entries: IndexEntry[];
+}
+
+/**
+ * Homophones of one reading of a character
+ */
+export interface ReadingHomophones {
+  /** The reading of the character */
+  jyutping: string;
+  /** Characters with exactly this reading */
+  homophones: IndexEntry[];
+  /** Characters with the same syllable, grouped by tone (tone-insensitive lookups only) */
+  tones?: HomophoneGroup[];
+}
+
+/**
+ * Decomposition index entry (for decomposition.json)
+ */
+export interface DecompositionIndexEntry extends CharacterDecomposition {
+  /** Key for grouping */
+  key: string;
+  /** Character ID */
+  id: string;
+  /** The character */
+  character: string;
+}
+
+/**
+ * Flat decomposition index structure
+ */
+export interface DecompositionIndex {
+  entries: DecompositionIndexEntry[];
+}
+
+/**
+ * A visually similar character (形近字)
+ */
+export interface SimilarCharacter {
+  /** Character ID */
+  id: string;
+  /** The character */
+  character: string;
+  /** Similarity (0-1) */
+  score: number;
+}
+
+/**
+ * Similarity index entry (for similar.json)
+ */
+export interface SimilarityIndexEntry {
+  /** Key for grouping */
+  key: string;
+  /** Character ID */
+  id: string;
+  /** The character */
+  character: string;
+  /** Most similar characters first */
+  similar: SimilarCharacter[];
+}
+
+/**
+ * Flat similarity index structure
+ */
+export interface SimilarityIndex {
+  entries: SimilarityIndexEntry[];
+}
+
+/**
+ * How the reading of a character relates to the reading of its phonetic
+ * component, ignoring tones
+ * - same: same initial and final (青 cing1 → 清 cing1, 晴 cing4)
+ * - rhyme: same final only (青 → 精 zing1)
+ */
+export type PhoneticRelation = "same" | "rhyme";
+
+/**
+ * Readings across a phonetic series
+ */
+export interface JyutpingPattern {
+  /** Final most of the series share (e.g. "ing") */
+  final: string;
+  /** Share of the series with that final (0-1) */
+  finalShare: number;
+  /** Initials in the series, most common first ("" for a null initial) */
+  initials: string[];
+  /** Tones in the series, ascending */
+  tones: number[];
+}
+
+/**
+ * Member of a phonetic series
+ */
+export interface PhoneticSeriesMember extends IndexEntry {
+  /** How its reading relates to the phonetic */
+  relation: PhoneticRelation;
+}
+
+/**
+ * Phonetic series (聲旁家族): characters sharing a phonetic component
+ */
+export interface PhoneticSeries {
+  /** The phonetic component */
+  key: string;
+  /** Index entry of the phonetic, when it is a character of its own */
+  phonetic?: IndexEntry;
+  /** Readings across the phonetic and its members */
+  pattern: JyutpingPattern;
+  /** Characters with the phonetic, closest reading first */
+  entries: PhoneticSeriesMember[];
+}
+
+/**
+ * Phonetic series index structure (for phonetic.json)
+ */
+export interface PhoneticIndex {
+  groups: PhoneticSeries[];
+}
+
+/**
+ * A Kangxi radical (部首)
+ */
+export interface RadicalInfo {
+  /** Kangxi radical number (1-214) */
+  number: number;
+  radical: string;
+  strokes: number;
+  /** Component forms (氵 for 水) */
+  variants: string[];
+  /** Short meaning in each UI language */
+  meaning: { "zh-HK": string; en: string };
+}
+
+/**
+ * A Kangxi radical with the number of characters under it
+ */
+export interface RadicalSummary extends RadicalInfo {
+  characterCount: number;
+}
+
+/**
+ * Characters under a radical with the same number of residual strokes
+ * (strokes besides the radical)
+ */
+export interface RadicalCharacterGroup {
+  residualStrokes: number;
+  entries: IndexEntry[];
+}
+
 /**
  * Grouped index structure for characters
  */
@@ -163,6 +399,8 @@ export interface IndexSummary {
   stage1WordCount: number;
   /** Total Stage 2 (第二學習階段) words */
   stage2WordCount: number;
+  /** Characters with decomposition data */
+  decompositionCount: number;
   /** Distribution of characters by stroke count */
   strokeCounts: Array<{
     strokes: number;